@@ -15,7 +15,14 @@ import {
   Activity,
   Search as SearchIcon,
   Filter,
-  BookOpen
+  BookOpen,
+  Settings as SettingsIcon,
+  Gauge,
+  Clock,
+  SlidersHorizontal,
+  TrendingUp,
+  TrendingDown,
+  LayoutGrid
 } from 'lucide-react';
 import { View } from './types';
 import { MarketChat } from './components/MarketChat';
@@ -27,6 +34,42 @@ import { MultimodalInput } from './components/MultimodalInput';
 import { AdvanceScreen } from './components/AdvanceScreen';
 import { StockScreener } from './components/StockScreener';
 import { Library } from './components/Library';
+import { Settings } from './components/Settings';
+import { UsageDashboard } from './components/UsageDashboard';
+import { SymbolInput } from './components/SymbolInput';
+import { getMarketQuote, getTopMovers, MarketMovers, QuoteResult } from './services/marketDataService';
+import { loadSymbolMaster, resolveSymbol, findSymbol } from './services/symbolMaster';
+import { getMarketStatus, isQuoteStale } from './services/tradingCalendar';
+import { INDEX_CATALOG, MAX_INDICES, MarketIndex, loadDashboardIndices, saveDashboardIndices } from './services/marketIndices';
+import { useMarketStatus } from './hooks/useMarketStatus';
+import { MarketStatusBadge } from './components/MarketStatusBadge';
+import { MarketBreadthPanel } from './components/MarketBreadthPanel';
+import { SectorHeatmap } from './components/SectorHeatmap';
+
+const QUOTE_REFRESH_MS = 60 * 1000;
+
+// Marks a price that came from the AI fallback instead of market data
+const EstimateTag = () => (
+  <span className="text-[10px] font-medium normal-case tracking-normal text-amber-400 bg-amber-400/10 px-1.5 py-0.5 rounded" title="No market data for this symbol; the price was generated by the AI model">
+    AI estimate
+  </span>
+);
+
+// "14 Oct" for a daily close, "14 Oct, 15:29" for a timestamp
+const formatAsOf = (asOf: string) => {
+  const d = new Date(asOf);
+  if (isNaN(d.getTime())) return asOf;
+  return asOf.length <= 10
+    ? d.toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })
+    : d.toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', hour12: false });
+};
+
+// Marks a price that is older than the market (last refresh failed, or the source lags)
+const StaleTag = ({ asOf }: { asOf: string }) => (
+  <span className="text-[10px] font-medium normal-case tracking-normal text-gray-400 bg-gray-700/60 px-1.5 py-0.5 rounded flex items-center gap-1" title={`Not current: last price is from ${formatAsOf(asOf)}`}>
+    <Clock size={10} /> as of {formatAsOf(asOf)}
+  </span>
+);
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<View>(View.DASHBOARD);
@@ -61,6 +104,11 @@ const App: React.FC = () => {
       setCurrentView(View.MARKET_CHAT);
   };
 
+  const handleOpenSymbol = (symbol: string) => {
+      setTargetSymbol(symbol);
+      setCurrentView(View.VISUAL_ANALYSIS);
+  };
+
   // Helper to restore items from Library
   const handleOpenFromLibrary = (type: 'CHART' | 'DEEP_REPORT' | 'SCREEN_SHOT' | 'MEDIA', data: any) => {
       if (type === 'CHART') {
@@ -77,86 +125,119 @@ const App: React.FC = () => {
 
   // Dynamic Dashboard Component
   const Dashboard = () => {
-    // Simulated Real-time Data State with LocalStorage Persistence
-    const [marketData, setMarketData] = useState(() => {
+    // Last known quotes, persisted so the cards aren't empty while refreshing
+    const [quotes, setQuotes] = useState<Record<string, QuoteResult>>(() => {
       if (typeof window !== 'undefined') {
-        const saved = localStorage.getItem('dashboard_market_data');
+        const saved = localStorage.getItem('dashboard_quotes');
         if (saved) {
-          try { return JSON.parse(saved); } catch (e) { console.error("Failed to parse market data", e); }
+          try { return JSON.parse(saved); } catch (e) { console.error("Failed to parse dashboard quotes", e); }
         }
       }
-      return {
-        nifty: { value: 24350.20, change: 0.85 },
-        sensex: { value: 80100.50, change: 0.75 },
-        bankNifty: { value: 52100.00, change: -0.24 },
-      };
+      return {};
     });
 
-    const [topStocks, setTopStocks] = useState(() => {
+    // Last computed gainers/losers, persisted like the quotes
+    const [movers, setMovers] = useState<MarketMovers | null>(() => {
       if (typeof window !== 'undefined') {
-        const saved = localStorage.getItem('dashboard_top_stocks');
+        const saved = localStorage.getItem('dashboard_movers');
         if (saved) {
-          try { return JSON.parse(saved); } catch (e) { console.error("Failed to parse top stocks", e); }
+          try { return JSON.parse(saved); } catch (e) { console.error("Failed to parse dashboard movers", e); }
         }
       }
-      return [
-        { name: 'TCS', price: 3450.20, change: 2.4 },
-        { name: 'Infosys', price: 1650.45, change: 1.8 },
-        { name: 'Reliance', price: 2980.10, change: 1.2 },
-        { name: 'HDFC Bank', price: 1450.50, change: -0.5 },
-        { name: 'Adani Ent', price: 3100.00, change: 0.9 },
-      ];
+      return null;
     });
-    
-    const [lastUpdated, setLastUpdated] = useState(new Date());
+    const [indices, setIndices] = useState<MarketIndex[]>(() => loadDashboardIndices());
+    const [showIndexPicker, setShowIndexPicker] = useState(false);
+    // Symbols whose last refresh failed; their cards keep the previous (stale) value
+    const [failedSymbols, setFailedSymbols] = useState<string[]>([]);
+
+    const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
     const [searchInput, setSearchInput] = useState('');
+    const marketStatus = useMarketStatus();
 
-    // Persist Market Data changes
+    // Persist Quotes
     useEffect(() => {
-      localStorage.setItem('dashboard_market_data', JSON.stringify(marketData));
-    }, [marketData]);
+      localStorage.setItem('dashboard_quotes', JSON.stringify(quotes));
+    }, [quotes]);
 
-    // Persist Top Stocks changes
     useEffect(() => {
-      localStorage.setItem('dashboard_top_stocks', JSON.stringify(topStocks));
-    }, [topStocks]);
+      if (movers) localStorage.setItem('dashboard_movers', JSON.stringify(movers));
+    }, [movers]);
 
-    // Simulation Effect
+    // Fetch index quotes and movers from the market data provider. Only real market quotes are
+    // refreshed, and only while the exchange is in session; AI estimates are fetched once so an
+    // open Dashboard doesn't keep calling the model. Movers never use AI estimates.
     useEffect(() => {
+        const controller = new AbortController();
+        const estimated = new Set<string>();
+
+        const refreshIndices = async () => {
+            const symbols = indices.map(index => index.symbol).filter(s => !estimated.has(s));
+            const results = await Promise.all(symbols.map(symbol =>
+                getMarketQuote(symbol, controller.signal).catch(e => {
+                    if (!controller.signal.aborted) console.warn(`Dashboard quote for ${symbol} failed`, e);
+                    return null;
+                })
+            ));
+            if (controller.signal.aborted) return;
+
+            setQuotes(prev => {
+                const next = { ...prev };
+                results.forEach((result, idx) => {
+                    if (!result) return;
+                    next[symbols[idx]] = result;
+                    if (result.source === 'ai-estimate') estimated.add(symbols[idx]);
+                });
+                return next;
+            });
+            setFailedSymbols(symbols.filter((_, idx) => !results[idx]));
+        };
+
+        // The universe is the symbol master
+        const refreshMovers = async () => {
+            const universe = (await loadSymbolMaster()).map(entry => entry.symbol);
+            if (universe.length === 0) return;
+            try {
+                const result = await getTopMovers(universe, 5, controller.signal);
+                if (!controller.signal.aborted && result.covered > 0) setMovers(result);
+            } catch (e) {
+                if (!controller.signal.aborted) console.warn("Dashboard movers failed", e);
+            }
+        };
+
+        const refresh = async () => {
+            await Promise.all([refreshIndices(), refreshMovers()]);
+            if (!controller.signal.aborted) setLastUpdated(new Date());
+        };
+
+        refresh();
         const interval = setInterval(() => {
-            // Randomize Indices
-            setMarketData((prev: any) => ({
-                nifty: { 
-                    value: prev.nifty.value * (1 + (Math.random() * 0.001 - 0.0005)), 
-                    change: prev.nifty.change + (Math.random() * 0.1 - 0.05) 
-                },
-                sensex: { 
-                    value: prev.sensex.value * (1 + (Math.random() * 0.001 - 0.0005)), 
-                    change: prev.sensex.change + (Math.random() * 0.1 - 0.05) 
-                },
-                bankNifty: { 
-                    value: prev.bankNifty.value * (1 + (Math.random() * 0.001 - 0.0005)), 
-                    change: prev.bankNifty.change + (Math.random() * 0.1 - 0.05) 
-                },
-            }));
-
-            // Randomize Stocks
-            setTopStocks((prev: any[]) => prev.map(stock => ({
-                ...stock,
-                price: stock.price * (1 + (Math.random() * 0.002 - 0.001)),
-                change: stock.change + (Math.random() * 0.2 - 0.1)
-            })));
-
-            setLastUpdated(new Date());
-        }, 3000); // Update every 3 seconds
-
-        return () => clearInterval(interval);
-    }, []);
+            if (getMarketStatus().phase !== 'CLOSED') refresh();
+        }, QUOTE_REFRESH_MS);
+        return () => {
+            controller.abort();
+            clearInterval(interval);
+        };
+    }, [indices]);
+
+    const toggleIndex = (index: MarketIndex) => {
+        const selected = indices.some(i => i.symbol === index.symbol);
+        if (selected && indices.length === 1) return;
+        if (!selected && indices.length >= MAX_INDICES) return;
+        // Keep catalog order so cards don't jump around
+        const next = INDEX_CATALOG.filter(i => i.symbol === index.symbol ? !selected : indices.some(s => s.symbol === i.symbol));
+        setIndices(next);
+        saveDashboardIndices(next);
+    };
+
+    const niftyChange = quotes[indices[0]?.symbol]?.quote.changePercent ?? 0;
+    const hasEstimates = Object.values<QuoteResult>(quotes).some(q => q.source === 'ai-estimate');
+
+    const openSymbol = handleOpenSymbol;
 
     const handleDashboardSearch = () => {
         if(searchInput.trim()) {
-            setTargetSymbol(searchInput);
-            setCurrentView(View.VISUAL_ANALYSIS);
+            openSymbol(resolveSymbol(searchInput));
         }
     };
 
@@ -175,9 +256,14 @@ const App: React.FC = () => {
         <div className="p-6 h-full overflow-y-auto">
             <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
                 <h1 className="text-3xl font-bold text-white">Market Dashboard</h1>
-                <div className="flex items-center gap-2 px-3 py-1 bg-gray-800 rounded-full border border-gray-700">
-                    <Activity size={16} className="text-green-500 animate-pulse" />
-                    <span className="text-xs text-gray-400 font-mono">LIVE FEED • {lastUpdated.toLocaleTimeString()}</span>
+                <div className="flex flex-wrap items-center gap-2">
+                    <MarketStatusBadge status={marketStatus} />
+                    <div className="flex items-center gap-2 px-3 py-1 bg-gray-800 rounded-full border border-gray-700" title={hasEstimates ? 'Some prices are AI estimates because no market data was available for them' : undefined}>
+                        <Activity size={16} className={hasEstimates ? 'text-amber-400' : marketStatus.phase === 'CLOSED' ? 'text-gray-500' : 'text-green-500 animate-pulse'} />
+                        <span className="text-xs text-gray-400 font-mono">
+                            {hasEstimates ? 'INCLUDES AI ESTIMATES' : 'MARKET DATA'} • {lastUpdated ? lastUpdated.toLocaleTimeString() : 'Loading...'}
+                        </span>
+                    </div>
                 </div>
             </div>
 
@@ -187,13 +273,13 @@ const App: React.FC = () => {
                     <div className="absolute -inset-0.5 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl opacity-50 group-hover:opacity-75 transition duration-200 blur"></div>
                     <div className="relative flex items-center bg-gray-900 rounded-xl">
                         <SearchIcon className="absolute left-4 text-gray-400" size={20} />
-                        <input 
-                            type="text" 
-                            className="w-full bg-transparent border-none text-white pl-12 pr-4 py-4 focus:ring-0 text-lg placeholder-gray-500"
-                            placeholder="Search for a stock symbol to analyze (e.g., RELIANCE, TCS)..."
+                        <SymbolInput
+                            containerClassName="w-full"
+                            className="w-full bg-transparent border-none text-white pl-12 pr-28 py-4 focus:ring-0 text-lg placeholder-gray-500"
+                            placeholder="Search by symbol or company name (e.g., RELIANCE, HDFC Bank)..."
                             value={searchInput}
-                            onChange={(e) => setSearchInput(e.target.value)}
-                            onKeyDown={(e) => e.key === 'Enter' && handleDashboardSearch()}
+                            onChange={setSearchInput}
+                            onSubmit={openSymbol}
                         />
                         <button 
                             onClick={handleDashboardSearch}
@@ -206,21 +292,60 @@ const App: React.FC = () => {
             </div>
 
             {/* Indices Grid */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-                {[
-                    { label: 'NIFTY 50', data: marketData.nifty },
-                    { label: 'SENSEX', data: marketData.sensex },
-                    { label: 'BANK NIFTY', data: marketData.bankNifty }
-                ].map((item, idx) => (
-                    <div key={idx} className="bg-gray-800 p-6 rounded-xl border border-gray-700 hover:border-blue-500/50 transition-all shadow-lg hover:shadow-blue-500/10 group">
-                        <h3 className="text-gray-500 text-xs font-bold uppercase tracking-widest mb-1 group-hover:text-blue-400 transition-colors">{item.label}</h3>
-                        <div className="flex items-baseline justify-between">
-                            <span className="text-2xl font-bold text-white tracking-tight">{formatNum(item.data.value)}</span>
-                            {formatChange(item.data.change)}
+            <div className="flex items-center justify-between mb-3 relative">
+                <h2 className="text-sm font-bold text-gray-400 uppercase tracking-widest">Indices</h2>
+                <button
+                    onClick={() => setShowIndexPicker(!showIndexPicker)}
+                    className={`p-1.5 rounded-lg border transition-colors ${showIndexPicker ? 'bg-gray-700 border-gray-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+                    title="Choose indices"
+                >
+                    <SlidersHorizontal size={16} />
+                </button>
+                {showIndexPicker && (
+                    <div className="absolute right-0 top-full mt-2 bg-gray-900 border border-gray-700 rounded-lg p-3 shadow-xl z-30 w-64">
+                        <p className="text-xs text-gray-500 mb-2">Up to {MAX_INDICES} indices</p>
+                        <div className="max-h-72 overflow-y-auto space-y-1">
+                            {INDEX_CATALOG.map(index => {
+                                const selected = indices.some(i => i.symbol === index.symbol);
+                                return (
+                                    <label key={index.symbol} className="flex items-center gap-2 text-sm text-gray-300 px-1 py-0.5 rounded hover:bg-gray-800 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={selected}
+                                            disabled={selected ? indices.length === 1 : indices.length >= MAX_INDICES}
+                                            onChange={() => toggleIndex(index)}
+                                        />
+                                        {index.label}
+                                    </label>
+                                );
+                            })}
                         </div>
                     </div>
-                ))}
+                )}
             </div>
+            <div className={`grid grid-cols-1 gap-6 mb-8 ${indices.length === 1 ? '' : indices.length === 2 || indices.length === 4 ? 'md:grid-cols-2' : 'md:grid-cols-3'}`}>
+                {indices.map((item) => {
+                    const result = quotes[item.symbol];
+                    const stale = !!result && (failedSymbols.includes(item.symbol) || isQuoteStale(result.quote.asOf));
+                    return (
+                        <div key={item.symbol} className="bg-gray-800 p-6 rounded-xl border border-gray-700 hover:border-blue-500/50 transition-all shadow-lg hover:shadow-blue-500/10 group">
+                            <h3 className="text-gray-500 text-xs font-bold uppercase tracking-widest mb-1 group-hover:text-blue-400 transition-colors flex items-center justify-between gap-2">
+                                {item.label}
+                                <span className="flex items-center gap-1">
+                                    {stale && <StaleTag asOf={result.quote.asOf} />}
+                                    {result?.source === 'ai-estimate' && <EstimateTag />}
+                                </span>
+                            </h3>
+                            <div className="flex items-baseline justify-between">
+                                <span className={`text-2xl font-bold tracking-tight ${stale ? 'text-gray-400' : 'text-white'}`}>{result ? formatNum(result.quote.price) : '—'}</span>
+                                {result && formatChange(result.quote.changePercent)}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <MarketBreadthPanel />
             
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 {/* Top Movers */}
@@ -228,20 +353,41 @@ const App: React.FC = () => {
                     <h3 className="text-lg font-bold mb-5 flex items-center gap-2 border-b border-gray-700 pb-3">
                         <BarChart2 className="text-blue-400" size={20} /> Top Market Movers
                     </h3>
-                    <ul className="space-y-4">
-                        {topStocks.map((stock: any, idx: number) => (
-                            <li key={idx} className="flex justify-between items-center hover:bg-gray-700/30 p-2 rounded-lg transition-colors cursor-pointer" onClick={() => {
-                                setTargetSymbol(stock.name);
-                                setCurrentView(View.VISUAL_ANALYSIS);
-                            }}>
-                                <div>
-                                    <span className="font-bold block text-gray-200">{stock.name}</span>
-                                    <span className="text-xs text-gray-500">₹{formatNum(stock.price)}</span>
-                                </div>
-                                {formatChange(stock.change)}
-                            </li>
-                        ))}
-                    </ul>
+                    {!movers ? (
+                        <p className="text-sm text-gray-500 py-6 text-center">
+                            {lastUpdated ? 'No market data for the symbol master yet, so movers can’t be computed.' : 'Loading...'}
+                        </p>
+                    ) : (
+                        <>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                {([['Top Gainers', movers.gainers, TrendingUp, 'text-green-400'], ['Top Losers', movers.losers, TrendingDown, 'text-red-400']] as const).map(([title, list, Icon, color]) => (
+                                    <div key={title}>
+                                        <h4 className={`text-xs font-bold uppercase tracking-widest mb-2 flex items-center gap-1 ${color}`}>
+                                            <Icon size={14} /> {title}
+                                        </h4>
+                                        {list.length === 0 && <p className="text-xs text-gray-500 p-2">None</p>}
+                                        <ul className="space-y-1">
+                                            {list.map((quote) => (
+                                                <li key={quote.symbol} className="flex justify-between items-center hover:bg-gray-700/30 p-2 rounded-lg transition-colors cursor-pointer" onClick={() => openSymbol(quote.symbol)}>
+                                                    <div className="min-w-0">
+                                                        <span className="font-bold block text-gray-200" title={findSymbol(quote.symbol)?.name}>{quote.symbol}</span>
+                                                        <span className="text-xs text-gray-500 flex items-center gap-2">
+                                                            ₹{formatNum(quote.price)}
+                                                            {isQuoteStale(quote.asOf) && <StaleTag asOf={quote.asOf} />}
+                                                        </span>
+                                                    </div>
+                                                    {formatChange(quote.changePercent)}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                ))}
+                            </div>
+                            <p className="text-[11px] text-gray-500 mt-4">
+                                From {movers.covered} of {movers.total} symbols with market data
+                            </p>
+                        </>
+                    )}
                 </div>
 
                 {/* Market Sentiment */}
@@ -259,7 +405,7 @@ const App: React.FC = () => {
                             <div 
                                 className="absolute bottom-0 left-1/2 w-1 h-full bg-white origin-bottom transition-transform duration-700 ease-out"
                                 style={{ 
-                                    transform: `translateX(-50%) rotate(${(marketData.nifty.change * 25)}deg)` 
+                                    transform: `translateX(-50%) rotate(${(niftyChange * 25)}deg)` 
                                 }}
                             >
                                 <div className="absolute top-0 left-1/2 -translate-x-1/2 w-3 h-3 bg-red-500 rounded-full shadow-[0_0_10px_red]"></div>
@@ -268,11 +414,11 @@ const App: React.FC = () => {
                         </div>
 
                         <div className="text-center">
-                            <div className={`text-4xl font-bold transition-colors duration-500 ${marketData.nifty.change >= 0 ? 'text-green-500' : 'text-red-500'}`}>
-                                {marketData.nifty.change >= 0.5 ? 'Strong Buy' : marketData.nifty.change >= 0 ? 'Bullish' : 'Bearish'}
+                            <div className={`text-4xl font-bold transition-colors duration-500 ${niftyChange >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                                {niftyChange >= 0.5 ? 'Strong Buy' : niftyChange >= 0 ? 'Bullish' : 'Bearish'}
                             </div>
                             <p className="text-sm text-gray-400 mt-2 max-w-xs mx-auto">
-                                Institutional flows suggest {marketData.nifty.change >= 0 ? 'positive' : 'negative'} momentum in large-cap indices.
+                                Institutional flows suggest {niftyChange >= 0 ? 'positive' : 'negative'} momentum in large-cap indices.
                             </p>
                         </div>
                     </div>
@@ -293,7 +439,10 @@ const App: React.FC = () => {
       case View.MULTIMODAL_INPUT: return <MultimodalInput />;
       case View.ADVANCE_SCREEN: return <AdvanceScreen />;
       case View.STOCK_SCREENER: return <StockScreener />;
+      case View.SECTOR_HEATMAP: return <SectorHeatmap onOpenSymbol={handleOpenSymbol} />;
       case View.LIBRARY: return <Library onOpenItem={handleOpenFromLibrary} />;
+      case View.SETTINGS: return <Settings />;
+      case View.USAGE: return <UsageDashboard />;
       default: return <Dashboard />;
     }
   };
@@ -319,6 +468,7 @@ const App: React.FC = () => {
           <NavItem view={View.DASHBOARD} icon={LayoutDashboard} label="Dashboard" />
           <NavItem view={View.MARKET_CHAT} icon={MessageSquare} label="Market Chat" />
           <NavItem view={View.STOCK_SCREENER} icon={Filter} label="Stock Screener" />
+          <NavItem view={View.SECTOR_HEATMAP} icon={LayoutGrid} label="Sector Heatmap" />
           <NavItem view={View.VISUAL_ANALYSIS} icon={BarChart2} label="Visual Analysis" />
           <NavItem view={View.DEEP_ANALYSIS} icon={BrainCircuit} label="Deep Analysis" />
           <NavItem view={View.LIVE_CONSULTANT} icon={Mic} label="Live Consultant" />
@@ -328,6 +478,8 @@ const App: React.FC = () => {
           
           <div className="pt-4 mt-4 border-t border-gray-800">
             <NavItem view={View.LIBRARY} icon={BookOpen} label="My Library" />
+            <NavItem view={View.USAGE} icon={Gauge} label="AI Usage" />
+            <NavItem view={View.SETTINGS} icon={SettingsIcon} label="Settings" />
           </div>
         </nav>
       </div>
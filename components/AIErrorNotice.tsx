@@ -0,0 +1,93 @@
+import React from 'react';
+import { AlertCircle, Clock, WifiOff, ShieldAlert, KeyRound, FileWarning, RotateCcw, Square, Wallet } from 'lucide-react';
+import { AIError, AIErrorKind } from '../services/aiErrors';
+import { StructuredOutputError } from '../services/schemas';
+
+interface AIErrorNoticeProps {
+    error: AIError;
+    onRetry?: () => void;
+    // Extra action for key problems (e.g. opening the AI Studio key picker)
+    onFixKey?: () => void;
+}
+
+const ERROR_COPY: Record<AIErrorKind, { title: string; hint: string; icon: any }> = {
+    QUOTA_EXCEEDED: {
+        title: 'Rate limit reached',
+        hint: 'The Gemini API quota is used up for now. Wait a minute before retrying, or check your plan limits.',
+        icon: Clock,
+    },
+    NETWORK: {
+        title: 'Connection problem',
+        hint: "Couldn't reach the AI service, even after retrying. Check your internet connection and try again.",
+        icon: WifiOff,
+    },
+    SAFETY_BLOCKED: {
+        title: 'Response blocked',
+        hint: 'The request was stopped by safety filters. Rephrase it around the financial question and try again.',
+        icon: ShieldAlert,
+    },
+    INVALID_KEY: {
+        title: 'API key problem',
+        hint: 'Check that GEMINI_API_KEY in .env.local is valid and has access to this model, then restart the dev server.',
+        icon: KeyRound,
+    },
+    PARSE_FAILURE: {
+        title: 'Unexpected response',
+        hint: 'The AI answered in a format we could not read. Running it again usually fixes this.',
+        icon: FileWarning,
+    },
+    BUDGET_EXCEEDED: {
+        title: 'Budget limit reached',
+        hint: "Today's AI spending limit has been used up. Raise or clear the limit under AI Usage, or try again tomorrow.",
+        icon: Wallet,
+    },
+    CANCELLED: {
+        title: 'Request stopped',
+        hint: 'You stopped this request before it finished. Run it again when you are ready.',
+        icon: Square,
+    },
+    UNKNOWN: {
+        title: 'Something went wrong',
+        hint: 'Please try again. If it keeps happening, check the browser console for details.',
+        icon: AlertCircle,
+    },
+};
+
+export const AIErrorNotice: React.FC<AIErrorNoticeProps> = ({ error, onRetry, onFixKey }) => {
+    const copy = ERROR_COPY[error.kind];
+    const Icon = copy.icon;
+    const issues = error instanceof StructuredOutputError ? error.issues : [];
+
+    return (
+        <div className="bg-red-900/20 border border-red-700 rounded-xl p-4 text-red-300 animate-fade-in">
+            <p className="flex items-center gap-2 font-bold"><Icon size={18} /> {copy.title}</p>
+            <p className="text-sm text-gray-300 mt-1">{copy.hint}</p>
+            {error.message && <p className="text-xs text-red-400/80 mt-2 font-mono break-words">{error.message}</p>}
+            {issues.length > 0 && (
+                <ul className="mt-2 text-xs text-red-400/80 font-mono list-disc list-inside">
+                    {issues.slice(0, 3).map((issue, idx) => <li key={idx}>{issue}</li>)}
+                </ul>
+            )}
+            {(onRetry || (onFixKey && error.kind === 'INVALID_KEY')) && (
+                <div className="flex gap-2 mt-3">
+                    {onRetry && error.kind !== 'INVALID_KEY' && (
+                        <button
+                            onClick={onRetry}
+                            className="flex items-center gap-1 text-xs font-bold bg-red-600/20 hover:bg-red-600/40 border border-red-700 px-3 py-1.5 rounded transition-colors"
+                        >
+                            <RotateCcw size={12} /> Retry
+                        </button>
+                    )}
+                    {onFixKey && error.kind === 'INVALID_KEY' && (
+                        <button
+                            onClick={onFixKey}
+                            className="flex items-center gap-1 text-xs font-bold bg-red-600/20 hover:bg-red-600/40 border border-red-700 px-3 py-1.5 rounded transition-colors"
+                        >
+                            <KeyRound size={12} /> Select API Key
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -2,10 +2,15 @@
 import React, { useState, useEffect } from 'react';
 import { Monitor, Cpu, Clipboard, ScanLine, CheckCircle2, History, Trash2, Clock, Upload, Image as ImageIcon, AlertTriangle, TrendingUp, TrendingDown, Minus } from 'lucide-react';
 import { analyzeFinancialScreenshot } from '../services/geminiService';
+import { AIError, toAIError } from '../services/aiErrors';
+import { AIErrorNotice } from './AIErrorNotice';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
+import { PromptRef } from '../types';
 
 interface ScreenHistory {
     id: string;
     analysis: string; // JSON string
+    template?: PromptRef; // Prompt version that produced it
     timestamp: number;
 }
 
@@ -14,6 +19,8 @@ export const AdvanceScreen: React.FC = () => {
     const [preview, setPreview] = useState('');
     const [analysis, setAnalysis] = useState('');
     const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<AIError | null>(null);
+    const request = useAbortableRequest();
     const [history, setHistory] = useState<ScreenHistory[]>(() => {
         if (typeof window !== 'undefined') {
             const saved = localStorage.getItem('screen_analysis_history');
@@ -36,6 +43,7 @@ export const AdvanceScreen: React.FC = () => {
                     setPastedImage(file);
                     setPreview(URL.createObjectURL(file));
                     setAnalysis(''); 
+                    setError(null);
                 }
             }
         }
@@ -48,23 +56,35 @@ export const AdvanceScreen: React.FC = () => {
             setPastedImage(file);
             setPreview(URL.createObjectURL(file));
             setAnalysis('');
+            setError(null);
         }
     };
 
     const analyzeScreen = async () => {
         if (!pastedImage) return;
         setLoading(true);
-        const res = await analyzeFinancialScreenshot(pastedImage);
-        setAnalysis(res);
-        setLoading(false);
+        setError(null);
+        const signal = request.start();
+        try {
+            const { analysis: result, template } = await analyzeFinancialScreenshot(pastedImage, signal);
+            if (signal.aborted) return;
+            const res = JSON.stringify(result);
+            setAnalysis(res);
 
-        // Save History
-        const newEntry: ScreenHistory = {
-            id: Date.now().toString(),
-            analysis: res,
-            timestamp: Date.now()
-        };
-        setHistory(prev => [newEntry, ...prev].slice(0, 10));
+            // Save History
+            const newEntry: ScreenHistory = {
+                id: Date.now().toString(),
+                analysis: res,
+                template,
+                timestamp: Date.now()
+            };
+            setHistory(prev => [newEntry, ...prev].slice(0, 10));
+        } catch (e) {
+            if (signal.aborted) return;
+            setError(toAIError(e, 'screenshot'));
+        } finally {
+            if (!signal.aborted) setLoading(false);
+        }
     };
 
     const deleteHistory = (id: string) => {
@@ -237,6 +257,9 @@ export const AdvanceScreen: React.FC = () => {
                         )}
                     </div>
 
+                    {/* Validation / request errors */}
+                    {error && <AIErrorNotice error={error} onRetry={analyzeScreen} />}
+
                     {/* Output */}
                     {analysis && (
                         <div className="bg-gray-800 rounded-xl p-4 md:p-6 border border-gray-700 shadow-xl animate-fade-in">
@@ -278,6 +301,7 @@ export const AdvanceScreen: React.FC = () => {
                                     </button>
                                     <p className="text-[10px] text-gray-600 flex items-center gap-1">
                                         <Clock size={10} /> {new Date(item.timestamp).toLocaleDateString()}
+                                        {item.template && <span className="ml-auto font-mono" title="Prompt template version">{item.template.version}</span>}
                                     </p>
                                 </div>
                             );
@@ -0,0 +1,280 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { usePlotArea, useXAxisScale, useYAxisInverseScale, useYAxisScale } from 'recharts';
+import { AlignJustify, Minus, Slash, Square, Trash2, Type, X } from 'lucide-react';
+import { DRAWING_TOOLS, DRAWING_TYPES, Drawing, DrawingPoint, DrawingType, FIB_LEVELS, MAX_DRAWINGS, newDrawingId } from '../services/chartDrawings';
+
+interface DrawingLayerProps {
+    // Everything plotted (chartData); startIndex/endIndex are the Brush selection in it
+    data: any[];
+    startIndex: number;
+    endIndex: number;
+    drawings: Drawing[];
+    tool: DrawingType | null;
+    selectedId: string | null;
+    onSelect: (id: string) => void;
+    onAdd: (drawing: Drawing) => void;
+}
+
+interface DrawingToolbarProps {
+    tool: DrawingType | null;
+    onToolChange: (tool: DrawingType | null) => void;
+    count: number;
+    hasSelection: boolean;
+    onDeleteSelected: () => void;
+    onClear: () => void;
+    disabled?: boolean;
+}
+
+const TOOL_ICONS: Record<DrawingType, React.ElementType> = {
+    hline: Minus,
+    trendline: Slash,
+    rect: Square,
+    fib: AlignJustify,
+    text: Type,
+};
+
+const DRAWING_COLOR = '#FBBF24';
+const SELECTED_COLOR = '#FFFFFF';
+// A click this close to the bar's open/high/low/close takes that price
+const SNAP_PX = 10;
+const CLIP_ID = 'chart-drawings-clip';
+
+// Bars are evenly spaced on the x-axis, so a date maps to a (fractional) index: exact for
+// loaded bars, interpolated between them, and extrapolated at the average spacing outside
+const useDateIndex = (data: any[]) => {
+    const times = useMemo(() => data.map(point => Date.parse(point.date)), [data]);
+    return (date: string) => {
+        const t = Date.parse(date);
+        const n = times.length;
+        if (n === 0 || Number.isNaN(t)) return NaN;
+        if (n === 1) return 0;
+        const spacing = Math.max(1, (times[n - 1] - times[0]) / (n - 1));
+        if (t <= times[0]) return (t - times[0]) / spacing;
+        if (t >= times[n - 1]) return n - 1 + (t - times[n - 1]) / spacing;
+        let lo = 0;
+        let hi = n - 1;
+        while (hi - lo > 1) {
+            const mid = (lo + hi) >> 1;
+            if (times[mid] <= t) lo = mid;
+            else hi = mid;
+        }
+        return lo + (t - times[lo]) / Math.max(1, times[hi] - times[lo]);
+    };
+};
+
+// Draws saved drawings over the price chart and, with a tool picked, turns clicks into new
+// ones. Rendered inside the ComposedChart so it can use the chart's scales.
+export const DrawingLayer: React.FC<DrawingLayerProps> = ({ data, startIndex, endIndex, drawings, tool, selectedId, onSelect, onAdd }) => {
+    const plot = usePlotArea();
+    const xScale = useXAxisScale();
+    const yScale = useYAxisScale();
+    const yInverse = useYAxisInverseScale();
+    const indexOf = useDateIndex(data);
+    const [pending, setPending] = useState<DrawingPoint | null>(null);
+    const [hover, setHover] = useState<DrawingPoint | null>(null);
+
+    useEffect(() => {
+        setPending(null);
+        setHover(null);
+    }, [tool]);
+
+    const first = data[startIndex];
+    const last = data[endIndex];
+    if (!plot || !xScale || !yScale || !yInverse || !first || !last) return null;
+
+    const left = xScale(first.date, { position: 'middle' }) ?? plot.x;
+    const right = xScale(last.date, { position: 'middle' }) ?? plot.x + plot.width;
+    const step = endIndex > startIndex ? (right - left) / (endIndex - startIndex) : plot.width;
+    const plotRight = plot.x + plot.width;
+
+    const xOf = (point: DrawingPoint) => left + (indexOf(point.date) - startIndex) * step;
+    const yOf = (price: number) => yScale(price) ?? NaN;
+
+    // Nearest bar with prices (skipping calendar-gap placeholders), and its nearest price if close
+    const snap = (px: number, py: number): DrawingPoint | null => {
+        const target = Math.min(endIndex, Math.max(startIndex, startIndex + Math.round((px - left) / step)));
+        let index = -1;
+        for (let offset = 0; offset <= endIndex - startIndex && index < 0; offset++) {
+            if (data[target - offset]?.value != null && target - offset >= startIndex) index = target - offset;
+            else if (data[target + offset]?.value != null && target + offset <= endIndex) index = target + offset;
+        }
+        const bar = data[index];
+        const raw = Number(yInverse(py));
+        if (!bar || !Number.isFinite(raw)) return null;
+        const nearest = [bar.open, bar.high, bar.low, bar.value]
+            .filter(v => v != null)
+            .map(Number)
+            .reduce<number | null>((best, v) => best === null || Math.abs(yOf(v) - py) < Math.abs(yOf(best) - py) ? v : best, null);
+        const price = nearest !== null && Math.abs(yOf(nearest) - py) <= SNAP_PX ? nearest : raw;
+        return { date: bar.date, price: Number(price.toFixed(2)) };
+    };
+
+    const pointer = (e: React.MouseEvent) => {
+        const svg = (e.currentTarget as SVGElement).ownerSVGElement;
+        if (!svg) return null;
+        const box = svg.getBoundingClientRect();
+        return snap(e.clientX - box.left, e.clientY - box.top);
+    };
+
+    const handleClick = (e: React.MouseEvent) => {
+        if (!tool) return;
+        const point = pointer(e);
+        if (!point) return;
+        const twoPoints = DRAWING_TOOLS[tool].points === 2;
+        if (twoPoints && !pending) {
+            setPending(point);
+            return;
+        }
+        let text: string | undefined;
+        if (tool === 'text') {
+            text = window.prompt('Note')?.trim();
+            if (!text) return;
+        }
+        onAdd({ id: newDrawingId(), type: tool, points: twoPoints && pending ? [pending, point] : [point], ...(text ? { text } : {}) });
+        setPending(null);
+    };
+
+    const priceLabel = (price: number) => price.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+
+    const renderShape = (drawing: Pick<Drawing, 'type' | 'points' | 'text'>, color: string) => {
+        const [a, b] = drawing.points;
+        switch (drawing.type) {
+            case 'hline':
+                return (
+                    <>
+                        <line x1={plot.x} x2={plotRight} y1={yOf(a.price)} y2={yOf(a.price)} stroke={color} strokeWidth={1.5} />
+                        <text x={plotRight - 4} y={yOf(a.price) - 4} textAnchor="end" fill={color} fontSize={10} fontWeight={700}>{priceLabel(a.price)}</text>
+                    </>
+                );
+            case 'trendline':
+                return <line x1={xOf(a)} y1={yOf(a.price)} x2={xOf(b)} y2={yOf(b.price)} stroke={color} strokeWidth={1.5} />;
+            case 'rect':
+                return (
+                    <rect
+                        x={Math.min(xOf(a), xOf(b))}
+                        y={Math.min(yOf(a.price), yOf(b.price))}
+                        width={Math.abs(xOf(b) - xOf(a))}
+                        height={Math.abs(yOf(b.price) - yOf(a.price))}
+                        fill={color}
+                        fillOpacity={0.08}
+                        stroke={color}
+                        strokeWidth={1.5}
+                    />
+                );
+            case 'fib': {
+                const x = Math.min(xOf(a), xOf(b));
+                return (
+                    <>
+                        <line x1={xOf(a)} y1={yOf(a.price)} x2={xOf(b)} y2={yOf(b.price)} stroke={color} strokeWidth={1} strokeDasharray="4 3" />
+                        {FIB_LEVELS.map(level => {
+                            const price = b.price - (b.price - a.price) * level;
+                            return (
+                                <g key={level}>
+                                    <line x1={x} x2={plotRight} y1={yOf(price)} y2={yOf(price)} stroke={color} strokeWidth={1} strokeOpacity={level === 0 || level === 1 ? 0.9 : 0.6} />
+                                    <text x={x + 4} y={yOf(price) - 3} fill={color} fontSize={10}>{`${(level * 100).toFixed(1)}% · ${priceLabel(price)}`}</text>
+                                </g>
+                            );
+                        })}
+                    </>
+                );
+            }
+            case 'text':
+                return (
+                    <>
+                        <circle cx={xOf(a)} cy={yOf(a.price)} r={2.5} fill={color} />
+                        <text x={xOf(a) + 6} y={yOf(a.price) - 6} fill={color} fontSize={12} fontWeight={600}>{drawing.text}</text>
+                    </>
+                );
+        }
+    };
+
+    return (
+        <g className="chart-drawings">
+            <defs>
+                <clipPath id={CLIP_ID}>
+                    <rect x={plot.x} y={plot.y} width={plot.width} height={plot.height} />
+                </clipPath>
+            </defs>
+            <g clipPath={`url(#${CLIP_ID})`}>
+                {drawings.map(drawing => (
+                    <g
+                        key={drawing.id}
+                        onClick={(e: React.MouseEvent) => { e.stopPropagation(); onSelect(drawing.id); }}
+                        style={{ cursor: 'pointer' }}
+                    >
+                        {renderShape(drawing, drawing.id === selectedId ? SELECTED_COLOR : DRAWING_COLOR)}
+                    </g>
+                ))}
+                {tool && pending && hover && (
+                    <g opacity={0.6} pointerEvents="none">{renderShape({ type: tool, points: [pending, hover], text: undefined }, DRAWING_COLOR)}</g>
+                )}
+                {tool && hover && <circle cx={xOf(hover)} cy={yOf(hover.price)} r={3.5} fill="none" stroke={DRAWING_COLOR} pointerEvents="none" />}
+            </g>
+            {/* Catches clicks while a tool is picked; mouse moves still reach the tooltip */}
+            {tool && (
+                <rect
+                    x={plot.x}
+                    y={plot.y}
+                    width={plot.width}
+                    height={plot.height}
+                    fill="transparent"
+                    style={{ cursor: 'crosshair' }}
+                    onClick={handleClick}
+                    onMouseMove={(e: React.MouseEvent) => setHover(pointer(e))}
+                    onMouseLeave={() => setHover(null)}
+                />
+            )}
+        </g>
+    );
+};
+
+// Tool buttons for the Visual Analysis toolbar. Escape drops the tool; Delete removes the
+// selected drawing.
+export const DrawingToolbar: React.FC<DrawingToolbarProps> = ({ tool, onToolChange, count, hasSelection, onDeleteSelected, onClear, disabled }) => {
+    useEffect(() => {
+        const handleKey = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+            if (e.key === 'Escape') onToolChange(null);
+            if ((e.key === 'Delete' || e.key === 'Backspace') && hasSelection) onDeleteSelected();
+        };
+        window.addEventListener('keydown', handleKey);
+        return () => window.removeEventListener('keydown', handleKey);
+    }, [onToolChange, hasSelection, onDeleteSelected]);
+
+    const full = count >= MAX_DRAWINGS;
+
+    return (
+        <div className="flex bg-gray-900 rounded-lg p-1 border border-gray-700">
+            {DRAWING_TYPES.map(type => {
+                const Icon = TOOL_ICONS[type];
+                return (
+                    <button
+                        key={type}
+                        onClick={() => onToolChange(tool === type ? null : type)}
+                        disabled={disabled || full}
+                        className={`p-1.5 rounded-md transition-all disabled:opacity-30 ${tool === type ? 'bg-amber-500/20 text-amber-300' : 'text-gray-400 hover:text-white hover:bg-gray-700'}`}
+                        title={full ? `Up to ${MAX_DRAWINGS} drawings per symbol` : `${DRAWING_TOOLS[type].label}${DRAWING_TOOLS[type].points === 2 ? ' (click two points)' : ''}`}
+                    >
+                        <Icon size={16} />
+                    </button>
+                );
+            })}
+            {hasSelection && (
+                <button onClick={onDeleteSelected} className="p-1.5 rounded-md text-gray-400 hover:text-red-400 hover:bg-gray-700" title="Delete selected drawing">
+                    <X size={16} />
+                </button>
+            )}
+            {count > 0 && (
+                <button
+                    onClick={() => { if (confirm(`Remove all ${count} drawings for this symbol?`)) onClear(); }}
+                    disabled={disabled}
+                    className="p-1.5 rounded-md text-gray-400 hover:text-red-400 hover:bg-gray-700 disabled:opacity-30"
+                    title="Clear drawings"
+                >
+                    <Trash2 size={16} />
+                </button>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, GripHorizontal } from 'lucide-react';
+
+interface ChartPaneProps {
+    // Key for the saved height and collapsed state, e.g. 'volume', 'RSI_14'
+    id: string;
+    title: React.ReactNode;
+    // Latest values etc., shown next to the title
+    summary?: React.ReactNode;
+    children: React.ReactNode;
+}
+
+interface PaneLayout {
+    height: number;
+    collapsed: boolean;
+}
+
+const LAYOUT_KEY = 'chart_pane_layout';
+const DEFAULT_HEIGHT = 112;
+const MIN_HEIGHT = 60;
+const MAX_HEIGHT = 400;
+
+const loadLayouts = (): Record<string, PaneLayout> => {
+    try {
+        return JSON.parse(localStorage.getItem(LAYOUT_KEY) || '{}');
+    } catch (e) {
+        console.error(`Failed to read ${LAYOUT_KEY}`, e);
+        return {};
+    }
+};
+
+const saveLayout = (id: string, layout: PaneLayout) => {
+    localStorage.setItem(LAYOUT_KEY, JSON.stringify({ ...loadLayouts(), [id]: layout }));
+};
+
+// A sub-chart under the price chart: collapsible from its header and resizable by dragging its
+// bottom edge. Height and collapsed state are remembered per pane.
+export const ChartPane: React.FC<ChartPaneProps> = ({ id, title, summary, children }) => {
+    const [layout, setLayout] = useState<PaneLayout>(() => ({ height: DEFAULT_HEIGHT, collapsed: false, ...loadLayouts()[id] }));
+
+    const update = (next: PaneLayout) => {
+        setLayout(next);
+        saveLayout(id, next);
+    };
+
+    const startResize = (e: React.PointerEvent) => {
+        e.preventDefault();
+        const startY = e.clientY;
+        const startHeight = layout.height;
+        let height = startHeight;
+        const move = (event: PointerEvent) => {
+            height = Math.min(MAX_HEIGHT, Math.max(MIN_HEIGHT, startHeight + event.clientY - startY));
+            setLayout(prev => ({ ...prev, height }));
+        };
+        const stop = () => {
+            window.removeEventListener('pointermove', move);
+            window.removeEventListener('pointerup', stop);
+            saveLayout(id, { height, collapsed: false });
+        };
+        window.addEventListener('pointermove', move);
+        window.addEventListener('pointerup', stop);
+    };
+
+    return (
+        <div className="border-t border-gray-700/60">
+            <button
+                onClick={() => update({ ...layout, collapsed: !layout.collapsed })}
+                className="w-full flex items-center gap-3 pl-2 py-0.5 text-[10px] font-bold text-left hover:bg-gray-700/30"
+                title={layout.collapsed ? 'Expand' : 'Collapse'}
+            >
+                {layout.collapsed ? <ChevronRight size={12} className="text-gray-500" /> : <ChevronDown size={12} className="text-gray-500" />}
+                <span className="text-gray-400 uppercase tracking-wider">{title}</span>
+                {summary}
+            </button>
+            {!layout.collapsed && (
+                <>
+                    <div style={{ height: layout.height }}>{children}</div>
+                    <div
+                        onPointerDown={startResize}
+                        className="h-2 flex items-center justify-center cursor-row-resize text-gray-600 hover:text-gray-400 hover:bg-gray-700/30"
+                        title="Drag to resize"
+                    >
+                        <GripHorizontal size={12} />
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
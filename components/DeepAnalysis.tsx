@@ -1,12 +1,18 @@
 
 import React, { useState, useEffect } from 'react';
-import { BrainCircuit, Play, History, Trash2, Clock, ChevronRight } from 'lucide-react';
+import { BrainCircuit, Play, Square, History, Trash2, Clock, ChevronRight, Link as LinkIcon, ExternalLink } from 'lucide-react';
 import { getDeepAnalysis } from '../services/geminiService';
+import { AIError, toAIError } from '../services/aiErrors';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
+import { PromptRef } from '../types';
+import { AIErrorNotice } from './AIErrorNotice';
 
 interface AnalysisHistory {
     id: string;
     query: string;
     result: string;
+    sources?: { title: string; uri: string }[];
+    template?: PromptRef; // Prompt version that produced the report
     timestamp: number;
 }
 
@@ -18,7 +24,12 @@ interface DeepAnalysisProps {
 export const DeepAnalysis: React.FC<DeepAnalysisProps> = ({ initialQuery, initialResult }) => {
   const [query, setQuery] = useState('');
   const [result, setResult] = useState('');
+  const [sources, setSources] = useState<{ title: string; uri: string }[]>([]);
   const [thinking, setThinking] = useState(false);
+  const [error, setError] = useState<AIError | null>(null);
+  // True once the first token has arrived and the report is being written out
+  const [streaming, setStreaming] = useState(false);
+  const request = useAbortableRequest();
   const [history, setHistory] = useState<AnalysisHistory[]>(() => {
       if (typeof window !== 'undefined') {
           const saved = localStorage.getItem('deep_analysis_history');
@@ -31,6 +42,7 @@ export const DeepAnalysis: React.FC<DeepAnalysisProps> = ({ initialQuery, initia
   useEffect(() => {
       if (initialQuery) setQuery(initialQuery);
       if (initialResult) setResult(initialResult);
+      setSources([]);
   }, [initialQuery, initialResult]);
 
   useEffect(() => {
@@ -41,29 +53,56 @@ export const DeepAnalysis: React.FC<DeepAnalysisProps> = ({ initialQuery, initia
     if (!query) return;
     setThinking(true);
     setResult('');
+    setSources([]);
+    setError(null);
+    const signal = request.start();
     try {
-      const response = await getDeepAnalysis(query);
-      const text = response || "Analysis failed.";
+      const response = await getDeepAnalysis(query, (delta) => {
+          if (signal.aborted) return;
+          setStreaming(true);
+          setResult(prev => prev + delta);
+      }, signal);
+      if (signal.aborted) return;
+      const text = response.text || "Analysis failed.";
       setResult(text);
+      setSources(response.sources);
       
       // Save to history
       const newEntry: AnalysisHistory = {
           id: Date.now().toString(),
           query: query,
           result: text,
+          sources: response.sources,
+          template: response.template,
           timestamp: Date.now()
       };
       setHistory(prev => [newEntry, ...prev].slice(0, 10)); // Keep last 10
     } catch (e) {
-        setResult("Error performing deep analysis.");
+        // Stopped by the user or superseded by another run; leave the view as it is now
+        if (signal.aborted) return;
+        // Drop any partial report so the error isn't mistaken for analysis
+        setResult('');
+        setError(toAIError(e, 'deep-analysis'));
     } finally {
-      setThinking(false);
+      if (!signal.aborted) {
+        setThinking(false);
+        setStreaming(false);
+      }
     }
   };
 
+  const handleStop = () => {
+      request.cancel();
+      setThinking(false);
+      setStreaming(false);
+  };
+
   const loadHistory = (item: AnalysisHistory) => {
+      handleStop();
       setQuery(item.query);
       setResult(item.result);
+      setSources(item.sources || []);
+      setError(null);
   };
 
   const deleteHistory = (e: React.MouseEvent, id: string) => {
@@ -96,16 +135,26 @@ export const DeepAnalysis: React.FC<DeepAnalysisProps> = ({ initialQuery, initia
                 onChange={(e) => setQuery(e.target.value)}
                 />
                 <div className="flex justify-end mt-2">
-                    <button 
-                        onClick={handleAnalyze}
-                        disabled={thinking}
-                        className="bg-indigo-600 hover:bg-indigo-700 px-6 py-2 rounded-lg flex items-center gap-2 transition-all disabled:opacity-50"
-                    >
-                        {thinking ? "Thinking..." : <><Play size={16} /> Run Analysis</>}
-                    </button>
+                    {thinking ? (
+                        <button 
+                            onClick={handleStop}
+                            className="bg-red-600 hover:bg-red-700 px-6 py-2 rounded-lg flex items-center gap-2 transition-all"
+                        >
+                            <Square size={16} /> {streaming ? "Writing report... Stop" : "Thinking... Stop"}
+                        </button>
+                    ) : (
+                        <button 
+                            onClick={handleAnalyze}
+                            className="bg-indigo-600 hover:bg-indigo-700 px-6 py-2 rounded-lg flex items-center gap-2 transition-all disabled:opacity-50"
+                        >
+                            <Play size={16} /> Run Analysis
+                        </button>
+                    )}
                 </div>
             </div>
 
+            {error && <AIErrorNotice error={error} onRetry={handleAnalyze} />}
+
             {result && (
                 <div className="bg-gray-800 rounded-xl p-6 border border-gray-700 animate-fade-in shadow-lg">
                     <h3 className="text-lg font-semibold text-indigo-300 mb-4 flex items-center gap-2">
@@ -113,7 +162,31 @@ export const DeepAnalysis: React.FC<DeepAnalysisProps> = ({ initialQuery, initia
                     </h3>
                     <div className="prose prose-invert max-w-none whitespace-pre-wrap leading-relaxed">
                         {result}
+                        {streaming && <span className="inline-block w-2 h-4 ml-1 bg-indigo-400 animate-pulse align-middle" />}
                     </div>
+
+                    {/* Grounding sources, attached once the stream completes */}
+                    {sources.length > 0 && (
+                        <div className="mt-6 pt-4 border-t border-gray-700">
+                            <p className="text-xs text-gray-500 font-bold uppercase mb-2 flex items-center gap-1">
+                                <LinkIcon size={12} /> Data Sources
+                            </p>
+                            <div className="flex flex-wrap gap-2">
+                                {sources.map((source, idx) => (
+                                    <a
+                                        key={idx}
+                                        href={source.uri}
+                                        target="_blank"
+                                        rel="noreferrer"
+                                        className="flex items-center gap-1.5 bg-gray-900 hover:bg-gray-700 text-indigo-300 text-xs px-3 py-1.5 rounded-full border border-gray-700 transition-colors"
+                                    >
+                                        <ExternalLink size={10} />
+                                        <span className="truncate max-w-[150px]">{source.title}</span>
+                                    </a>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                 </div>
             )}
         </div>
@@ -144,6 +217,7 @@ export const DeepAnalysis: React.FC<DeepAnalysisProps> = ({ initialQuery, initia
                         </p>
                         <div className="flex justify-between items-center text-xs text-gray-500">
                             <span className="flex items-center gap-1"><Clock size={10} /> {new Date(item.timestamp).toLocaleDateString()}</span>
+                            {item.template && <span className="font-mono text-[10px]" title="Prompt template version">{item.template.version}</span>}
                             <ChevronRight size={14} className="text-gray-600 group-hover:text-indigo-400" />
                         </div>
                         <button 
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Bar, CartesianGrid, Cell, ComposedChart, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { INDICATORS, IndicatorConfig, indicatorId, indicatorLabel, outputKey } from '../services/indicators';
+import { ChartPane } from './ChartPane';
+
+interface IndicatorPaneProps {
+    // The bars in view, with the indicator's outputs (applyIndicators)
+    data: any[];
+    config: IndicatorConfig;
+    // Shared with the price chart so the crosshair moves together
+    syncId: string;
+}
+
+interface VolumePaneProps {
+    data: any[];
+    syncId: string;
+}
+
+export const formatIndicatorValue = (value: number) =>
+    Math.abs(value) >= 100000
+        ? value.toLocaleString('en-IN', { notation: 'compact', maximumFractionDigits: 2 })
+        : value.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+
+const UP_COLOR = '#10B981';
+const DOWN_COLOR = '#F43F5E';
+
+// Same left/right edges as the price chart (its YAxis is 60 wide), so bars line up
+const PANE_MARGIN = { top: 4, right: 30, left: 0, bottom: 4 };
+
+const latest = (data: any[], key: string): number | null => {
+    for (let i = data.length - 1; i >= 0; i--) {
+        if (data[i][key] != null) return data[i][key];
+    }
+    return null;
+};
+
+// Values are read off the price chart's tooltip; panes only draw the crosshair
+const crosshair = <Tooltip content={() => null} cursor={{ stroke: '#6B7280', strokeWidth: 1, strokeDasharray: '4 4' }} />;
+
+// An oscillator (RSI, MACD, ...) under the price chart, on its own scale
+export const IndicatorPane: React.FC<IndicatorPaneProps> = ({ data, config, syncId }) => {
+    const definition = INDICATORS[config.type];
+    const summary = definition.outputs.map(output => {
+        const value = latest(data, outputKey(config, output.key));
+        return value === null ? null : (
+            <span key={output.key} style={{ color: output.color }}>{output.label} {formatIndicatorValue(value)}</span>
+        );
+    });
+
+    return (
+        <ChartPane id={indicatorId(config)} title={indicatorLabel(config)} summary={summary}>
+            <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={data} syncId={syncId} margin={PANE_MARGIN}>
+                    <XAxis dataKey="date" hide />
+                    <YAxis
+                        stroke="#9CA3AF"
+                        width={60}
+                        fontSize={10}
+                        domain={definition.domain ?? ['auto', 'auto']}
+                        ticks={definition.levels && definition.domain ? definition.levels : undefined}
+                        tickFormatter={(val) => formatIndicatorValue(Number(val))}
+                    />
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+                    {definition.levels?.map(level => (
+                        <ReferenceLine key={level} y={level} stroke="#6B7280" strokeDasharray="3 3" />
+                    ))}
+                    {crosshair}
+                    {definition.outputs.map(output => {
+                        const key = outputKey(config, output.key);
+                        return output.bars ? (
+                            <Bar key={key} dataKey={key} isAnimationActive={false}>
+                                {data.map((point, idx) => (
+                                    <Cell key={idx} fill={(point[key] ?? 0) >= 0 ? UP_COLOR : DOWN_COLOR} fillOpacity={0.5} />
+                                ))}
+                            </Bar>
+                        ) : (
+                            <Line key={key} type="monotone" dataKey={key} stroke={output.color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                        );
+                    })}
+                </ComposedChart>
+            </ResponsiveContainer>
+        </ChartPane>
+    );
+};
+
+// Volume histogram, coloured by the bar's direction
+export const VolumePane: React.FC<VolumePaneProps> = ({ data, syncId }) => {
+    const last = latest(data, 'volume');
+    return (
+        <ChartPane id="volume" title="Volume" summary={last !== null && <span className="text-gray-300">{formatIndicatorValue(last)}</span>}>
+            <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={data} syncId={syncId} margin={PANE_MARGIN}>
+                    <XAxis dataKey="date" hide />
+                    <YAxis stroke="#9CA3AF" width={60} fontSize={10} tickFormatter={(val) => formatIndicatorValue(Number(val))} />
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+                    {crosshair}
+                    <Bar dataKey="volume" isAnimationActive={false}>
+                        {data.map((point, idx) => (
+                            <Cell
+                                key={idx}
+                                fill={point.value >= (point.open ?? data[idx - 1]?.value ?? point.value) ? UP_COLOR : DOWN_COLOR}
+                                fillOpacity={0.5}
+                            />
+                        ))}
+                    </Bar>
+                </ComposedChart>
+            </ResponsiveContainer>
+        </ChartPane>
+    );
+};
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { ChartSpline, Plus, X } from 'lucide-react';
+import { INDICATORS, INDICATOR_TYPES, IndicatorConfig, IndicatorType, MAX_INDICATORS, defaultConfig, indicatorId, normalizeConfig } from '../services/indicators';
+
+interface IndicatorPickerProps {
+    indicators: IndicatorConfig[];
+    onChange: (indicators: IndicatorConfig[]) => void;
+    disabled?: boolean;
+}
+
+// Edits a draft and applies it on blur/Enter, so typing "14" doesn't pass through a clamped "1"
+const ParamInput: React.FC<{ value: number; label: string; onCommit: (value: number) => void }> = ({ value, label, onCommit }) => {
+    const [draft, setDraft] = useState(String(value));
+    useEffect(() => setDraft(String(value)), [value]);
+    const commit = () => {
+        const next = Number(draft);
+        if (draft.trim() !== '' && next !== value) onCommit(next);
+        // Shows the clamped value, or the old one if the edit was rejected
+        setDraft(String(value));
+    };
+    return (
+        <input
+            type="number"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+            title={label}
+            aria-label={label}
+            className="w-14 bg-gray-800 border border-gray-700 rounded px-1.5 py-0.5 text-xs text-white focus:outline-none focus:border-gray-500"
+        />
+    );
+};
+
+// Toolbar button with a popover to add, tune and remove chart indicators
+export const IndicatorPicker: React.FC<IndicatorPickerProps> = ({ indicators, onChange, disabled }) => {
+    const [open, setOpen] = useState(false);
+
+    const taken = (config: IndicatorConfig) => indicators.some(c => indicatorId(c) === indicatorId(config));
+
+    const add = (type: IndicatorType) => {
+        if (indicators.length >= MAX_INDICATORS) return;
+        // Another of a type already on the chart gets the next free first parameter (EMA 21, EMA 22...)
+        let config = defaultConfig(type);
+        while (taken(config) && config.params.length > 0 && config.params[0] < INDICATORS[type].params[0].max) {
+            config = normalizeConfig(type, [config.params[0] + 1, ...config.params.slice(1)]);
+        }
+        if (!taken(config)) onChange([...indicators, config]);
+    };
+
+    const update = (index: number, paramIndex: number, value: number) => {
+        const current = indicators[index];
+        const params = [...current.params];
+        params[paramIndex] = value;
+        const next = normalizeConfig(current.type, params);
+        if (indicators.some((c, i) => i !== index && indicatorId(c) === indicatorId(next))) return;
+        onChange(indicators.map((c, i) => i === index ? next : c));
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setOpen(!open)}
+                disabled={disabled}
+                className={`flex items-center gap-1.5 px-2.5 py-2 rounded-lg border transition-all disabled:opacity-30 ${open ? 'bg-gray-600 border-gray-500 text-white' : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'}`}
+                title="Indicators"
+            >
+                <ChartSpline size={16} />
+                {indicators.length > 0 && <span className="text-xs font-bold">{indicators.length}</span>}
+            </button>
+
+            {open && (
+                <div className="absolute top-full right-0 mt-2 bg-gray-900 border border-gray-600 rounded-lg p-3 shadow-xl z-40 w-80 animate-fade-in">
+                    <div className="flex items-center justify-between mb-2">
+                        <p className="text-xs font-bold text-gray-300 uppercase tracking-wider">Indicators</p>
+                        <button onClick={() => setOpen(false)} className="text-gray-500 hover:text-white"><X size={14} /></button>
+                    </div>
+
+                    {indicators.length === 0 && <p className="text-xs text-gray-500 mb-2">None selected</p>}
+                    <ul className="space-y-1.5 mb-3">
+                        {indicators.map((config, index) => {
+                            const definition = INDICATORS[config.type];
+                            return (
+                                <li key={indicatorId(config)} className="flex items-center gap-2 bg-gray-800/60 rounded px-2 py-1.5">
+                                    <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: definition.outputs[0].color }} />
+                                    <span className="text-xs font-bold text-gray-200 flex-1 truncate" title={definition.description}>{definition.label}</span>
+                                    {definition.params.map((param, paramIndex) => (
+                                        <ParamInput key={param.name} value={config.params[paramIndex]} label={param.name} onCommit={(value) => update(index, paramIndex, value)} />
+                                    ))}
+                                    <button onClick={() => onChange(indicators.filter((_, i) => i !== index))} className="text-gray-500 hover:text-red-400" title="Remove">
+                                        <X size={14} />
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+
+                    <p className="text-[10px] text-gray-500 uppercase tracking-wider font-bold mb-1.5">Add {indicators.length >= MAX_INDICATORS && `(max ${MAX_INDICATORS})`}</p>
+                    <div className="grid grid-cols-3 gap-1.5">
+                        {INDICATOR_TYPES.map(type => (
+                            <button
+                                key={type}
+                                onClick={() => add(type)}
+                                disabled={indicators.length >= MAX_INDICATORS}
+                                className="flex items-center gap-1 text-xs text-gray-300 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded px-2 py-1 disabled:opacity-40"
+                                title={INDICATORS[type].needsVolume ? `${INDICATORS[type].description}; needs volume data` : INDICATORS[type].description}
+                            >
+                                <Plus size={10} /> {INDICATORS[type].label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
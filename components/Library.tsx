@@ -145,6 +145,7 @@ export const Library: React.FC<LibraryProps> = ({ onOpenItem }) => {
                                         <div>
                                             <h3 className="font-bold text-gray-200 line-clamp-1 text-lg">{title}</h3>
                                             {subtitle && <span className="text-xs bg-gray-700 text-blue-300 px-2 py-0.5 rounded">{subtitle}</span>}
+                                            {item.template && <span className="text-[10px] font-mono text-gray-500 ml-2" title="Prompt template version">{item.template.version}</span>}
                                         </div>
                                         <button 
                                             onClick={() => deleteItem(id)}
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { Gauge, Loader2 } from 'lucide-react';
+import { AreaChart, Area, ReferenceLine, ResponsiveContainer, Tooltip, YAxis } from 'recharts';
+import { AVERAGE_PERIODS, MarketBreadth, getMarketBreadth } from '../services/marketBreadth';
+import { getMarketStatus } from '../services/tradingCalendar';
+
+// Breadth reads a year of bars for every stock in the universe, so it refreshes less often
+// than the index cards
+const BREADTH_REFRESH_MS = 5 * 60 * 1000;
+
+const formatIstTime = (time: string) => {
+    const d = new Date(time);
+    return isNaN(d.getTime()) ? time : d.toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata', hour: '2-digit', minute: '2-digit', hour12: false });
+};
+
+const Stat = ({ label, value, className }: { label: string; value: React.ReactNode; className?: string }) => (
+    <div className="bg-gray-900/60 rounded-lg p-3 border border-gray-700/60">
+        <p className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">{label}</p>
+        <p className={`text-xl font-bold mt-1 ${className || 'text-white'}`}>{value}</p>
+    </div>
+);
+
+// Advances/declines, A/D ratio, 52-week highs vs lows and % above the 20/50/200-day averages
+export const MarketBreadthPanel: React.FC = () => {
+    // Last computed breadth, persisted so the panel isn't empty while recomputing
+    const [breadth, setBreadth] = useState<MarketBreadth | null>(() => {
+        const saved = localStorage.getItem('dashboard_breadth');
+        if (saved) {
+            try { return JSON.parse(saved); } catch (e) { console.error("Failed to parse dashboard breadth", e); }
+        }
+        return null;
+    });
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        const refresh = async () => {
+            setLoading(true);
+            try {
+                const result = await getMarketBreadth(controller.signal);
+                if (controller.signal.aborted) return;
+                if (result.covered > 0) {
+                    setBreadth(result);
+                    localStorage.setItem('dashboard_breadth', JSON.stringify(result));
+                }
+            } catch (e) {
+                if (!controller.signal.aborted) console.warn("Market breadth failed", e);
+            } finally {
+                if (!controller.signal.aborted) setLoading(false);
+            }
+        };
+
+        refresh();
+        const interval = setInterval(() => {
+            if (getMarketStatus().phase !== 'CLOSED') refresh();
+        }, BREADTH_REFRESH_MS);
+        return () => {
+            controller.abort();
+            clearInterval(interval);
+        };
+    }, []);
+
+    const adRatio = breadth && breadth.declines > 0 ? (breadth.advances / breadth.declines).toFixed(2) : breadth?.advances ? '∞' : '—';
+    const sparkline = breadth?.intraday.map(p => ({ time: p.time, net: p.advances - p.declines })) ?? [];
+    const lastNet = sparkline[sparkline.length - 1]?.net ?? 0;
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg mb-6">
+            <h3 className="text-lg font-bold mb-5 flex items-center gap-2 border-b border-gray-700 pb-3">
+                <Gauge className="text-teal-400" size={20} /> Market Breadth
+                {loading && <Loader2 className="animate-spin text-gray-500 ml-auto" size={16} />}
+            </h3>
+
+            {!breadth ? (
+                <p className="text-sm text-gray-500 py-6 text-center">
+                    {loading ? 'Reading market data...' : 'No market data for the breadth universe yet.'}
+                </p>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    <div className="lg:col-span-2 space-y-4">
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                            <Stat label="Advances" value={breadth.advances} className="text-green-400" />
+                            <Stat label="Declines" value={breadth.declines} className="text-red-400" />
+                            <Stat label="Unchanged" value={breadth.unchanged} className="text-gray-300" />
+                            <Stat label="A/D Ratio" value={adRatio} className={breadth.advances >= breadth.declines ? 'text-green-400' : 'text-red-400'} />
+                        </div>
+
+                        {/* Advance/decline bar */}
+                        <div className="flex h-2 rounded-full overflow-hidden bg-gray-700">
+                            <div className="bg-green-500" style={{ width: `${(breadth.advances / Math.max(1, breadth.covered)) * 100}%` }} />
+                            <div className="bg-gray-500" style={{ width: `${(breadth.unchanged / Math.max(1, breadth.covered)) * 100}%` }} />
+                            <div className="bg-red-500" style={{ width: `${(breadth.declines / Math.max(1, breadth.covered)) * 100}%` }} />
+                        </div>
+
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                            <Stat label="52W Highs / Lows" value={<><span className="text-green-400">{breadth.newHighs}</span><span className="text-gray-500"> / </span><span className="text-red-400">{breadth.newLows}</span></>} />
+                            {AVERAGE_PERIODS.map(period => {
+                                const { above, total } = breadth.aboveAverage[period];
+                                const percent = total > 0 ? (above / total) * 100 : null;
+                                return (
+                                    <div key={period} className="bg-gray-900/60 rounded-lg p-3 border border-gray-700/60" title={`${above} of ${total} stocks with ${period} days of history`}>
+                                        <p className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">Above {period} DMA</p>
+                                        <p className="text-xl font-bold mt-1 text-white">{percent === null ? '—' : `${percent.toFixed(0)}%`}</p>
+                                        <div className="h-1 rounded-full bg-gray-700 mt-2 overflow-hidden">
+                                            <div className={percent !== null && percent >= 50 ? 'h-full bg-green-500' : 'h-full bg-red-500'} style={{ width: `${percent ?? 0}%` }} />
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    {/* Intraday advances minus declines */}
+                    <div className="flex flex-col">
+                        <div className="flex items-baseline justify-between mb-2">
+                            <p className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">Intraday A − D</p>
+                            {sparkline.length > 0 && (
+                                <span className={`text-sm font-bold ${lastNet >= 0 ? 'text-green-400' : 'text-red-400'}`}>{lastNet > 0 ? '+' : ''}{lastNet}</span>
+                            )}
+                        </div>
+                        {sparkline.length > 1 ? (
+                            <div className="flex-1 min-h-[100px]">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <AreaChart data={sparkline} margin={{ top: 4, right: 0, bottom: 0, left: 0 }}>
+                                        <YAxis hide domain={['auto', 'auto']} />
+                                        <ReferenceLine y={0} stroke="#4B5563" strokeDasharray="3 3" />
+                                        <Tooltip
+                                            contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', borderRadius: '8px', fontSize: 12 }}
+                                            labelFormatter={(_, payload: any) => payload?.[0] ? `${formatIstTime(payload[0].payload.time)} IST` : ''}
+                                            formatter={(value: any) => [value, 'Advances − declines']}
+                                        />
+                                        <Area type="monotone" dataKey="net" stroke={lastNet >= 0 ? '#10B981' : '#EF4444'} fill={lastNet >= 0 ? '#10B981' : '#EF4444'} fillOpacity={0.15} strokeWidth={2} dot={false} isAnimationActive={false} />
+                                    </AreaChart>
+                                </ResponsiveContainer>
+                            </div>
+                        ) : (
+                            <p className="flex-1 text-xs text-gray-500 flex items-center justify-center text-center min-h-[100px] border border-dashed border-gray-700 rounded-lg p-3">
+                                Needs intraday (5 min) bars for the latest session
+                            </p>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {breadth && (
+                <p className="text-[11px] text-gray-500 mt-4">
+                    {breadth.universe}: {breadth.covered} of {breadth.total} stocks with market data • as of {new Date(breadth.asOf).toLocaleTimeString()}
+                </p>
+            )}
+        </div>
+    );
+};
@@ -1,14 +1,20 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, TrendingUp, Loader2, LineChart as ChartIcon, AlertTriangle, Mic, MicOff, Link as LinkIcon, ExternalLink, Trash2, History } from 'lucide-react';
+import { Send, Square, TrendingUp, CheckCircle2, Loader2, LineChart as ChartIcon, AlertTriangle, Mic, MicOff, Link as LinkIcon, ExternalLink, Trash2, History } from 'lucide-react';
 import { sendMarketChatMessage } from '../services/geminiService';
 import { ChatMessage } from '../types';
+import { AIError, isCancelled, toAIError } from '../services/aiErrors';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
+import { AIErrorNotice } from './AIErrorNotice';
 import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area } from 'recharts';
 
 interface MarketChatProps {
     initialMessage?: string;
 }
 
+// While a reply streams in, hide the chart JSON block; it becomes a chart when the stream ends
+const hidePendingChartJson = (text: string) => text.split('```')[0].trimEnd();
+
 export const MarketChat: React.FC<MarketChatProps> = ({ initialMessage }) => {
   // Initialize from LocalStorage
   const [messages, setMessages] = useState<ChatMessage[]>(() => {
@@ -29,9 +35,12 @@ export const MarketChat: React.FC<MarketChatProps> = ({ initialMessage }) => {
 
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
+  // Id of the model reply currently being streamed in, if any
+  const [streamingId, setStreamingId] = useState<string | null>(null);
   const [isListening, setIsListening] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
   const recognitionRef = useRef<any>(null);
+  const request = useAbortableRequest();
 
   // Set initial message if provided (e.g. from Buy/Sell buttons)
   useEffect(() => {
@@ -40,10 +49,11 @@ export const MarketChat: React.FC<MarketChatProps> = ({ initialMessage }) => {
     }
   }, [initialMessage]);
 
-  // Auto-Save to LocalStorage
+  // Auto-Save to LocalStorage (once a streamed reply has finished)
   useEffect(() => {
+      if (streamingId) return;
       localStorage.setItem('market_chat_history', JSON.stringify(messages));
-  }, [messages]);
+  }, [messages, streamingId]);
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -92,7 +102,7 @@ export const MarketChat: React.FC<MarketChatProps> = ({ initialMessage }) => {
   };
 
   const handleSend = async () => {
-    if (!input.trim()) return;
+    if (!input.trim() || loading || streamingId) return;
 
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
@@ -104,17 +114,35 @@ export const MarketChat: React.FC<MarketChatProps> = ({ initialMessage }) => {
     setMessages(prev => [...prev, userMsg]);
     setInput('');
     setLoading(true);
+    const signal = request.start();
+
+    // The reply bubble appears with the first streamed chunk and grows from there
+    const modelId = (Date.now() + 1).toString();
+    let started = false;
+    const handleDelta = (delta: string) => {
+      if (!started) {
+        started = true;
+        setLoading(false);
+        setStreamingId(modelId);
+        setMessages(prev => [...prev, { id: modelId, role: 'model', text: delta, timestamp: new Date() }]);
+      } else {
+        setMessages(prev => prev.map(m => m.id === modelId ? { ...m, text: m.text + delta } : m));
+      }
+    };
 
     try {
       // Limit history context to last 20 messages to prevent token overflow
-      const historyContext = messages.slice(-20).map(m => ({
+      // Failed replies are UI-only and never sent back to the model, nor are replies stopped
+      // before any text arrived
+      const historyContext = messages.filter(m => !m.error && m.text.trim()).slice(-20).map(m => ({
         role: m.role,
         parts: [{ text: m.text }]
       }));
 
-      const { text, sources } = await sendMarketChatMessage(historyContext, userMsg.text);
+      const { text, sources, actions, chartData: toolChartData, template } = await sendMarketChatMessage(historyContext, userMsg.text, handleDelta, signal);
 
-      let chartData = undefined;
+      // A get_price_series tool call attaches its chart directly; otherwise look for JSON in the text
+      let chartData: any[] | undefined = toolChartData;
       let displayText = text;
 
       // --- Robust JSON Extraction Strategy ---
@@ -136,7 +164,7 @@ export const MarketChat: React.FC<MarketChatProps> = ({ initialMessage }) => {
           }
       }
 
-      if (jsonString) {
+      if (jsonString && !chartData) {
         try {
             // Attempt to parse
             const parsed = JSON.parse(jsonString);
@@ -159,30 +187,46 @@ export const MarketChat: React.FC<MarketChatProps> = ({ initialMessage }) => {
         }
       }
 
+      // Chart and sources are attached only once the stream is complete
       const modelMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
+        id: modelId,
         role: 'model',
         text: displayText,
         chartData,
         sources, // Store sources separately
+        actions: actions.length > 0 ? actions : undefined,
+        template,
         timestamp: new Date(),
       };
 
-      setMessages(prev => [...prev, modelMsg]);
+      setMessages(prev => [...prev.filter(m => m.id !== modelId), modelMsg]);
     } catch (error) {
+      if (isCancelled(error)) {
+        // Keep whatever had streamed in so far, minus any half-written chart JSON
+        setMessages(prev => prev.map(m => m.id === modelId ? { ...m, text: hidePendingChartJson(m.text), stopped: true } : m));
+        return;
+      }
       console.error(error);
+      const aiError = toAIError(error, 'chat');
       const errorMsg: ChatMessage = {
-          id: Date.now().toString(),
+          id: modelId,
           role: 'model',
-          text: "Sorry, I encountered an error connecting to the market service.",
+          text: aiError.message,
+          error: { kind: aiError.kind, message: aiError.message },
           timestamp: new Date()
       };
-      setMessages(prev => [...prev, errorMsg]);
+      setMessages(prev => [...prev.filter(m => m.id !== modelId), errorMsg]);
     } finally {
       setLoading(false);
+      setStreamingId(null);
     }
   };
 
+  const handleStop = () => {
+    request.cancel();
+    setLoading(false);
+  };
+
   return (
     <div className="flex flex-col h-full bg-gray-900 text-white">
       <div className="p-4 border-b border-gray-700 bg-gray-800 shadow-md flex justify-between items-center">
@@ -217,8 +261,27 @@ export const MarketChat: React.FC<MarketChatProps> = ({ initialMessage }) => {
         {messages.map((msg) => (
           <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
             <div className={`max-w-[95%] md:max-w-[85%] rounded-2xl p-5 shadow-lg ${msg.role === 'user' ? 'bg-blue-600 text-white rounded-br-none' : 'bg-gray-800 border border-gray-700 text-gray-100 rounded-bl-none'}`}>
-              <div className="whitespace-pre-wrap leading-relaxed">{msg.text}</div>
+              {msg.error ? (
+                  <AIErrorNotice error={new AIError(msg.error.kind, msg.error.message)} />
+              ) : (
+                  <div className="whitespace-pre-wrap leading-relaxed">
+                      {msg.id === streamingId ? hidePendingChartJson(msg.text) : msg.text}
+                      {msg.id === streamingId && <span className="inline-block w-2 h-4 ml-1 bg-green-400 animate-pulse align-middle" />}
+                      {msg.stopped && <span className="block mt-2 text-xs text-gray-500">[Stopped]</span>}
+                  </div>
+              )}
               
+              {/* Tool actions (alerts created, watchlist changes) */}
+              {msg.actions && msg.actions.length > 0 && (
+                  <div className="mt-3 flex flex-wrap gap-2">
+                      {msg.actions.map((action, idx) => (
+                          <span key={idx} className="flex items-center gap-1.5 bg-green-900/30 text-green-400 text-xs px-3 py-1.5 rounded-full border border-green-800">
+                              <CheckCircle2 size={12} /> {action}
+                          </span>
+                      ))}
+                  </div>
+              )}
+
               {/* Sources Display */}
               {msg.sources && msg.sources.length > 0 && (
                   <div className="mt-4 pt-3 border-t border-gray-700">
@@ -289,6 +352,12 @@ export const MarketChat: React.FC<MarketChatProps> = ({ initialMessage }) => {
                   </div>
                 </div>
               )}
+
+              {msg.template && (
+                  <p className="mt-3 text-[10px] text-gray-600 font-mono text-right" title="Prompt template version">
+                      {msg.template.id} {msg.template.version}
+                  </p>
+              )}
             </div>
             {msg.role === 'user' && (
                 <div className="text-[10px] text-gray-500 mt-2 ml-2 self-end mb-4">
@@ -324,13 +393,22 @@ export const MarketChat: React.FC<MarketChatProps> = ({ initialMessage }) => {
             >
                 {isListening ? <MicOff size={18} /> : <Mic size={18} />}
             </button>
-            <button 
-                onClick={handleSend}
-                disabled={loading}
-                className="bg-green-600 hover:bg-green-700 px-4 rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center text-white"
-            >
-                <Send size={18} />
-            </button>
+            {loading || streamingId ? (
+                <button 
+                    onClick={handleStop}
+                    className="bg-red-600 hover:bg-red-700 px-4 rounded-lg transition-colors flex items-center justify-center text-white"
+                    title="Stop"
+                >
+                    <Square size={18} />
+                </button>
+            ) : (
+                <button 
+                    onClick={handleSend}
+                    className="bg-green-600 hover:bg-green-700 px-4 rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center text-white"
+                >
+                    <Send size={18} />
+                </button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,42 @@
+import React from 'react';
+import { MarketStatus } from '../services/tradingCalendar';
+
+interface MarketStatusBadgeProps {
+    status: MarketStatus;
+}
+
+// "14:05" today, "Mon 09:15" on another day; always exchange (IST) time
+const formatIst = (time: Date) => {
+    const options: Intl.DateTimeFormatOptions = { timeZone: 'Asia/Kolkata', hour: '2-digit', minute: '2-digit', hour12: false };
+    const sameDay = time.toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata' }) === new Date().toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata' });
+    return time.toLocaleString('en-IN', sameDay ? options : { ...options, weekday: 'short' });
+};
+
+const PHASE_STYLE = {
+    OPEN: { label: 'MARKET OPEN', dot: 'bg-green-500 animate-pulse', text: 'text-green-400' },
+    PRE_OPEN: { label: 'PRE-OPEN', dot: 'bg-amber-400 animate-pulse', text: 'text-amber-300' },
+    CLOSED: { label: 'MARKET CLOSED', dot: 'bg-gray-500', text: 'text-gray-400' },
+};
+
+// NSE/BSE session status: open / pre-open / closed, with the next open or close time
+export const MarketStatusBadge: React.FC<MarketStatusBadgeProps> = ({ status }) => {
+    const style = PHASE_STYLE[status.phase];
+    const special = status.session && status.session !== 'Regular' ? status.session : null;
+    let detail = '';
+    if (status.phase === 'OPEN' && status.closesAt) detail = `closes ${formatIst(status.closesAt)}`;
+    else if (status.opensAt) detail = `opens ${formatIst(status.opensAt)}`;
+
+    return (
+        <div
+            className="flex items-center gap-2 px-3 py-1 bg-gray-800 rounded-full border border-gray-700"
+            title={[special, status.reason, detail && `${detail} IST`].filter(Boolean).join(' · ')}
+        >
+            <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+            <span className={`text-xs font-mono ${style.text}`}>
+                {special ? special.toUpperCase() : style.label}
+                {status.phase === 'CLOSED' && status.reason && ` · ${status.reason}`}
+                {detail && <span className="text-gray-500"> • {detail}</span>}
+            </span>
+        </div>
+    );
+};
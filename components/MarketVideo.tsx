@@ -1,35 +1,47 @@
 import React, { useState } from 'react';
-import { Video, Film, AlertCircle } from 'lucide-react';
+import { Video, Film } from 'lucide-react';
 import { generateMarketVideo } from '../services/geminiService';
+import { AIError, toAIError } from '../services/aiErrors';
+import { AIErrorNotice } from './AIErrorNotice';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
 
 export const MarketVideo: React.FC = () => {
   const [prompt, setPrompt] = useState('');
   const [videoUrl, setVideoUrl] = useState('');
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState('');
+  const [error, setError] = useState<AIError | null>(null);
+  // Leaving the view stops polling; the generation job itself can't be cancelled
+  const request = useAbortableRequest();
+
+  // Veo needs a paid key; AI Studio lets the user pick one
+  const openKeySelector = async () => {
+    if (window.aistudio) {
+        try {
+            await window.aistudio.openSelectKey();
+        } catch(err) { console.error(err)}
+    }
+  };
 
   const handleGenerate = async () => {
     if (!prompt) return;
     setLoading(true);
-    setError('');
+    setError(null);
     setVideoUrl('');
+    const signal = request.start();
 
     try {
-      const url = await generateMarketVideo(prompt);
+      const url = await generateMarketVideo(prompt, signal);
+      if (signal.aborted) return;
       setVideoUrl(url);
-    } catch (e: any) {
-        if (e.message === "API_KEY_SELECTION_REQUIRED") {
-            setError("Please select a paid API Key project via the popup.");
-            if (window.aistudio) {
-                try {
-                    await window.aistudio.openSelectKey();
-                } catch(err) { console.error(err)}
-            }
-        } else {
-            setError("Failed to generate video. Ensure you are using a project with Veo access.");
+    } catch (e) {
+        if (signal.aborted) return;
+        const aiError = toAIError(e, 'video');
+        setError(aiError);
+        if (aiError.message === "API_KEY_SELECTION_REQUIRED") {
+            await openKeySelector();
         }
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
@@ -50,9 +62,13 @@ export const MarketVideo: React.FC = () => {
         />
         
         {error && (
-            <div className="mt-4 p-3 bg-red-900/50 border border-red-700 text-red-200 rounded flex items-center gap-2">
-                <AlertCircle size={16} /> {error}
-                {error.includes("API Key") && <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noreferrer" className="underline">Docs</a>}
+            <div className="mt-4">
+                <AIErrorNotice error={error} onRetry={handleGenerate} onFixKey={openKeySelector} />
+                {error.kind === 'INVALID_KEY' && (
+                    <p className="text-xs text-gray-400 mt-2">
+                        Veo needs a paid API key project. <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noreferrer" className="underline">Billing docs</a>
+                    </p>
+                )}
             </div>
         )}
 
@@ -2,6 +2,9 @@
 import React, { useState, useEffect } from 'react';
 import { Image, Upload, Eye, History, Clock, Trash2, ChevronDown } from 'lucide-react';
 import { analyzeUploadedFile } from '../services/geminiService';
+import { AIError, toAIError } from '../services/aiErrors';
+import { AIErrorNotice } from './AIErrorNotice';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
 
 interface MMHistory {
     id: string;
@@ -16,6 +19,8 @@ export const MultimodalInput: React.FC = () => {
   const [prompt, setPrompt] = useState('');
   const [analysis, setAnalysis] = useState('');
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<AIError | null>(null);
+  const request = useAbortableRequest();
   const [history, setHistory] = useState<MMHistory[]>(() => {
       if (typeof window !== 'undefined') {
           const saved = localStorage.getItem('multimodal_history');
@@ -40,20 +45,34 @@ export const MultimodalInput: React.FC = () => {
     if (!file) return;
     setLoading(true);
     setAnalysis('');
+    setError(null);
     
     const userPrompt = prompt || "Analyze this financial image/video in detail.";
-    const result = await analyzeUploadedFile(file, userPrompt);
-    setAnalysis(result);
-    setLoading(false);
+    const signal = request.start();
+    try {
+        const result = await analyzeUploadedFile(file, userPrompt, signal) || "No insights returned for this file.";
+        if (signal.aborted) return;
+        setAnalysis(result);
 
-    // Save text result only (images are too big for localStorage)
-    const newEntry: MMHistory = {
-        id: Date.now().toString(),
-        prompt: userPrompt,
-        result: result,
-        timestamp: Date.now()
-    };
-    setHistory(prev => [newEntry, ...prev].slice(0, 10));
+        // Save text result only (images are too big for localStorage)
+        const newEntry: MMHistory = {
+            id: Date.now().toString(),
+            prompt: userPrompt,
+            result: result,
+            timestamp: Date.now()
+        };
+        setHistory(prev => [newEntry, ...prev].slice(0, 10));
+    } catch (e) {
+        if (signal.aborted) return;
+        setError(toAIError(e, 'file-analysis'));
+    } finally {
+        if (!signal.aborted) setLoading(false);
+    }
+  };
+
+  const handleStop = () => {
+      request.cancel();
+      setLoading(false);
   };
 
   const deleteHistory = (id: string) => {
@@ -96,13 +115,24 @@ export const MultimodalInput: React.FC = () => {
                     onChange={(e) => setPrompt(e.target.value)}
                 />
                 
-                <button 
-                    onClick={handleAnalyze}
-                    disabled={loading || !file}
-                    className="bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-3 rounded-lg disabled:opacity-50 transition-colors"
-                >
-                    {loading ? "Analyzing..." : "Analyze Media"}
-                </button>
+                {loading ? (
+                    <button 
+                        onClick={handleStop}
+                        className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 rounded-lg transition-colors"
+                    >
+                        Analyzing... Stop
+                    </button>
+                ) : (
+                    <button 
+                        onClick={handleAnalyze}
+                        disabled={!file}
+                        className="bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-3 rounded-lg disabled:opacity-50 transition-colors"
+                    >
+                        Analyze Media
+                    </button>
+                )}
+
+                {error && <AIErrorNotice error={error} onRetry={handleAnalyze} />}
 
                 {analysis && (
                     <div className="bg-gray-800 p-4 rounded-xl border border-gray-700">
@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from 'react';
+import { LayoutGrid, Loader2, RefreshCw } from 'lucide-react';
+import { HEATMAP_PERIODS, HeatmapSector, HeatmapTile, SectorHeatmapData, getSectorHeatmap } from '../services/sectorHeatmap';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
+
+interface SectorHeatmapProps {
+    onOpenSymbol: (symbol: string) => void;
+}
+
+interface Box {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+// Layout is computed in this logical box and drawn in percentages of it
+const WIDTH = 1000;
+const HEIGHT = 600;
+// Share of a sector's box taken by its name
+const HEADER = 0.08;
+
+// Squarified treemap (Bruls, Huizing & van Wijk): rows of items whose rectangles stay close
+// to square. Items must be sorted largest first.
+const squarify = <T,>(items: { value: number; item: T }[], box: Box): (Box & { item: T })[] => {
+    const total = items.reduce((sum, i) => sum + i.value, 0);
+    if (total <= 0) return [];
+    const scale = (box.w * box.h) / total;
+    const areas = items.map(i => ({ area: i.value * scale, item: i.item }));
+    const result: (Box & { item: T })[] = [];
+    let { x, y, w, h } = box;
+
+    const worst = (row: typeof areas, side: number) => {
+        const sum = row.reduce((s, r) => s + r.area, 0);
+        const max = Math.max(...row.map(r => r.area));
+        const min = Math.min(...row.map(r => r.area));
+        return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+    };
+
+    const place = (row: typeof areas) => {
+        const sum = row.reduce((s, r) => s + r.area, 0);
+        if (w >= h) {
+            // A column along the left edge
+            const width = sum / h;
+            let top = y;
+            row.forEach(r => {
+                result.push({ x, y: top, w: width, h: r.area / width, item: r.item });
+                top += r.area / width;
+            });
+            x += width;
+            w -= width;
+        } else {
+            // A row along the top edge
+            const height = sum / w;
+            let left = x;
+            row.forEach(r => {
+                result.push({ x: left, y, w: r.area / height, h: height, item: r.item });
+                left += r.area / height;
+            });
+            y += height;
+            h -= height;
+        }
+    };
+
+    let row: typeof areas = [];
+    let next = 0;
+    while (next < areas.length) {
+        const side = Math.min(w, h);
+        if (row.length === 0 || worst([...row, areas[next]], side) <= worst(row, side)) {
+            row.push(areas[next++]);
+        } else {
+            place(row);
+            row = [];
+        }
+    }
+    if (row.length > 0) place(row);
+    return result;
+};
+
+// Full colour at ±3% for a day, ±10% for a month and so on
+const COLOR_SCALE: Record<string, number> = { '1D': 3, '1W': 5, '1M': 10, '3M': 15, '6M': 20, '1Y': 30 };
+
+const changeColor = (change: number, period: string) => {
+    const t = Math.max(-1, Math.min(1, change / (COLOR_SCALE[period] ?? 10)));
+    // Gray (#374151) to green (#059669) or red (#DC2626)
+    const [r, g, b] = t >= 0 ? [5, 150, 105] : [220, 38, 38];
+    const mix = (from: number, to: number) => Math.round(from + (to - from) * Math.abs(t));
+    return `rgb(${mix(55, r)}, ${mix(65, g)}, ${mix(81, b)})`;
+};
+
+const formatChange = (change: number) => `${change > 0 ? '+' : ''}${change.toFixed(2)}%`;
+
+const percent = (box: Box, parent: Box) => ({
+    left: `${((box.x - parent.x) / parent.w) * 100}%`,
+    top: `${((box.y - parent.y) / parent.h) * 100}%`,
+    width: `${(box.w / parent.w) * 100}%`,
+    height: `${(box.h / parent.h) * 100}%`,
+});
+
+// Sectors and their stocks, sized by market cap and coloured by % change over the period
+export const SectorHeatmap: React.FC<SectorHeatmapProps> = ({ onOpenSymbol }) => {
+    const [period, setPeriod] = useState(() => {
+        const saved = localStorage.getItem('sector_heatmap_period');
+        return saved && HEATMAP_PERIODS.includes(saved) ? saved : '1D';
+    });
+    const [data, setData] = useState<SectorHeatmapData | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { start } = useAbortableRequest();
+
+    const load = async (selected: string) => {
+        const signal = start();
+        setLoading(true);
+        setError(null);
+        try {
+            const result = await getSectorHeatmap(selected, signal);
+            if (signal.aborted) return;
+            setData(result);
+            if (result.covered === 0) setError('No market data for the symbol master, so there is nothing to map yet.');
+        } catch (e) {
+            if (signal.aborted) return;
+            console.error("Sector heatmap failed", e);
+            setError('Could not load the sector heatmap.');
+        } finally {
+            if (!signal.aborted) setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        localStorage.setItem('sector_heatmap_period', period);
+        load(period);
+    }, [period]);
+
+    const sectorBoxes = data
+        ? squarify<HeatmapSector>(
+            data.sectors
+                .map(sector => ({ value: sector.tiles.reduce((sum, tile) => sum + tile.weight, 0), item: sector }))
+                .sort((a, b) => b.value - a.value),
+            { x: 0, y: 0, w: WIDTH, h: HEIGHT }
+        )
+        : [];
+
+    return (
+        <div className="p-6 h-full overflow-y-auto">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+                <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+                    <LayoutGrid className="text-blue-400" /> Sector Heatmap
+                </h1>
+                <div className="flex items-center gap-2">
+                    <div className="flex bg-gray-800 rounded-lg p-1 border border-gray-700">
+                        {HEATMAP_PERIODS.map(p => (
+                            <button
+                                key={p}
+                                onClick={() => setPeriod(p)}
+                                className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${period === p ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            >
+                                {p}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={() => load(period)}
+                        disabled={loading}
+                        className="p-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-400 hover:text-white disabled:opacity-50"
+                        title="Refresh"
+                    >
+                        {loading ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+                    </button>
+                </div>
+            </div>
+
+            {error && <p className="text-sm text-amber-300 bg-amber-900/20 border border-amber-800/50 rounded-lg px-4 py-3 mb-4">{error}</p>}
+
+            {!data && loading && (
+                <div className="flex items-center justify-center h-96 text-gray-500 gap-2">
+                    <Loader2 className="animate-spin" size={20} /> Reading market data...
+                </div>
+            )}
+
+            {data && data.covered > 0 && (
+                <>
+                    <div className={`relative w-full aspect-[5/3] bg-gray-900 rounded-xl overflow-hidden border border-gray-700 transition-opacity ${loading ? 'opacity-60' : ''}`}>
+                        {sectorBoxes.map(({ item: sector, ...box }) => {
+                            const inner = { x: box.x, y: box.y + box.h * HEADER, w: box.w, h: box.h * (1 - HEADER) };
+                            const tiles = squarify<HeatmapTile>(
+                                sector.tiles.map(tile => ({ value: tile.weight, item: tile })).sort((a, b) => b.value - a.value),
+                                inner
+                            );
+                            return (
+                                <div key={sector.name} className="absolute border border-gray-900 flex flex-col" style={percent(box, { x: 0, y: 0, w: WIDTH, h: HEIGHT })}>
+                                    <div className="flex items-center justify-between gap-2 px-1.5 text-[11px] font-bold text-gray-200 bg-gray-900/80 truncate" style={{ height: `${HEADER * 100}%` }}>
+                                        <span className="truncate">{sector.name}</span>
+                                        <span className={sector.changePercent >= 0 ? 'text-green-400' : 'text-red-400'}>{formatChange(sector.changePercent)}</span>
+                                    </div>
+                                    <div className="relative flex-1">
+                                        {tiles.map(({ item: tile, ...tileBox }) => (
+                                            <button
+                                                key={tile.symbol}
+                                                onClick={() => onOpenSymbol(tile.symbol)}
+                                                className="absolute border border-gray-900 flex flex-col items-center justify-center text-center overflow-hidden hover:brightness-125 transition-[filter]"
+                                                style={{ ...percent(tileBox, inner), backgroundColor: changeColor(tile.changePercent, data.period) }}
+                                                title={`${tile.name}\n₹${tile.price.toLocaleString('en-IN', { maximumFractionDigits: 2 })} · ${formatChange(tile.changePercent)}${tile.marketCap ? `\nMarket cap ₹${(tile.marketCap / 1e7).toLocaleString('en-IN', { maximumFractionDigits: 0 })} Cr` : ''}`}
+                                            >
+                                                {tileBox.w > 45 && tileBox.h > 20 && <span className="text-xs font-bold text-white truncate max-w-full px-1">{tile.symbol}</span>}
+                                                {tileBox.w > 45 && tileBox.h > 40 && <span className="text-[11px] text-white/80">{formatChange(tile.changePercent)}</span>}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    <div className="flex flex-wrap items-center justify-between gap-3 mt-3 text-[11px] text-gray-500">
+                        <span>
+                            {data.covered} of {data.total} symbols with market data •{' '}
+                            {!data.sizedByMarketCap
+                                ? 'sized equally (add a shares column to the symbol master to size by market cap)'
+                                : data.estimatedWeights > 0
+                                    ? `sized by market cap (${data.estimatedWeights} without shares at their sector's median)`
+                                    : 'sized by market cap'}
+                        </span>
+                        <span className="flex items-center gap-1">
+                            <span>−{COLOR_SCALE[data.period]}%</span>
+                            <span className="w-24 h-2 rounded" style={{ background: `linear-gradient(to right, ${changeColor(-COLOR_SCALE[data.period], data.period)}, ${changeColor(0, data.period)}, ${changeColor(COLOR_SCALE[data.period], data.period)})` }} />
+                            <span>+{COLOR_SCALE[data.period]}%</span>
+                        </span>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Settings as SettingsIcon, FileText, Save, RotateCcw, AlertTriangle, Eye, EyeOff, Database, Trash2 } from 'lucide-react';
+import {
+    PROMPT_TEMPLATES,
+    PromptTemplateId,
+    findUnusedVariables,
+    getActivePrompt,
+    resetPromptOverride,
+    savePromptOverride,
+} from '../services/promptTemplates';
+import { clearResponseCache } from '../services/responseCache';
+
+const TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[];
+
+export const Settings: React.FC = () => {
+    const [selectedId, setSelectedId] = useState<PromptTemplateId>(TEMPLATE_IDS[0]);
+    const [draft, setDraft] = useState(() => getActivePrompt(TEMPLATE_IDS[0]).body);
+    const [showDefault, setShowDefault] = useState(false);
+    // Bumped after save/reset so the view re-reads overrides from storage
+    const [, setRevision] = useState(0);
+    const [cacheCleared, setCacheCleared] = useState(false);
+
+    const active = getActivePrompt(selectedId);
+    const { template, override } = active;
+    const isDirty = draft !== active.body;
+    const unusedVariables = findUnusedVariables(selectedId, draft);
+    const defaultChanged = override && override.baseVersion < template.version;
+
+    const selectTemplate = (id: PromptTemplateId) => {
+        if (isDirty && !confirm('Discard unsaved changes to this template?')) return;
+        setSelectedId(id);
+        setDraft(getActivePrompt(id).body);
+        setShowDefault(false);
+    };
+
+    const handleSave = () => {
+        if (draft.trim() === template.body.trim()) {
+            // Saving the default text is the same as having no override
+            resetPromptOverride(selectedId);
+            setDraft(template.body);
+        } else {
+            savePromptOverride(selectedId, draft);
+        }
+        setRevision(r => r + 1);
+    };
+
+    const handleReset = () => {
+        if (!confirm(`Reset "${template.name}" to the built-in v${template.version}?`)) return;
+        resetPromptOverride(selectedId);
+        setDraft(template.body);
+        setRevision(r => r + 1);
+    };
+
+    const handleClearCache = async () => {
+        await clearResponseCache();
+        setCacheCleared(true);
+    };
+
+    return (
+        <div className="p-6 h-full overflow-y-auto">
+            <h2 className="text-2xl font-bold mb-2 flex items-center gap-2 text-gray-200">
+                <SettingsIcon /> Settings
+            </h2>
+            <p className="text-gray-400 mb-6">Stored in this browser only.</p>
+
+            <h3 className="text-gray-400 font-bold uppercase text-xs tracking-wider flex items-center gap-2 mb-4">
+                <FileText size={14} /> Prompt Templates
+            </h3>
+
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+                {/* Template list */}
+                <div className="space-y-2">
+                    {TEMPLATE_IDS.map(id => {
+                        const item = getActivePrompt(id);
+                        return (
+                            <button
+                                key={id}
+                                onClick={() => selectTemplate(id)}
+                                className={`w-full text-left p-3 rounded-lg border transition-colors ${id === selectedId ? 'bg-blue-600/20 border-blue-500' : 'bg-gray-800 border-gray-700 hover:border-gray-500'}`}
+                            >
+                                <p className="font-medium text-gray-200 text-sm">{item.template.name}</p>
+                                <p className="text-[10px] font-mono text-gray-500 mt-1 flex items-center gap-2">
+                                    {item.ref.version}
+                                    {item.override && <span className="bg-amber-500/20 text-amber-400 px-1.5 rounded">custom</span>}
+                                </p>
+                            </button>
+                        );
+                    })}
+                </div>
+
+                {/* Editor */}
+                <div className="lg:col-span-3 bg-gray-800 border border-gray-700 rounded-xl p-5">
+                    <div className="flex justify-between items-start gap-4 mb-4">
+                        <div>
+                            <h4 className="text-lg font-semibold text-gray-100">{template.name}</h4>
+                            <p className="text-sm text-gray-400">{template.description}</p>
+                        </div>
+                        <span className="text-xs font-mono bg-gray-900 text-gray-400 px-2 py-1 rounded border border-gray-700 whitespace-nowrap">
+                            {active.ref.id} {active.ref.version}
+                        </span>
+                    </div>
+
+                    {template.variables.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+                            <span className="text-gray-500">Variables:</span>
+                            {template.variables.map(v => (
+                                <code key={v} className={`px-2 py-0.5 rounded ${unusedVariables.includes(v) ? 'bg-red-900/30 text-red-400' : 'bg-gray-900 text-blue-300'}`}>
+                                    {`{{${v}}}`}
+                                </code>
+                            ))}
+                        </div>
+                    )}
+
+                    {defaultChanged && (
+                        <div className="mb-3 text-xs text-amber-300 bg-amber-900/20 border border-amber-800 rounded-lg p-3 flex items-center gap-2">
+                            <AlertTriangle size={14} /> Your override is based on v{override!.baseVersion}; the built-in template is now v{template.version}.
+                        </div>
+                    )}
+
+                    <textarea
+                        className="w-full h-96 bg-gray-900 border border-gray-700 rounded-lg p-4 text-sm font-mono text-gray-200 focus:outline-none focus:border-blue-500 resize-y"
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        spellCheck={false}
+                    />
+
+                    {unusedVariables.length > 0 && (
+                        <p className="mt-2 text-xs text-red-400 flex items-center gap-1">
+                            <AlertTriangle size={12} /> Not used in this text: {unusedVariables.map(v => `{{${v}}}`).join(', ')}. That input will not reach the model.
+                        </p>
+                    )}
+
+                    <div className="flex flex-wrap gap-2 mt-4">
+                        <button
+                            onClick={handleSave}
+                            disabled={!isDirty}
+                            className="bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50 transition-colors"
+                        >
+                            <Save size={14} /> Save Override
+                        </button>
+                        <button
+                            onClick={handleReset}
+                            disabled={!override}
+                            className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded-lg text-sm flex items-center gap-2 disabled:opacity-50 transition-colors"
+                        >
+                            <RotateCcw size={14} /> Reset to Default
+                        </button>
+                        <button
+                            onClick={() => setShowDefault(s => !s)}
+                            className="ml-auto text-gray-400 hover:text-white px-3 py-2 rounded-lg text-sm flex items-center gap-2 transition-colors"
+                        >
+                            {showDefault ? <EyeOff size={14} /> : <Eye size={14} />} {showDefault ? 'Hide' : 'Compare with'} default
+                        </button>
+                    </div>
+
+                    {showDefault && (
+                        <div className="mt-4">
+                            <p className="text-xs text-gray-500 mb-2">Built-in v{template.version}</p>
+                            <pre className="bg-gray-900/60 border border-gray-700 rounded-lg p-4 text-xs text-gray-400 whitespace-pre-wrap max-h-96 overflow-y-auto">{template.body}</pre>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <h3 className="text-gray-400 font-bold uppercase text-xs tracking-wider flex items-center gap-2 mt-8 mb-4">
+                <Database size={14} /> Response Cache
+            </h3>
+            <div className="bg-gray-800 border border-gray-700 rounded-xl p-5 flex flex-wrap items-center justify-between gap-4">
+                <p className="text-sm text-gray-400">
+                    Price charts are reused for 5 minutes and screener results for 15 minutes before asking the AI again.
+                </p>
+                <button
+                    onClick={handleClearCache}
+                    className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded-lg text-sm flex items-center gap-2 transition-colors"
+                >
+                    <Trash2 size={14} /> {cacheCleared ? 'Cache cleared' : 'Clear cached responses'}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { Filter, Search, Loader2, DollarSign, PieChart, Activity, AlertCircle, Save, FolderOpen, Trash2, X, Check } from 'lucide-react';
+import { Filter, Search, Loader2, DollarSign, PieChart, Activity, AlertCircle, Save, FolderOpen, Trash2, X, Check, Square } from 'lucide-react';
 import { runStockScreener } from '../services/geminiService';
+import { AIError, toAIError } from '../services/aiErrors';
+import { AIErrorNotice } from './AIErrorNotice';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
+import { ScreenerRow } from '../types';
+import { SECTORS } from '../services/sectors';
 
 interface ScreenerFilters {
     sector: string;
@@ -48,9 +53,11 @@ export const StockScreener: React.FC = () => {
     const [presetName, setPresetName] = useState('');
     const [showPresetsDropdown, setShowPresetsDropdown] = useState(false);
     
-    const [results, setResults] = useState<any[]>([]);
+    const [results, setResults] = useState<ScreenerRow[]>([]);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState('');
+    const [aiError, setAiError] = useState<AIError | null>(null);
+    const request = useAbortableRequest();
 
     // Persist filters to localStorage whenever they change
     useEffect(() => {
@@ -86,7 +93,7 @@ export const StockScreener: React.FC = () => {
         localStorage.setItem('stock_screener_presets', JSON.stringify(updatedPresets));
     };
 
-    const sectors = ["All", "Technology", "Finance", "Healthcare", "Energy", "Automobile", "FMCG", "Metals"];
+    const sectors = ["All", ...SECTORS];
     const marketCaps = ["Any", "Large Cap (>20k Cr)", "Mid Cap (5k-20k Cr)", "Small Cap (<5k Cr)"];
     const peRatios = ["Any", "Undervalued (<15)", "Fair (15-30)", "Overvalued (>30)"];
     const volumes = ["Any", "High Volume", "Moderate", "Low Volume"];
@@ -94,22 +101,31 @@ export const StockScreener: React.FC = () => {
     const handleRunScreener = async () => {
         setLoading(true);
         setError('');
+        setAiError(null);
         setResults([]);
+        const signal = request.start();
         
         try {
-            const data = await runStockScreener(filters);
-            if (Array.isArray(data) && data.length > 0) {
+            const data = await runStockScreener(filters, signal);
+            if (signal.aborted) return;
+            if (data.length > 0) {
                 setResults(data);
             } else {
                 setError("No matching stocks found. Try broadening your criteria.");
             }
         } catch (e) {
-            setError("Failed to fetch screener data. Please try again.");
+            if (signal.aborted) return;
+            setAiError(toAIError(e, 'screener'));
         } finally {
-            setLoading(false);
+            if (!signal.aborted) setLoading(false);
         }
     };
 
+    const handleStopScreener = () => {
+        request.cancel();
+        setLoading(false);
+    };
+
     return (
         <div className="p-6 h-full flex flex-col overflow-y-auto">
             <h2 className="text-2xl font-bold mb-6 flex items-center gap-2 text-purple-400">
@@ -228,18 +244,29 @@ export const StockScreener: React.FC = () => {
                     </div>
                 </div>
 
-                <button 
-                    onClick={handleRunScreener}
-                    disabled={loading}
-                    className="w-full bg-purple-600 hover:bg-purple-700 py-3 rounded-lg font-bold text-white flex items-center justify-center gap-2 transition-all disabled:opacity-50"
-                >
-                    {loading ? <Loader2 className="animate-spin" /> : <Search />}
-                    Run Screener
-                </button>
+                {loading ? (
+                    <button 
+                        onClick={handleStopScreener}
+                        className="w-full bg-red-600 hover:bg-red-700 py-3 rounded-lg font-bold text-white flex items-center justify-center gap-2 transition-all"
+                    >
+                        <Loader2 className="animate-spin" />
+                        <Square size={16} /> Stop
+                    </button>
+                ) : (
+                    <button 
+                        onClick={handleRunScreener}
+                        className="w-full bg-purple-600 hover:bg-purple-700 py-3 rounded-lg font-bold text-white flex items-center justify-center gap-2 transition-all disabled:opacity-50"
+                    >
+                        <Search />
+                        Run Screener
+                    </button>
+                )}
             </div>
 
             <div className="flex-1">
-                {error ? (
+                {aiError ? (
+                    <AIErrorNotice error={aiError} onRetry={handleRunScreener} />
+                ) : error ? (
                     <div className="bg-red-900/20 border border-red-700 p-4 rounded-xl flex items-center gap-3 text-red-300">
                         <AlertCircle /> {error}
                     </div>
@@ -265,7 +292,7 @@ export const StockScreener: React.FC = () => {
                                             <td className="p-4 text-right text-white font-mono">
                                                 ₹{Number(stock.price).toLocaleString()}
                                             </td>
-                                            <td className="p-4 text-right text-gray-300 font-mono">{stock.peRatio}</td>
+                                            <td className="p-4 text-right text-gray-300 font-mono">{stock.peRatio ?? 'N/A'}</td>
                                             <td className="p-4 text-right text-gray-300">{stock.marketCap}</td>
                                             <td className="p-4 text-right text-gray-300">{stock.volume}</td>
                                         </tr>
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { getSymbolMaster, loadSymbolMaster, resolveSymbol, searchSymbols } from '../services/symbolMaster';
+
+interface SymbolInputProps {
+    value: string;
+    onChange: (value: string) => void;
+    // Called with the canonical ticker on Enter or when a suggestion is picked
+    onSubmit: (symbol: string) => void;
+    placeholder?: string;
+    className?: string;
+    // Extra classes for the wrapper (positioning, flex sizing)
+    containerClassName?: string;
+    autoFocus?: boolean;
+}
+
+// Text input with fuzzy autocomplete from the symbol master (services/symbolMaster.ts).
+// Free text still works: what was typed is resolved to a canonical ticker on submit.
+export const SymbolInput: React.FC<SymbolInputProps> = ({ value, onChange, onSubmit, placeholder, className, containerClassName, autoFocus }) => {
+    const [open, setOpen] = useState(false);
+    const [highlighted, setHighlighted] = useState(0);
+    // Re-render once the master arrives so suggestions show up
+    const [, setMasterSize] = useState(getSymbolMaster().length);
+
+    useEffect(() => {
+        loadSymbolMaster().then(entries => setMasterSize(entries.length));
+    }, []);
+
+    const suggestions = open ? searchSymbols(value) : [];
+
+    const submit = (symbol: string) => {
+        setOpen(false);
+        onChange(symbol);
+        onSubmit(symbol);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown' && suggestions.length > 0) {
+            e.preventDefault();
+            setHighlighted((highlighted + 1) % suggestions.length);
+        } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+            e.preventDefault();
+            setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+        } else if (e.key === 'Enter') {
+            const picked = suggestions[highlighted];
+            if (picked) submit(picked.symbol);
+            else if (value.trim()) submit(resolveSymbol(value));
+        } else if (e.key === 'Escape') {
+            setOpen(false);
+        }
+    };
+
+    return (
+        <div className={`relative ${containerClassName || ''}`}>
+            <input
+                value={value}
+                onChange={(e) => {
+                    onChange(e.target.value);
+                    setOpen(true);
+                    setHighlighted(0);
+                }}
+                onFocus={() => setOpen(true)}
+                onBlur={() => setOpen(false)}
+                onKeyDown={handleKeyDown}
+                placeholder={placeholder}
+                className={className}
+                autoFocus={autoFocus}
+                autoComplete="off"
+                role="combobox"
+                aria-expanded={suggestions.length > 0}
+            />
+            {suggestions.length > 0 && (
+                <ul className="absolute left-0 right-0 top-full mt-1 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl z-50 max-h-72 overflow-y-auto min-w-[16rem]" role="listbox">
+                    {suggestions.map((entry, idx) => (
+                        <li
+                            key={entry.symbol}
+                            role="option"
+                            aria-selected={idx === highlighted}
+                            // Keep focus in the input so the list isn't closed by onBlur first
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={() => submit(entry.symbol)}
+                            onMouseEnter={() => setHighlighted(idx)}
+                            className={`px-3 py-2 cursor-pointer flex items-center justify-between gap-3 ${idx === highlighted ? 'bg-gray-800' : ''}`}
+                        >
+                            <div className="min-w-0">
+                                <span className="font-bold text-white text-sm">{entry.symbol}</span>
+                                <span className="block text-xs text-gray-400 truncate">{entry.name}</span>
+                            </div>
+                            <div className="text-right shrink-0">
+                                <span className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-gray-800 border border-gray-700 text-gray-300">{entry.exchange}</span>
+                                {entry.sector && <span className="block text-[10px] text-gray-500 mt-0.5">{entry.sector}</span>}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
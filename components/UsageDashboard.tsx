@@ -0,0 +1,261 @@
+import React, { useMemo, useState } from 'react';
+import { Gauge, Coins, Clock, Hash, Trash2, Save, AlertTriangle } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import type { AIFeature } from '../services/aiProvider';
+import { UsageBudgets, clearUsage, dayKey, getSpendToday, loadBudgets, loadUsage, saveBudgets } from '../services/usageMeter';
+
+const FEATURES: { id: AIFeature; label: string; color: string }[] = [
+    { id: 'chat', label: 'Market Chat', color: '#10B981' },
+    { id: 'deep-analysis', label: 'Deep Analysis', color: '#6366F1' },
+    { id: 'graph', label: 'Visual Analysis', color: '#3B82F6' },
+    { id: 'screener', label: 'Stock Screener', color: '#A855F7' },
+    { id: 'file-analysis', label: 'Photo/Video Input', color: '#EAB308' },
+    { id: 'screenshot', label: 'Advance AI (Screen)', color: '#06B6D4' },
+    { id: 'video', label: 'Market Video', color: '#EC4899' },
+];
+
+const HISTORY_DAYS = 14;
+
+const formatUsd = (value: number) => `$${value < 0.01 && value > 0 ? value.toFixed(4) : value.toFixed(2)}`;
+const formatTokens = (value: number) => value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value);
+
+// Budget inputs are edited as text so an empty field can mean "no limit"
+const toInput = (value?: number) => value === undefined ? '' : String(value);
+const fromInput = (value: string) => {
+    const num = parseFloat(value);
+    return value.trim() === '' || isNaN(num) || num < 0 ? undefined : num;
+};
+
+export const UsageDashboard: React.FC = () => {
+    const [records, setRecords] = useState(() => loadUsage());
+    const [selectedDay, setSelectedDay] = useState(() => dayKey(Date.now()));
+    const [budgetInputs, setBudgetInputs] = useState(() => {
+        const budgets = loadBudgets();
+        return {
+            total: toInput(budgets.dailyTotalUsd),
+            perFeature: Object.fromEntries(FEATURES.map(f => [f.id, toInput(budgets.perFeatureUsd[f.id])])) as Record<AIFeature, string>,
+        };
+    });
+    const [budgets, setBudgets] = useState<UsageBudgets>(() => loadBudgets());
+    const [savedToast, setSavedToast] = useState(false);
+
+    const spendToday = useMemo(() => getSpendToday(records), [records]);
+
+    // 1. Daily cost per feature for the chart
+    const dailyTotals = useMemo(() => {
+        const days: Record<string, any>[] = [];
+        for (let i = HISTORY_DAYS - 1; i >= 0; i--) {
+            const key = dayKey(Date.now() - i * 24 * 60 * 60 * 1000);
+            days.push({ day: key, calls: 0, total: 0 });
+        }
+        const byDay = new Map(days.map(d => [d.day, d]));
+        records.forEach(r => {
+            const day = byDay.get(dayKey(r.timestamp));
+            if (!day) return;
+            day[r.feature] = (day[r.feature] || 0) + r.costUsd;
+            day.total += r.costUsd;
+            day.calls += 1;
+        });
+        return days;
+    }, [records]);
+
+    // 2. Per-feature breakdown for the selected day
+    const featureRows = useMemo(() => {
+        const dayRecords = records.filter(r => dayKey(r.timestamp) === selectedDay);
+        return FEATURES.map(f => {
+            const rows = dayRecords.filter(r => r.feature === f.id);
+            const sum = (pick: (r: typeof rows[number]) => number) => rows.reduce((acc, r) => acc + pick(r), 0);
+            return {
+                ...f,
+                calls: rows.length,
+                failed: rows.filter(r => !r.ok).length,
+                models: [...new Set(rows.map(r => r.model))],
+                promptTokens: sum(r => r.promptTokens),
+                outputTokens: sum(r => r.outputTokens),
+                thinkingTokens: sum(r => r.thinkingTokens),
+                videoSeconds: sum(r => r.videoSeconds || 0),
+                avgLatencyMs: rows.length ? sum(r => r.latencyMs) / rows.length : 0,
+                costUsd: sum(r => r.costUsd),
+            };
+        });
+    }, [records, selectedDay]);
+
+    const dayTotal = featureRows.reduce((acc, r) => acc + r.costUsd, 0);
+    const dayCalls = featureRows.reduce((acc, r) => acc + r.calls, 0);
+    const dayTokens = featureRows.reduce((acc, r) => acc + r.promptTokens + r.outputTokens + r.thinkingTokens, 0);
+    const dayLatency = dayCalls ? featureRows.reduce((acc, r) => acc + r.avgLatencyMs * r.calls, 0) / dayCalls : 0;
+
+    const handleSaveBudgets = () => {
+        const next: UsageBudgets = {
+            dailyTotalUsd: fromInput(budgetInputs.total),
+            perFeatureUsd: {},
+        };
+        FEATURES.forEach(f => {
+            const limit = fromInput(budgetInputs.perFeature[f.id]);
+            if (limit !== undefined) next.perFeatureUsd[f.id] = limit;
+        });
+        saveBudgets(next);
+        setBudgets(next);
+        setSavedToast(true);
+        setTimeout(() => setSavedToast(false), 2000);
+    };
+
+    const handleClear = () => {
+        if (!confirm('Clear the AI usage log? Budgets are kept.')) return;
+        clearUsage();
+        setRecords([]);
+    };
+
+    const totalBudgetHit = budgets.dailyTotalUsd !== undefined && spendToday.total >= budgets.dailyTotalUsd;
+
+    return (
+        <div className="p-6 h-full overflow-y-auto">
+            <div className="flex justify-between items-start mb-6">
+                <div>
+                    <h2 className="text-2xl font-bold flex items-center gap-2 text-emerald-400">
+                        <Gauge /> AI Usage
+                    </h2>
+                    <p className="text-gray-400 text-sm">Token counts come from the model; costs are estimates from list prices.</p>
+                </div>
+                <button onClick={handleClear} className="text-gray-500 hover:text-red-400 p-2 rounded-lg hover:bg-gray-800 transition-colors" title="Clear usage log">
+                    <Trash2 size={18} />
+                </button>
+            </div>
+
+            {totalBudgetHit && (
+                <div className="mb-6 bg-red-900/20 border border-red-700 rounded-xl p-4 text-red-300 flex items-center gap-2">
+                    <AlertTriangle size={18} /> Daily budget reached. AI calls are blocked until tomorrow or until the limit is raised.
+                </div>
+            )}
+
+            {/* Summary for the selected day */}
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+                {[
+                    { label: 'Estimated Cost', value: formatUsd(dayTotal), icon: Coins },
+                    { label: 'Calls', value: String(dayCalls), icon: Hash },
+                    { label: 'Tokens', value: formatTokens(dayTokens), icon: Gauge },
+                    { label: 'Avg Latency', value: `${(dayLatency / 1000).toFixed(1)}s`, icon: Clock },
+                ].map(card => (
+                    <div key={card.label} className="bg-gray-800 border border-gray-700 rounded-xl p-4">
+                        <p className="text-gray-500 text-xs font-bold uppercase tracking-wider flex items-center gap-1 mb-1">
+                            <card.icon size={12} /> {card.label}
+                        </p>
+                        <p className="text-2xl font-bold text-white">{card.value}</p>
+                    </div>
+                ))}
+            </div>
+
+            {/* Daily totals */}
+            <div className="bg-gray-800 border border-gray-700 rounded-xl p-4 mb-6">
+                <h3 className="text-gray-400 font-bold uppercase text-xs tracking-wider mb-4">Daily Cost (last {HISTORY_DAYS} days) · click a day for details</h3>
+                <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={dailyTotals} onClick={(e: any) => e?.activeLabel && setSelectedDay(e.activeLabel)}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+                            <XAxis dataKey="day" stroke="#9CA3AF" fontSize={11} tickFormatter={(d) => d.slice(5)} />
+                            <YAxis stroke="#9CA3AF" fontSize={11} tickFormatter={(v) => `$${v}`} width={50} />
+                            <Tooltip
+                                contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', borderRadius: '8px' }}
+                                formatter={(value: number, name: string) => [formatUsd(value), FEATURES.find(f => f.id === name)?.label || name]}
+                            />
+                            <Legend formatter={(value) => FEATURES.find(f => f.id === value)?.label || value} />
+                            {FEATURES.map(f => (
+                                <Bar key={f.id} dataKey={f.id} stackId="cost" fill={f.color} cursor="pointer" />
+                            ))}
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+            </div>
+
+            {/* Per-feature breakdown */}
+            <div className="bg-gray-800 border border-gray-700 rounded-xl p-4 mb-6 overflow-x-auto">
+                <h3 className="text-gray-400 font-bold uppercase text-xs tracking-wider mb-4">By Feature · {selectedDay}</h3>
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-gray-500 text-xs uppercase text-left border-b border-gray-700">
+                            <th className="py-2 pr-4">Feature</th>
+                            <th className="py-2 pr-4">Model</th>
+                            <th className="py-2 pr-4 text-right">Calls</th>
+                            <th className="py-2 pr-4 text-right">Prompt</th>
+                            <th className="py-2 pr-4 text-right">Output</th>
+                            <th className="py-2 pr-4 text-right">Thinking</th>
+                            <th className="py-2 pr-4 text-right">Avg Latency</th>
+                            <th className="py-2 text-right">Est. Cost</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {featureRows.map(row => (
+                            <tr key={row.id} className="border-b border-gray-700/50 text-gray-300">
+                                <td className="py-2 pr-4 flex items-center gap-2">
+                                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: row.color }} />
+                                    {row.label}
+                                </td>
+                                <td className="py-2 pr-4 text-xs font-mono text-gray-500">{row.models.join(', ') || '-'}</td>
+                                <td className="py-2 pr-4 text-right">
+                                    {row.calls}
+                                    {row.failed > 0 && <span className="text-red-400 text-xs ml-1">({row.failed} failed)</span>}
+                                </td>
+                                <td className="py-2 pr-4 text-right font-mono">{formatTokens(row.promptTokens)}</td>
+                                <td className="py-2 pr-4 text-right font-mono">
+                                    {row.videoSeconds > 0 ? `${row.videoSeconds}s video` : formatTokens(row.outputTokens)}
+                                </td>
+                                <td className="py-2 pr-4 text-right font-mono">{formatTokens(row.thinkingTokens)}</td>
+                                <td className="py-2 pr-4 text-right">{row.calls ? `${(row.avgLatencyMs / 1000).toFixed(1)}s` : '-'}</td>
+                                <td className="py-2 text-right font-bold text-white">{formatUsd(row.costUsd)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Budgets */}
+            <div className="bg-gray-800 border border-gray-700 rounded-xl p-4">
+                <h3 className="text-gray-400 font-bold uppercase text-xs tracking-wider mb-1">Daily Budgets (USD)</h3>
+                <p className="text-xs text-gray-500 mb-4">Calls are blocked once today's estimated spend reaches a limit. Leave empty for no limit.</p>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                    <label className="block">
+                        <span className="text-xs text-gray-400">All features</span>
+                        <input
+                            type="number" min="0" step="0.01"
+                            className="mt-1 w-full bg-gray-900 border border-gray-600 rounded-lg p-2 text-sm focus:outline-none focus:border-emerald-500"
+                            value={budgetInputs.total}
+                            onChange={(e) => setBudgetInputs(prev => ({ ...prev, total: e.target.value }))}
+                            placeholder="No limit"
+                        />
+                        <span className="text-[10px] text-gray-500">Spent today: {formatUsd(spendToday.total)}</span>
+                    </label>
+                    {FEATURES.map(f => {
+                        const limit = budgets.perFeatureUsd[f.id];
+                        const spent = spendToday.byFeature[f.id] || 0;
+                        return (
+                            <label key={f.id} className="block">
+                                <span className="text-xs text-gray-400">{f.label}</span>
+                                <input
+                                    type="number" min="0" step="0.01"
+                                    className="mt-1 w-full bg-gray-900 border border-gray-600 rounded-lg p-2 text-sm focus:outline-none focus:border-emerald-500"
+                                    value={budgetInputs.perFeature[f.id]}
+                                    onChange={(e) => setBudgetInputs(prev => ({ ...prev, perFeature: { ...prev.perFeature, [f.id]: e.target.value } }))}
+                                    placeholder="No limit"
+                                />
+                                <span className={`text-[10px] ${limit !== undefined && spent >= limit ? 'text-red-400' : 'text-gray-500'}`}>
+                                    Spent today: {formatUsd(spent)}{limit !== undefined && ` of ${formatUsd(limit)}`}
+                                </span>
+                            </label>
+                        );
+                    })}
+                </div>
+
+                <div className="flex items-center gap-3 mt-4">
+                    <button
+                        onClick={handleSaveBudgets}
+                        className="bg-emerald-600 hover:bg-emerald-700 px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 transition-colors"
+                    >
+                        <Save size={14} /> Save Budgets
+                    </button>
+                    {savedToast && <span className="text-xs text-emerald-400">Saved</span>}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,8 +1,27 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Search, BarChart2, Loader2, AlertCircle, Plus, Check, History, Clock, Trash2, X, Bell, BellRing, Palette, Wifi, WifiOff, GitCompare, Share2 } from 'lucide-react';
-import { getGraphData } from '../services/geminiService';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Brush, Legend } from 'recharts';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Search, BarChart2, Loader2, Plus, Check, History, Clock, Trash2, X, Bell, BellRing, Palette, Wifi, WifiOff, GitCompare, Share2, Database, Sparkles, ChartArea, ChartLine, ChartCandlestick, CalendarRange, CalendarDays, CalendarOff, ScanSearch, TrendingUpDown } from 'lucide-react';
+import { getPriceHistory } from '../services/marketDataService';
+import { BAR_INTERVALS, BarInterval, ChartRange, PRESET_PERIODS, allowedIntervals, isIntraday, parseStoredRange, presetRange, rangeDays, rangeFromParams, rangeLabel, setRangeParams, withPeriod } from '../services/chartRange';
+import { AIError, toAIError } from '../services/aiErrors';
+import { AIErrorNotice } from './AIErrorNotice';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
+import { DEFAULT_INDICATORS, INDICATORS, IndicatorConfig, applyIndicators, encodeIndicators, indicatorId, indicatorLabel, outputKey, parseIndicators } from '../services/indicators';
+import { CandlePattern, PatternDirection, detectCandlePatterns } from '../services/candlePatterns';
+import { LevelKind, findSupportResistance, trendlinePrice } from '../services/supportResistance';
+import { Drawing, DrawingType, encodeDrawings, loadDrawings, mergeDrawings, parseDrawings, saveDrawings } from '../services/chartDrawings';
+import { addPriceAlert, loadPriceAlerts, loadWatchlist, savePriceAlerts, saveWatchlist } from '../services/marketStore';
+import { getQuoteStream, QuoteStreamStatus } from '../services/quoteStream';
+import { findSymbol, loadSymbolMaster, resolveSymbol } from '../services/symbolMaster';
+import { dropNonTradingDays, fillCalendarGaps } from '../services/tradingCalendar';
+import { useMarketStatus } from '../hooks/useMarketStatus';
+import { SymbolInput } from './SymbolInput';
+import { MarketStatusBadge } from './MarketStatusBadge';
+import { IndicatorPicker } from './IndicatorPicker';
+import { IndicatorPane, VolumePane, formatIndicatorValue } from './IndicatorPane';
+import { DrawingLayer, DrawingToolbar } from './ChartDrawings';
+import { CorporateAction, CorporateActionType, PriceAlert, PriceSource, QuoteTick } from '../types';
+import { ComposedChart, Area, Line, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Brush, Legend, ReferenceLine, ReferenceDot, ReferenceArea } from 'recharts';
 
 interface VisualAnalysisProps {
     initialSymbol?: string;
@@ -12,18 +31,28 @@ interface VisualAnalysisProps {
 interface HistoryItem {
     symbol: string;
     period: string;
+    range?: ChartRange; // missing on items saved before custom ranges (period + default interval)
     data: any[];
     timestamp: number;
+    source?: PriceSource; // missing on items saved before market data existed (always AI)
 }
 
-interface PriceAlert {
-    id: string;
-    symbol: string;
-    targetPrice: number;
-    createdAt: number;
-}
+type ChartType = 'area' | 'line' | 'candle';
+
+const CHART_TYPES: { id: ChartType; label: string; icon: React.ElementType }[] = [
+    { id: 'area', label: 'Area', icon: ChartArea },
+    { id: 'line', label: 'Line', icon: ChartLine },
+    { id: 'candle', label: 'Candles', icon: ChartCandlestick },
+];
 
-const PERIODS = ['1W', '1M', '3M', '6M', '1Y'];
+const UP_COLOR = '#10B981';
+const DOWN_COLOR = '#F43F5E';
+
+const ACTION_STYLE: Record<CorporateActionType, { letter: string; color: string }> = {
+    SPLIT: { letter: 'S', color: '#A78BFA' },
+    BONUS: { letter: 'B', color: '#60A5FA' },
+    DIVIDEND: { letter: 'D', color: '#FBBF24' },
+};
 
 const CHART_COLORS = [
     { name: 'Emerald', value: '#10B981' },
@@ -33,127 +62,108 @@ const CHART_COLORS = [
     { name: 'Rose', value: '#F43F5E' },
 ];
 
-// --- Mock WebSocket Class for Simulation ---
-class MockWebSocket {
-    url: string;
-    onopen: (() => void) | null = null;
-    onmessage: ((event: { data: string }) => void) | null = null;
-    onclose: (() => void) | null = null;
-    private intervalId: NodeJS.Timeout | null = null;
-
-    constructor(url: string) {
-        this.url = url;
-        // Simulate network latency for connection (Reduced for speed)
-        setTimeout(() => {
-            if (this.onopen) this.onopen();
-            this.startStream();
-        }, 300);
-    }
-
-    private startStream() {
-        this.intervalId = setInterval(() => {
-            if (this.onmessage) {
-                // Simulate a price tick (random small percentage change)
-                const change = (Math.random() - 0.5) * 0.004; // +/- 0.2% volatility
-                const payload = JSON.stringify({ type: 'TICK', change });
-                this.onmessage({ data: payload });
-            }
-        }, 1000); // 1 tick per second
-    }
+// Links the crosshair of the price chart and the panes under it
+const CHART_SYNC_ID = 'visual-analysis';
+
+const historyRange = (item: HistoryItem) => item.range ?? presetRange(item.period);
+
+const hasOhlc = (point: any) => point.open != null && point.high != null && point.low != null;
+
+// Bar shape for a [low, high] range bar: wick across the range, body from open to close
+const CandleShape = (props: any) => {
+    const { x, y, width, height, payload } = props;
+    if (!payload || !hasOhlc(payload)) return null;
+    const { open, high, low, value: close } = payload;
+    const pxPerUnit = high > low ? height / (high - low) : 0;
+    const yOpen = y + (high - open) * pxPerUnit;
+    const yClose = y + (high - close) * pxPerUnit;
+    const color = close >= open ? UP_COLOR : DOWN_COLOR;
+    const bodyWidth = Math.max(1, width * 0.7);
+    const center = x + width / 2;
+    return (
+        <g>
+            <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+            <rect
+                x={center - bodyWidth / 2}
+                y={Math.min(yOpen, yClose)}
+                width={bodyWidth}
+                height={Math.max(1, Math.abs(yOpen - yClose))}
+                fill={color}
+                stroke={color}
+            />
+        </g>
+    );
+};
 
-    close() {
-        if (this.intervalId) clearInterval(this.intervalId);
-        if (this.onclose) this.onclose();
-    }
-}
+const PATTERN_COLOR: Record<PatternDirection, string> = {
+    bullish: UP_COLOR,
+    bearish: DOWN_COLOR,
+    neutral: '#9CA3AF',
+};
 
-// Technical Indicator Helper
-const enrichDataWithIndicators = (rawData: any[]) => {
-    if (!Array.isArray(rawData) || rawData.length === 0) return [];
-    
-    // Deep copy to avoid mutating original references immediately
-    const enriched = rawData.map(item => ({ ...item, value: Number(item.value) }));
-    
-    const rsiPeriod = 14;
-    const smaPeriod = 20;
-    
-    let avgGain = 0;
-    let avgLoss = 0;
+const LEVEL_COLOR: Record<LevelKind, string> = {
+    support: UP_COLOR,
+    resistance: DOWN_COLOR,
+};
 
-    for (let i = 0; i < enriched.length; i++) {
-        const current = enriched[i];
-        const price = current.value;
-        
-        // --- Calculate SMA (20) ---
-        if (i >= smaPeriod - 1) {
-            let sum = 0;
-            for (let j = 0; j < smaPeriod; j++) {
-                sum += enriched[i - j].value;
-            }
-            current.sma = sum / smaPeriod;
-        } else {
-            current.sma = null;
-        }
+// Shaded band for a support/resistance zone
+const ZoneShape = (props: any) => {
+    const { x, y, width, height, color, opacity, clipPath } = props;
+    if (x == null || y == null) return null;
+    return <rect x={x} y={y} width={width} height={Math.max(1, height)} fill={color} fillOpacity={opacity} clipPath={clipPath} />;
+};
 
-        // --- Calculate RSI (14) ---
-        if (i > 0) {
-            const prevPrice = enriched[i - 1].value;
-            const change = price - prevPrice;
-            const gain = change > 0 ? change : 0;
-            const loss = change < 0 ? Math.abs(change) : 0;
-
-            if (i <= rsiPeriod) {
-                // Simple Average for the first 'period'
-                avgGain += gain;
-                avgLoss += loss;
-                
-                if (i === rsiPeriod) {
-                    const firstAvgGain = avgGain / rsiPeriod;
-                    const firstAvgLoss = avgLoss / rsiPeriod;
-                    const rs = firstAvgLoss === 0 ? 100 : firstAvgGain / firstAvgLoss;
-                    current.rsi = 100 - (100 / (1 + rs));
-                    
-                    // Store for next iteration (Wilder's Smoothing)
-                    avgGain = firstAvgGain;
-                    avgLoss = firstAvgLoss;
-                } else {
-                    current.rsi = null;
-                }
-            } else {
-                // Wilder's Smoothing Method
-                avgGain = ((avgGain * (rsiPeriod - 1)) + gain) / rsiPeriod;
-                avgLoss = ((avgLoss * (rsiPeriod - 1)) + loss) / rsiPeriod;
-                
-                const rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
-                current.rsi = 100 - (100 / (1 + rs));
-            }
-        } else {
-            current.rsi = null;
-        }
-    }
-    return enriched;
+// Bars in view after jumping to a pattern from the full chart
+const PATTERN_WINDOW = 60;
+
+// Triangle just under a bar's low (bullish) or over its high (bearish/neutral), pointing at it
+const PatternMarker = (props: any) => {
+    const { cx, cy, below, color, title } = props;
+    if (cx == null || cy == null) return null;
+    const tip = below ? cy + 6 : cy - 6;
+    const base = below ? tip + 7 : tip - 7;
+    return (
+        <path d={`M${cx},${tip} L${cx - 4.5},${base} L${cx + 4.5},${base} Z`} fill={color} fillOpacity={0.9}>
+            <title>{title}</title>
+        </path>
+    );
 };
 
 export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, onNavigateToChat }) => {
   const [symbol, setSymbol] = useState(initialSymbol || '');
   
-  // Lazy initialization for period from URL or localStorage
-  const [period, setPeriod] = useState(() => {
+  // Lazy initialization for the range from URL or localStorage ('chart_period' is the pre-range key)
+  const [range, setRange] = useState<ChartRange>(() => {
       if (typeof window !== 'undefined') {
-          const params = new URLSearchParams(window.location.search);
-          const p = params.get('period');
-          if (p && PERIODS.includes(p)) return p;
+          const fromUrl = rangeFromParams(new URLSearchParams(window.location.search));
+          if (fromUrl) return fromUrl;
 
-          const saved = localStorage.getItem('chart_period');
-          return (saved && PERIODS.includes(saved)) ? saved : '1M';
+          return parseStoredRange(localStorage.getItem('chart_range'))
+              ?? parseStoredRange(localStorage.getItem('chart_period'))
+              ?? presetRange('1M');
       }
-      return '1M';
+      return presetRange('1M');
   });
 
+  // Custom range picker
+  const [showCustomRange, setShowCustomRange] = useState(false);
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+
   const [data, setData] = useState<any[]>([]);
+  // Latest data for effects that only need it when they (re)start, e.g. live feed anchors
+  const dataRef = useRef(data);
+  dataRef.current = data;
   const [loading, setLoading] = useState(false);
   const [searchedSymbol, setSearchedSymbol] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AIError | null>(null);
+  // Series on the chart whose prices came from the AI fallback rather than market data
+  const [estimatedSeries, setEstimatedSeries] = useState<string[]>([]);
+  // Splits/bonuses/dividends of the main symbol inside the chart, and whether prices were adjusted for them
+  const [corporateActions, setCorporateActions] = useState<CorporateAction[]>([]);
+  const [adjustmentApplied, setAdjustmentApplied] = useState(false);
+  // A new search supersedes whatever was still loading
+  const request = useAbortableRequest();
   
   // Lazy initialization for chartColor from URL or localStorage
   const [chartColor, setChartColor] = useState(() => {
@@ -168,6 +178,65 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
   });
   
   const [showColorPicker, setShowColorPicker] = useState(false);
+
+  // Chart type, from URL or localStorage like the other chart preferences
+  const [chartType, setChartType] = useState<ChartType>(() => {
+      if (typeof window !== 'undefined') {
+          const isChartType = (t: string | null): t is ChartType => CHART_TYPES.some(c => c.id === t);
+          const t = new URLSearchParams(window.location.search).get('chart');
+          if (isChartType(t)) return t;
+
+          const saved = localStorage.getItem('chart_type');
+          return isChartType(saved) ? saved : 'area';
+      }
+      return 'area';
+  });
+  
+  // Adjusted (default) vs as-traded prices, from URL or localStorage
+  const [adjusted, setAdjusted] = useState(() => {
+      if (typeof window !== 'undefined') {
+          const a = new URLSearchParams(window.location.search).get('adjusted');
+          if (a === '0' || a === '1') return a === '1';
+          return localStorage.getItem('chart_adjusted') !== 'false';
+      }
+      return true;
+  });
+  
+  // Technical indicators on the chart, from URL ('ind', see encodeIndicators) or localStorage
+  const [indicators, setIndicators] = useState<IndicatorConfig[]>(() => {
+      if (typeof window !== 'undefined') {
+          const fromUrl = new URLSearchParams(window.location.search).get('ind');
+          if (fromUrl !== null) return parseIndicators(fromUrl);
+
+          const saved = localStorage.getItem('chart_indicators');
+          if (saved !== null) return parseIndicators(saved);
+      }
+      return DEFAULT_INDICATORS;
+  });
+
+  // Support/resistance zones and trendlines on the chart
+  const [showLevels, setShowLevels] = useState(() => {
+      if (typeof window !== 'undefined') {
+          return localStorage.getItem('chart_show_levels') !== 'false';
+      }
+      return true;
+  });
+
+  // Candlestick pattern markers on the chart
+  const [showPatterns, setShowPatterns] = useState(() => {
+      if (typeof window !== 'undefined') {
+          return localStorage.getItem('chart_show_patterns') !== 'false';
+      }
+      return true;
+  });
+
+  // Daily charts: compress weekends/holidays out of the x-axis (default) or show calendar gaps
+  const [skipNonTradingDays, setSkipNonTradingDays] = useState(() => {
+      if (typeof window !== 'undefined') {
+          return localStorage.getItem('chart_skip_non_trading_days') !== 'false';
+      }
+      return true;
+  });
   
   // Comparison State
   const [comparisons, setComparisons] = useState<string[]>([]);
@@ -187,22 +256,31 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
   const [showAlertInput, setShowAlertInput] = useState(false);
   const [newAlertPrice, setNewAlertPrice] = useState('');
   const [triggeredAlert, setTriggeredAlert] = useState<PriceAlert | null>(null);
-  const [activeTab, setActiveTab] = useState<'HISTORY' | 'ALERTS'>('HISTORY');
+  const [activeTab, setActiveTab] = useState<'HISTORY' | 'ALERTS' | 'PATTERNS'>('HISTORY');
 
   // Live Stream State
   const [isLive, setIsLive] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<'DISCONNECTED' | 'CONNECTING' | 'CONNECTED'>('DISCONNECTED');
-  const socketRef = useRef<MockWebSocket | null>(null);
+  const marketStatus = useMarketStatus();
+  // Outside session hours there's nothing to stream, so live mode waits for the open
+  const marketClosed = marketStatus.phase === 'CLOSED';
+  const [connectionStatus, setConnectionStatus] = useState<'DISCONNECTED' | 'CONNECTING' | 'RECONNECTING' | 'CONNECTED'>('DISCONNECTED');
 
   // Share UI State
   const [showShareToast, setShowShareToast] = useState(false);
 
+  // Drawings for the symbol on screen (see chartDrawings.ts), the tool being drawn with and the
+  // drawing clicked last
+  const [drawings, setDrawings] = useState<Drawing[]>([]);
+  const [drawingTool, setDrawingTool] = useState<DrawingType | null>(null);
+  const [selectedDrawing, setSelectedDrawing] = useState<string | null>(null);
+
+  // Bars selected with the Brush (indexes into chartData); null shows them all
+  const [brushRange, setBrushRange] = useState<{ startIndex: number; endIndex: number } | null>(null);
+
   // --- Persist User Preferences ---
   useEffect(() => {
-    if (period) {
-        localStorage.setItem('chart_period', period);
-    }
-  }, [period]);
+    localStorage.setItem('chart_range', JSON.stringify(range));
+  }, [range]);
 
   useEffect(() => {
     if (chartColor) {
@@ -210,6 +288,41 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
     }
   }, [chartColor]);
 
+  useEffect(() => {
+    localStorage.setItem('chart_type', chartType);
+  }, [chartType]);
+
+  useEffect(() => {
+    localStorage.setItem('chart_adjusted', String(adjusted));
+  }, [adjusted]);
+
+  useEffect(() => {
+    localStorage.setItem('chart_skip_non_trading_days', String(skipNonTradingDays));
+  }, [skipNonTradingDays]);
+
+  useEffect(() => {
+    localStorage.setItem('chart_indicators', encodeIndicators(indicators));
+  }, [indicators]);
+
+  useEffect(() => {
+    localStorage.setItem('chart_show_patterns', String(showPatterns));
+  }, [showPatterns]);
+
+  useEffect(() => {
+    localStorage.setItem('chart_show_levels', String(showLevels));
+  }, [showLevels]);
+
+  useEffect(() => {
+    setDrawings(searchedSymbol ? loadDrawings(searchedSymbol) : []);
+    setDrawingTool(null);
+    setSelectedDrawing(null);
+  }, [searchedSymbol]);
+
+  // A new series starts fully in view
+  useEffect(() => {
+    setBrushRange(null);
+  }, [searchedSymbol, range, comparisons, isLive, skipNonTradingDays]);
+
   // Load History & Alerts
   useEffect(() => {
     // Load history
@@ -218,10 +331,12 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
         try { setHistory(JSON.parse(savedHistory)); } catch (e) { console.error(e); }
     }
     // Load alerts
-    const savedAlerts = localStorage.getItem('price_alerts');
-    if (savedAlerts) {
-        try { setAlerts(JSON.parse(savedAlerts)); } catch (e) { console.error(e); }
-    }
+    setAlerts(loadPriceAlerts());
+    // Entries saved under a typed name ("Reliance") are re-keyed once the symbol master is in
+    loadSymbolMaster().then(() => {
+        setHistory(prev => prev.map(item => ({ ...item, symbol: resolveSymbol(item.symbol) })));
+        setAlerts(loadPriceAlerts());
+    });
     
     // Check URL for comparisons on mount
     const params = new URLSearchParams(window.location.search);
@@ -229,8 +344,31 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
     if (comps) {
         setComparisons(comps.split(','));
     }
+
+    // Shared drawings join the ones saved for that symbol, before its chart loads. The param is
+    // then dropped so a later mount (or a reload) doesn't bring back drawings since deleted.
+    const sharedDrawings = params.get('draw');
+    const sharedSymbol = params.get('symbol');
+    if (sharedDrawings && sharedSymbol) {
+        mergeDrawings(sharedSymbol, parseDrawings(sharedDrawings));
+    }
+    if (sharedDrawings !== null) {
+        const url = new URL(window.location.href);
+        url.searchParams.delete('draw');
+        window.history.replaceState(window.history.state, '', url.toString());
+    }
   }, []);
 
+  // Alerts and watchlist can also change from Market Chat tools
+  useEffect(() => {
+      const handleStorage = () => {
+          setAlerts(loadPriceAlerts());
+          checkWatchlist(searchedSymbol);
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+  }, [searchedSymbol]);
+
   // Handle Initial Props / URL Logic
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
@@ -242,7 +380,7 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
     
     if (target) {
         setSymbol(target);
-        fetchAllData(target, comps || [], period);
+        fetchAllData(target, comps || [], range);
         checkWatchlist(target);
     }
   }, [initialSymbol]);
@@ -263,63 +401,53 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
       }
   }, [data, searchedSymbol, alerts]);
 
-  // WebSocket Live Stream Handling
+  // Live quotes: every charted symbol is subscribed on the shared quote stream. Ticks within
+  // the same second update the last point; otherwise a new point is appended.
   useEffect(() => {
-      if (isLive) {
-          setConnectionStatus('CONNECTING');
-          const ws = new MockWebSocket('wss://stream.stocksage.ai/feed');
-          
-          ws.onopen = () => {
-            setConnectionStatus('CONNECTED');
-          };
-
-          ws.onmessage = (event) => {
-            const { change } = JSON.parse(event.data);
-            
-            setData(prevData => {
-                if (prevData.length === 0) return prevData;
-                
-                const lastItem = prevData[prevData.length - 1];
-                const lastPrice = Number(lastItem.value);
-                const newPrice = lastPrice * (1 + change);
-                
-                const newPoint: any = {
-                    date: new Date().toISOString(),
-                    value: Number(newPrice.toFixed(2))
-                };
-
-                // Update Comparisons with same volatility simulation
-                comparisons.forEach(comp => {
-                    if (lastItem[comp]) {
-                        const compLastPrice = Number(lastItem[comp]);
-                        const compChange = (Math.random() - 0.5) * 0.004;
-                        newPoint[comp] = Number((compLastPrice * (1 + compChange)).toFixed(2));
-                    }
-                });
-                
-                // Sliding Window: Keep last 100 points to prevent chart compression
-                const newData = [...prevData, newPoint];
-                if (newData.length > 100) newData.shift();
-                
-                return enrichDataWithIndicators(newData);
-            });
-          };
-
-          socketRef.current = ws;
-      } else {
-          if (socketRef.current) {
-              socketRef.current.close();
-              socketRef.current = null;
-          }
+      if (!isLive || !searchedSymbol || marketClosed) {
           setConnectionStatus('DISCONNECTED');
+          return;
       }
 
+      const stream = getQuoteStream();
+      const toConnectionStatus = (status: QuoteStreamStatus) =>
+          status === 'open' ? 'CONNECTED' : status === 'closed' ? 'DISCONNECTED' : status === 'reconnecting' ? 'RECONNECTING' : 'CONNECTING';
+      const stopStatus = stream.onStatus(status => setConnectionStatus(toConnectionStatus(status)));
+
+      const main = searchedSymbol.toUpperCase();
+      const handleTick = (tick: QuoteTick) => {
+          const key = tick.symbol === main ? 'value' : tick.symbol;
+          setData(prevData => {
+              if (prevData.length === 0) return prevData;
+              const lastItem = prevData[prevData.length - 1];
+              const sameSecond = Math.floor(new Date(lastItem.date).getTime() / 1000) === Math.floor(tick.time / 1000);
+
+              let newData: any[];
+              if (sameSecond) {
+                  newData = [...prevData.slice(0, -1), { ...lastItem, [key]: tick.price }];
+              } else {
+                  // Carry the other series forward; a tick is a single price, not a bar
+                  const { open, high, low, volume, ...carried } = lastItem;
+                  newData = [...prevData, { ...carried, date: new Date(tick.time).toISOString(), [key]: tick.price }];
+              }
+
+              // Sliding Window: Keep last 100 points to prevent chart compression
+              if (newData.length > 100) newData.shift();
+
+              return newData;
+          });
+      };
+
+      // Simulated feeds start from the price on the chart
+      const lastPrice = (key: string) => [...dataRef.current].reverse().find(point => point[key] != null)?.[key];
+      const unsubscribers = [main, ...comparisons].map(symbol => stream.subscribe(symbol, handleTick, lastPrice(symbol === main ? 'value' : symbol)));
+      setConnectionStatus(toConnectionStatus(stream.getStatus()));
+
       return () => {
-          if (socketRef.current) {
-              socketRef.current.close();
-          }
+          unsubscribers.forEach(unsubscribe => unsubscribe());
+          stopStatus();
       };
-  }, [isLive, comparisons]);
+  }, [isLive, searchedSymbol, comparisons, marketClosed]);
 
   const handleColorChange = (color: string) => {
       setChartColor(color);
@@ -332,11 +460,17 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
     const url = new URL(window.location.origin + window.location.pathname);
     url.searchParams.set('view', 'VISUAL_ANALYSIS');
     url.searchParams.set('symbol', searchedSymbol);
-    url.searchParams.set('period', period);
+    setRangeParams(url.searchParams, range);
     url.searchParams.set('color', chartColor.replace('#', ''));
+    url.searchParams.set('chart', chartType);
+    if (!adjusted) url.searchParams.set('adjusted', '0');
+    url.searchParams.set('ind', encodeIndicators(indicators));
     if (comparisons.length > 0) {
         url.searchParams.set('comparisons', comparisons.join(','));
     }
+    if (drawings.length > 0) {
+        url.searchParams.set('draw', encodeDrawings(drawings));
+    }
 
     navigator.clipboard.writeText(url.toString()).then(() => {
         setShowShareToast(true);
@@ -344,21 +478,24 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
     });
   };
 
+  const updateDrawings = (next: Drawing[]) => {
+      setDrawings(next);
+      if (searchedSymbol) saveDrawings(searchedSymbol, next);
+  };
+
+  const changeDrawingTool = (tool: DrawingType | null) => {
+      setDrawingTool(tool);
+      setSelectedDrawing(null);
+  };
+
   const checkWatchlist = (sym: string) => {
-      const saved = localStorage.getItem('watchlist');
-      if (saved && sym) {
-          const list = JSON.parse(saved);
-          setIsWatchlisted(list.includes(sym.toUpperCase()));
-      } else {
-          setIsWatchlisted(false);
-      }
+      setIsWatchlisted(!!sym && loadWatchlist().includes(sym.toUpperCase()));
   };
 
   const toggleWatchlist = () => {
       if (!searchedSymbol) return;
       const term = searchedSymbol.toUpperCase();
-      const saved = localStorage.getItem('watchlist');
-      let list = saved ? JSON.parse(saved) : [];
+      let list = loadWatchlist();
       
       if (list.includes(term)) {
           list = list.filter((s: string) => s !== term);
@@ -367,15 +504,14 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
           list.push(term);
           setIsWatchlisted(true);
       }
-      localStorage.setItem('watchlist', JSON.stringify(list));
-      window.dispatchEvent(new Event("storage"));
+      saveWatchlist(list);
       checkWatchlist(term);
   };
 
-  const addToHistory = (sym: string, per: string, chartData: any[]) => {
-      const newItem: HistoryItem = { symbol: sym, period: per, data: chartData, timestamp: Date.now() };
+  const addToHistory = (sym: string, itemRange: ChartRange, chartData: any[], source: PriceSource) => {
+      const newItem: HistoryItem = { symbol: sym, period: itemRange.period, range: itemRange, data: chartData, timestamp: Date.now(), source };
       setHistory(prev => {
-          const filtered = prev.filter(item => !(item.symbol === sym && item.period === per));
+          const filtered = prev.filter(item => !(item.symbol === sym && rangeLabel(historyRange(item)) === rangeLabel(itemRange)));
           const updated = [newItem, ...filtered].slice(10);
           localStorage.setItem('visual_analysis_history', JSON.stringify(updated));
           return updated;
@@ -386,16 +522,8 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
       const price = parseFloat(newAlertPrice);
       if (!searchedSymbol || isNaN(price)) return;
 
-      const newAlert: PriceAlert = {
-          id: Date.now().toString(),
-          symbol: searchedSymbol.toUpperCase(),
-          targetPrice: price,
-          createdAt: Date.now()
-      };
-
-      const updated = [newAlert, ...alerts];
-      setAlerts(updated);
-      localStorage.setItem('price_alerts', JSON.stringify(updated));
+      addPriceAlert(searchedSymbol, price);
+      setAlerts(loadPriceAlerts());
       setNewAlertPrice('');
       setShowAlertInput(false);
       setActiveTab('ALERTS');
@@ -404,7 +532,7 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
   const removeAlert = (id: string) => {
       const updated = alerts.filter(a => a.id !== id);
       setAlerts(updated);
-      localStorage.setItem('price_alerts', JSON.stringify(updated));
+      savePriceAlerts(updated);
   };
 
   const deleteHistoryItem = (e: React.MouseEvent, index: number) => {
@@ -417,59 +545,46 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
   const loadHistoryItem = (item: HistoryItem) => {
       setSymbol(item.symbol);
       setSearchedSymbol(item.symbol);
-      setPeriod(item.period);
+      setRange(historyRange(item));
       setComparisons([]);
       setHiddenSeries([]);
       setIsLive(false); 
-      setData(enrichDataWithIndicators(item.data));
+      setData(item.data);
+      setEstimatedSeries(item.source === 'market' ? [] : [item.symbol]);
+      setCorporateActions([]);
+      setAdjustmentApplied(false);
       setError(null);
       checkWatchlist(item.symbol);
   };
 
-  const handleAddComparison = () => {
-      if (!compareInput.trim() || comparisons.includes(compareInput.toUpperCase()) || comparisons.length >= 2) return;
-      const newComparisons = [...comparisons, compareInput.toUpperCase()];
+  const handleAddComparison = (input: string = compareInput) => {
+      const comp = resolveSymbol(input);
+      if (!comp || comp === searchedSymbol || comparisons.includes(comp) || comparisons.length >= 2) return;
+      const newComparisons = [...comparisons, comp];
       setComparisons(newComparisons);
       setCompareInput('');
       setShowCompareInput(false);
       
-      fetchAllData(searchedSymbol, newComparisons, period);
+      fetchAllData(searchedSymbol, newComparisons, range);
   };
 
   const handleRemoveComparison = (compToRemove: string) => {
       const newComparisons = comparisons.filter(c => c !== compToRemove);
       setComparisons(newComparisons);
       setHiddenSeries(prev => prev.filter(s => s !== compToRemove));
-      fetchAllData(searchedSymbol, newComparisons, period);
+      fetchAllData(searchedSymbol, newComparisons, range);
   };
 
-  const fetchAllData = async (mainSym: string, compSyms: string[], currPeriod: string) => {
-    const term = mainSym.trim();
-    if (!term) return;
+  const fetchAllData = async (mainSym: string, compSyms: string[], currRange: ChartRange, adjust: boolean = adjusted) => {
+    if (!mainSym.trim()) return;
+    // Free text ("HDFC Bank") becomes the canonical ticker, so history and alerts share one key
+    await loadSymbolMaster();
+    const term = resolveSymbol(mainSym);
+    compSyms = compSyms.map(resolveSymbol);
     
-    // Check cache first for main symbol (if no comparisons to keep it simple or implement deeper cache logic)
-    if (compSyms.length === 0) {
-        const savedHistory = localStorage.getItem('visual_analysis_history');
-        if (savedHistory) {
-            const hist: HistoryItem[] = JSON.parse(savedHistory);
-            const cached = hist.find(h => h.symbol === term.toUpperCase() && h.period === currPeriod);
-            // Valid if less than 5 minutes old
-            if (cached && (Date.now() - cached.timestamp < 300000)) {
-                setSearchedSymbol(term);
-                setPeriod(currPeriod);
-                setData(enrichDataWithIndicators(cached.data));
-                setComparisons([]);
-                setHiddenSeries([]);
-                setIsLive(false);
-                setError(null);
-                checkWatchlist(term);
-                setLoading(false);
-                return;
-            }
-        }
-    }
-
+    setSymbol(term);
     setLoading(true);
+    const signal = request.start();
     setSearchedSymbol(term);
     setHiddenSeries([]); // Reset hidden series on new fetch
     setIsLive(false); 
@@ -477,22 +592,33 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
     checkWatchlist(term);
 
     try {
-        const mainResult = await getGraphData(term, currPeriod);
+        const mainResult = await getPriceHistory(term, currRange, adjust, signal);
+        if (signal.aborted) return;
         
-        if (!mainResult || !Array.isArray(mainResult) || mainResult.length === 0) {
-            setError("Unable to fetch data for the main symbol.");
+        if (mainResult.points.length === 0) {
+            setError(new AIError('UNKNOWN', `No price data came back for ${term}. Check the symbol (e.g. RELIANCE, TCS).`, { feature: 'graph' }));
             setData([]);
             setLoading(false);
             return;
         }
 
-        let mergedData = mainResult
+        const estimated = mainResult.source === 'ai-estimate' ? [mainResult.symbol] : [];
+        let mergedData = mainResult.points
             .filter(item => item.date && item.value !== undefined)
-            .map(item => ({ date: item.date, value: Number(item.value) }));
+            .map(item => ({ ...item, value: Number(item.value) }));
             
         if (compSyms && compSyms.length > 0) {
-            const comparisonPromises = compSyms.map(sym => getGraphData(sym, currPeriod));
-            const comparisonResults = await Promise.all(comparisonPromises);
+            // A bad comparison series shouldn't take down the main chart
+            const comparisonPromises = compSyms.map(sym => getPriceHistory(sym, currRange, adjust, signal).catch(err => {
+                console.warn(`Skipping comparison ${sym}:`, err);
+                return null;
+            }));
+            const comparisonHistories = await Promise.all(comparisonPromises);
+            if (signal.aborted) return;
+            comparisonHistories.forEach((res, idx) => {
+                if (res?.source === 'ai-estimate') estimated.push(compSyms[idx]);
+            });
+            const comparisonResults = comparisonHistories.map(res => res?.points ?? []);
             
             mergedData = mergedData.map(point => {
                 const newPoint: any = { ...point };
@@ -511,27 +637,70 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
         }
 
         const sorted = mergedData.sort((a: any, b: any) => new Date(a.date).getTime() - new Date(b.date).getTime());
-        const enrichedData = enrichDataWithIndicators(sorted);
-        
-        setData(enrichedData);
+        setData(sorted);
+        setEstimatedSeries(estimated);
+        setCorporateActions(mainResult.actions);
+        setAdjustmentApplied(mainResult.adjusted);
         if (!compSyms || compSyms.length === 0) {
-            addToHistory(term.toUpperCase(), currPeriod, enrichedData);
+            addToHistory(term.toUpperCase(), currRange, sorted, mainResult.source);
         }
 
     } catch (e) {
+        if (signal.aborted) return;
         console.error(e);
-        setError("Error analyzing market data.");
+        setData([]);
+        setError(toAIError(e, 'graph'));
     } finally {
-        setLoading(false);
+        if (!signal.aborted) setLoading(false);
     }
   };
 
-  const handleSearchWrapper = (overridePeriod?: string) => {
-      const p = overridePeriod || period;
-      if (overridePeriod) {
-          setPeriod(overridePeriod);
+  const handleSearchWrapper = (overrideRange?: ChartRange) => {
+      const r = overrideRange || range;
+      if (overrideRange) {
+          setRange(overrideRange);
       }
-      fetchAllData(symbol, comparisons, p);
+      fetchAllData(symbol, comparisons, r);
+  };
+
+  const openCustomRange = () => {
+      if (range.period === 'CUSTOM' && range.from && range.to) {
+          setCustomFrom(range.from);
+          setCustomTo(range.to);
+      } else {
+          // Start from the last month
+          const today = new Date();
+          setCustomTo(today.toISOString().slice(0, 10));
+          setCustomFrom(new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10));
+      }
+      setShowCustomRange(!showCustomRange);
+  };
+
+  const applyCustomRange = () => {
+      if (!customFrom || !customTo || customFrom > customTo) return;
+      setShowCustomRange(false);
+      handleSearchWrapper(withPeriod(range, 'CUSTOM', customFrom, customTo));
+  };
+
+  // Axis and tooltip dates: clock time for live and intraday bars, month/year once the span is long
+  const showTime = isLive || isIntraday(range.interval);
+  const longSpan = rangeDays(range) > 180;
+
+  const formatAxisDate = (val: string, withSeconds: boolean) => {
+      try {
+          const d = new Date(val);
+          if (isLive) {
+              return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: withSeconds ? '2-digit' : undefined });
+          }
+          if (showTime) {
+              const time = d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+              return range.period === '1D' ? time : `${d.getDate()}/${d.getMonth()+1} ${time}`;
+          }
+          if (longSpan) {
+              return d.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+          }
+          return `${d.getDate()}/${d.getMonth()+1}`;
+      } catch { return val; }
   };
 
   const formatTimeAgo = (timestamp: number) => {
@@ -549,6 +718,59 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
       return available[index % available.length].value;
   };
 
+  const symbolInfo = searchedSymbol ? findSymbol(searchedSymbol) : undefined;
+
+  // What's plotted: daily bars either without non-trading days or with blank calendar gaps
+  const isDaily = range.interval === '1d' && !isLive;
+  // Indicators are computed on the bars themselves, before calendar gaps are filled in
+  const withIndicators = useMemo(() => applyIndicators(data, indicators), [data, indicators]);
+  const chartData: any[] = useMemo(
+      () => !isDaily ? withIndicators : skipNonTradingDays ? dropNonTradingDays(withIndicators) : fillCalendarGaps(withIndicators),
+      [withIndicators, isDaily, skipNonTradingDays]
+  );
+  // The price chart and every pane show the same slice, so they share one x-axis
+  const brush = brushRange && brushRange.endIndex < chartData.length ? brushRange : { startIndex: 0, endIndex: Math.max(0, chartData.length - 1) };
+  const visibleData = chartData.slice(brush.startIndex, brush.endIndex + 1);
+  // Patterns in the bars themselves; live ticks aren't candles
+  const patterns = useMemo(() => isLive ? [] : detectCandlePatterns(data), [data, isLive]);
+  const patternsByDate = new Map<string, CandlePattern[]>();
+  patterns.forEach(pattern => patternsByDate.set(pattern.date, [...(patternsByDate.get(pattern.date) || []), pattern]));
+  // Levels are found on what's plotted, so trendlines stay straight across calendar gaps
+  const levels = useMemo(() => showLevels && !isLive ? findSupportResistance(chartData) : null, [chartData, showLevels, isLive]);
+  const overlays = indicators.filter(config => INDICATORS[config.type].placement === 'price');
+  const panes = indicators.filter(config => INDICATORS[config.type].placement === 'pane');
+
+  const toggleAdjusted = () => {
+      const next = !adjusted;
+      setAdjusted(next);
+      if (searchedSymbol) fetchAllData(searchedSymbol, comparisons, range, next);
+  };
+
+  // Moves the Brush so the bar is centred, keeping the current zoom (or PATTERN_WINDOW bars if
+  // the whole series is in view)
+  const jumpToDate = (date: string) => {
+      const index = chartData.findIndex(p => p.date === date);
+      if (index < 0) return;
+      const current = brush.endIndex - brush.startIndex + 1;
+      const width = Math.min(chartData.length, current >= chartData.length ? PATTERN_WINDOW : current);
+      const startIndex = Math.max(0, Math.min(chartData.length - width, index - Math.floor(width / 2)));
+      setBrushRange({ startIndex, endIndex: startIndex + width - 1 });
+  };
+
+  // Corporate actions pinned to the first bar on or after their ex-date, grouped per bar
+  const actionMarkers = new Map<string, CorporateAction[]>();
+  if (!isLive) {
+      corporateActions.forEach(action => {
+          const bar = chartData.find(p => String(p.date).slice(0, 10) >= action.date);
+          if (bar) actionMarkers.set(bar.date, [...(actionMarkers.get(bar.date) || []), action]);
+      });
+  }
+
+  // Candles need open/high/low; series with closes only (e.g. most AI estimates) fall back to a line
+  const canShowCandles = data.some(hasOhlc);
+  const showCandles = chartType === 'candle' && canShowCandles;
+  const hasVolume = data.some(p => p.volume != null);
+
   // Legend click handler to toggle series visibility
   const handleLegendClick = (e: any) => {
       const { value } = e;
@@ -559,11 +781,12 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
 
   // Custom Tooltip Component
   const CustomTooltip = ({ active, payload, label }: any) => {
-      if (active && payload && payload.length) {
+      // Calendar-gap placeholders have no prices
+      if (active && payload && payload.length && payload[0].payload.value != null) {
           const point = payload[0].payload;
           const dateStr = new Date(point.date).toLocaleDateString(undefined, { 
               weekday: 'short', year: 'numeric', month: 'long', day: 'numeric',
-              hour: isLive ? '2-digit' : undefined, minute: isLive ? '2-digit' : undefined, second: isLive ? '2-digit' : undefined
+              hour: showTime ? '2-digit' : undefined, minute: showTime ? '2-digit' : undefined, second: isLive ? '2-digit' : undefined
           });
 
           return (
@@ -576,6 +799,14 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
                         <p className="text-2xl font-bold text-white" style={{ color: chartColor }}>
                             ₹{Number(point.value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                         </p>
+                        {hasOhlc(point) && (
+                            <p className="text-xs text-gray-400 font-mono mt-1">
+                                O {point.open.toFixed(2)} H {point.high.toFixed(2)} L {point.low.toFixed(2)}
+                            </p>
+                        )}
+                        {point.volume != null && (
+                            <p className="text-xs text-gray-500 mt-0.5">Vol {Number(point.volume).toLocaleString('en-IN')}</p>
+                        )}
                       </div>
                   )}
 
@@ -593,22 +824,41 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
                       );
                   })}
                   
-                  <div className="grid grid-cols-2 gap-x-6 gap-y-2 text-xs border-t border-gray-700 pt-3 mt-2">
-                      <div className="flex flex-col">
-                          <span className="text-gray-500 uppercase tracking-wider font-bold text-[10px]">RSI (14)</span>
-                          <span className={`font-bold text-sm ${
-                              point.rsi >= 70 ? 'text-red-400' : point.rsi <= 30 ? 'text-green-400' : 'text-blue-300'
-                          }`}>
-                              {point.rsi ? point.rsi.toFixed(1) : 'N/A'}
-                          </span>
-                      </div>
-                      <div className="flex flex-col">
-                          <span className="text-gray-500 uppercase tracking-wider font-bold text-[10px]">SMA (20)</span>
-                          <span className="font-bold text-sm text-yellow-400">
-                              {point.sma ? `₹${point.sma.toFixed(2)}` : 'N/A'}
-                          </span>
+                  {actionMarkers.get(point.date)?.map(action => (
+                      <p key={action.type + action.date} className="text-xs font-medium mb-1" style={{ color: ACTION_STYLE[action.type].color }}>
+                          {action.label} (ex-date {action.date})
+                      </p>
+                  ))}
+
+                  {patternsByDate.get(point.date)?.map(pattern => (
+                      <p key={pattern.type} className="text-xs font-medium mb-1" style={{ color: PATTERN_COLOR[pattern.direction] }}>
+                          {pattern.label}
+                      </p>
+                  ))}
+
+                  {indicators.length > 0 && (
+                      <div className="grid grid-cols-2 gap-x-6 gap-y-2 text-xs border-t border-gray-700 pt-3 mt-2">
+                          {indicators.map(config => {
+                              const definition = INDICATORS[config.type];
+                              const values = definition.outputs
+                                  .map(output => ({ output, value: point[outputKey(config, output.key)] }))
+                                  .filter(({ value }) => value != null);
+                              return (
+                                  <div key={indicatorId(config)} className="flex flex-col">
+                                      <span className="text-gray-500 uppercase tracking-wider font-bold text-[10px]">{indicatorLabel(config)}</span>
+                                      {values.length === 0 ? (
+                                          <span className="font-bold text-sm text-gray-500">N/A</span>
+                                      ) : values.map(({ output, value }) => (
+                                          <span key={output.key} className="font-bold text-sm" style={{ color: output.color }}>
+                                              {definition.outputs.length > 1 && <span className="text-[10px] text-gray-500 mr-1">{output.label}</span>}
+                                              {formatIndicatorValue(value)}
+                                          </span>
+                                      ))}
+                                  </div>
+                              );
+                          })}
                       </div>
-                  </div>
+                  )}
               </div>
           );
       }
@@ -638,18 +888,22 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
           </div>
       )}
 
-      <h2 className="text-2xl font-bold mb-6 flex items-center gap-2 text-green-400">
-        <BarChart2 /> Visual Analysis
-      </h2>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <h2 className="text-2xl font-bold flex items-center gap-2 text-green-400">
+          <BarChart2 /> Visual Analysis
+        </h2>
+        <MarketStatusBadge status={marketStatus} />
+      </div>
 
       <div className="flex flex-col md:flex-row gap-4 mb-6">
         <div className="flex-1 flex gap-2">
-            <input 
+            <SymbolInput
             value={symbol}
-            onChange={(e) => setSymbol(e.target.value)}
-            placeholder="Enter Stock Symbol (e.g., RELIANCE)"
+            onChange={setSymbol}
+            onSubmit={(sym) => fetchAllData(sym, comparisons, range)}
+            placeholder="Enter Stock Symbol or Company (e.g., RELIANCE, Infosys)"
+            containerClassName="flex-1"
             className="bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 flex-1 text-lg focus:ring-2 focus:ring-green-500 outline-none w-full"
-            onKeyDown={(e) => e.key === 'Enter' && handleSearchWrapper()}
             />
             <button 
             onClick={() => handleSearchWrapper()}
@@ -677,8 +931,9 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
                         <div className="flex items-center gap-3">
                             <h3 className="text-xl font-bold text-gray-100 flex items-center gap-2">
                                 {searchedSymbol.toUpperCase()}
+                                {symbolInfo && <span className="text-sm font-normal text-gray-400">{symbolInfo.name} · {symbolInfo.exchange}</span>}
                                 {isLive && connectionStatus === 'CONNECTED' && <span className="flex h-2 w-2 relative"><span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span><span className="relative inline-flex rounded-full h-2 w-2 bg-red-500"></span></span>}
-                                {isLive && connectionStatus === 'CONNECTING' && <span className="flex h-2 w-2 relative"><span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-yellow-400 opacity-75"></span><span className="relative inline-flex rounded-full h-2 w-2 bg-yellow-500"></span></span>}
+                                {isLive && (connectionStatus === 'CONNECTING' || connectionStatus === 'RECONNECTING') && <span className="flex h-2 w-2 relative"><span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-yellow-400 opacity-75"></span><span className="relative inline-flex rounded-full h-2 w-2 bg-yellow-500"></span></span>}
                             </h3>
                             {/* Buy / Sell Action Buttons */}
                             {onNavigateToChat && (
@@ -710,29 +965,153 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
                             </div>
                         )}
                         <p className="text-sm text-gray-400">
-                             {isLive ? (connectionStatus === 'CONNECTING' ? 'Connecting to Stream...' : 'Live Stream') : `Historical Performance (${period})`}
+                             {isLive ? (marketClosed ? 'Market closed · live updates paused until the open' : connectionStatus === 'CONNECTING' ? 'Connecting to Stream...' : connectionStatus === 'RECONNECTING' ? 'Reconnecting to Stream...' : 'Live Stream') : `Historical Performance (${rangeLabel(range)})`}
+                             {chartType === 'candle' && !canShowCandles && <span className="text-xs text-gray-500"> · closing prices only, shown as a line</span>}
+                             {adjustmentApplied && !isLive && <span className="text-xs text-gray-500"> · adjusted for corporate actions</span>}
                         </p>
+                        {estimatedSeries.length > 0 ? (
+                            <span
+                                className="self-start text-xs px-2 py-0.5 rounded flex items-center gap-1 bg-amber-900/30 border border-amber-700 text-amber-300"
+                                title="No market data was available, so these prices were generated by the AI model and may be inaccurate."
+                            >
+                                <Sparkles size={12} /> AI estimate{comparisons.length > 0 ? `: ${estimatedSeries.join(', ')}` : ''} · not exchange data
+                            </span>
+                        ) : (
+                            <span className="self-start text-xs px-2 py-0.5 rounded flex items-center gap-1 bg-gray-900 border border-gray-700 text-gray-400">
+                                <Database size={12} /> Market data
+                            </span>
+                        )}
                     </div>
                     
                     <div className="flex flex-wrap items-center gap-2 md:gap-4">
                         <div className="flex bg-gray-900 rounded-lg p-1 border border-gray-700">
-                            {PERIODS.map((p) => (
+                            {CHART_TYPES.map(({ id, label, icon: Icon }) => (
+                                <button
+                                    key={id}
+                                    onClick={() => setChartType(id)}
+                                    className={`p-1.5 rounded-md transition-all ${chartType === id ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white hover:bg-gray-700'}`}
+                                    title={id === 'candle' && !canShowCandles ? 'Candles need open/high/low data, which this series does not have' : label}
+                                >
+                                    <Icon size={16} />
+                                </button>
+                            ))}
+                        </div>
+
+                        {isDaily && (
+                            <button
+                                onClick={() => setSkipNonTradingDays(!skipNonTradingDays)}
+                                className="p-2 rounded-lg border bg-gray-900 border-gray-700 text-gray-400 hover:text-white transition-all"
+                                title={skipNonTradingDays ? 'Weekends and holidays are skipped. Click to show calendar gaps.' : 'Showing calendar gaps. Click to skip weekends and holidays.'}
+                            >
+                                {skipNonTradingDays ? <CalendarOff size={16} /> : <CalendarDays size={16} />}
+                            </button>
+                        )}
+
+                        <button
+                            onClick={toggleAdjusted}
+                            disabled={isLive}
+                            className={`px-2.5 py-1.5 rounded-lg border text-xs font-bold transition-all disabled:opacity-30 ${adjusted ? 'bg-gray-700 border-gray-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:text-white'}`}
+                            title={adjusted ? 'Prices adjusted for splits, bonuses and dividends. Click for prices as traded.' : 'Prices as traded. Click to adjust for splits, bonuses and dividends.'}
+                        >
+                            {adjusted ? 'ADJ' : 'RAW'}
+                        </button>
+
+                        <button
+                            onClick={() => setShowPatterns(!showPatterns)}
+                            disabled={isLive || !canShowCandles}
+                            className={`p-2 rounded-lg border transition-all disabled:opacity-30 ${showPatterns ? 'bg-gray-700 border-gray-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:text-white'}`}
+                            title={!canShowCandles ? 'Candlestick patterns need open/high/low data' : showPatterns ? 'Hide candlestick pattern markers' : 'Show candlestick pattern markers'}
+                        >
+                            <ScanSearch size={16} />
+                        </button>
+
+                        <button
+                            onClick={() => setShowLevels(!showLevels)}
+                            disabled={isLive}
+                            className={`p-2 rounded-lg border transition-all disabled:opacity-30 ${showLevels ? 'bg-gray-700 border-gray-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:text-white'}`}
+                            title={showLevels ? 'Hide support/resistance zones and trendlines' : 'Show support/resistance zones and trendlines'}
+                        >
+                            <TrendingUpDown size={16} />
+                        </button>
+
+                        <div className="relative flex flex-wrap bg-gray-900 rounded-lg p-1 border border-gray-700">
+                            {PRESET_PERIODS.map((p) => (
                                 <button
                                     key={p}
-                                    onClick={() => handleSearchWrapper(p)}
+                                    onClick={() => handleSearchWrapper(withPeriod(range, p))}
                                     disabled={isLive}
-                                    className={`px-3 py-1 rounded-md text-sm font-medium transition-all ${
-                                        period === p 
+                                    className={`px-2.5 py-1 rounded-md text-sm font-medium transition-all ${
+                                        range.period === p 
                                         ? 'bg-gray-700 text-white shadow-md border border-gray-500' 
                                         : 'text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30'
                                     }`}
-                                    style={period === p && !isLive ? { backgroundColor: chartColor, borderColor: chartColor } : {}}
+                                    style={range.period === p && !isLive ? { backgroundColor: chartColor, borderColor: chartColor } : {}}
                                 >
                                     {p}
                                 </button>
                             ))}
+                            <button
+                                onClick={openCustomRange}
+                                disabled={isLive}
+                                className={`px-2.5 py-1 rounded-md transition-all ${
+                                    range.period === 'CUSTOM'
+                                    ? 'bg-gray-700 text-white shadow-md border border-gray-500'
+                                    : 'text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30'
+                                }`}
+                                style={range.period === 'CUSTOM' && !isLive ? { backgroundColor: chartColor, borderColor: chartColor } : {}}
+                                title="Custom date range"
+                            >
+                                <CalendarRange size={16} />
+                            </button>
+
+                            {showCustomRange && (
+                                <div className="absolute top-12 right-0 bg-gray-900 border border-gray-700 p-3 rounded-lg shadow-xl z-50 flex flex-col gap-2 animate-fade-in">
+                                    <label className="text-xs text-gray-400 flex items-center justify-between gap-3">
+                                        From
+                                        <input type="date" value={customFrom} max={customTo || undefined} onChange={(e) => setCustomFrom(e.target.value)}
+                                            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white" />
+                                    </label>
+                                    <label className="text-xs text-gray-400 flex items-center justify-between gap-3">
+                                        To
+                                        <input type="date" value={customTo} min={customFrom || undefined} onChange={(e) => setCustomTo(e.target.value)}
+                                            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white" />
+                                    </label>
+                                    <button
+                                        onClick={applyCustomRange}
+                                        disabled={!customFrom || !customTo || customFrom > customTo}
+                                        className="bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white text-sm rounded px-3 py-1"
+                                    >
+                                        Apply
+                                    </button>
+                                </div>
+                            )}
                         </div>
 
+                        {/* Bar granularity, limited to what makes sense for the span */}
+                        <select
+                            value={range.interval}
+                            onChange={(e) => handleSearchWrapper({ ...range, interval: e.target.value as BarInterval })}
+                            disabled={isLive}
+                            className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-300 focus:outline-none focus:border-gray-500 disabled:opacity-30"
+                            title="Bar interval"
+                        >
+                            {allowedIntervals(range).map(id => (
+                                <option key={id} value={id}>{BAR_INTERVALS.find(i => i.id === id)?.label}</option>
+                            ))}
+                        </select>
+
+                        <DrawingToolbar
+                            tool={drawingTool}
+                            onToolChange={changeDrawingTool}
+                            count={drawings.length}
+                            hasSelection={selectedDrawing !== null}
+                            onDeleteSelected={() => { updateDrawings(drawings.filter(d => d.id !== selectedDrawing)); setSelectedDrawing(null); }}
+                            onClear={() => { updateDrawings([]); setSelectedDrawing(null); }}
+                            disabled={isLive || data.length === 0}
+                        />
+
+                        <IndicatorPicker indicators={indicators} onChange={setIndicators} />
+
                         <div className="flex gap-2">
                             <button
                                 onClick={handleShare}
@@ -765,14 +1144,17 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
                                 </button>
                                 {showCompareInput && (
                                     <div className="absolute top-full right-0 mt-2 bg-gray-900 border border-gray-600 rounded-lg p-3 shadow-xl z-30 w-56 flex gap-2">
-                                        <input 
+                                        <SymbolInput
                                             value={compareInput}
-                                            onChange={(e) => setCompareInput(e.target.value)}
+                                            onChange={setCompareInput}
+                                            onSubmit={handleAddComparison}
                                             placeholder="Symbol"
+                                            containerClassName="flex-1"
                                             className="w-full bg-gray-800 border border-gray-700 rounded p-1 text-sm text-white focus:outline-none"
+                                            autoFocus
                                         />
                                         <button 
-                                            onClick={handleAddComparison}
+                                            onClick={() => handleAddComparison()}
                                             className="bg-blue-600 hover:bg-blue-700 text-white rounded px-2"
                                         >
                                             <Plus size={16} />
@@ -855,14 +1237,14 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
 
             <div className="flex-1 min-h-[300px] relative w-full">
                 {error ? (
-                <div className="absolute inset-0 flex flex-col items-center justify-center text-red-400 gap-2">
-                    <AlertCircle size={32} />
-                    <p>{error}</p>
-                    <p className="text-sm text-gray-500">Please try again or use a different symbol.</p>
+                <div className="absolute inset-0 flex items-center justify-center">
+                    <div className="max-w-md w-full">
+                        <AIErrorNotice error={error} onRetry={() => handleSearchWrapper()} />
+                    </div>
                 </div>
                 ) : data.length > 0 ? (
                     <ResponsiveContainer width="100%" height="100%">
-                    <AreaChart data={data} margin={{ top: 20, right: 30, left: 0, bottom: 0 }}>
+                    <ComposedChart data={visibleData} syncId={CHART_SYNC_ID} margin={{ top: 20, right: 30, left: 0, bottom: 0 }}>
                         <defs>
                         <linearGradient id="colorValue" x1="0" y1="0" x2="0" y2="1">
                             <stop offset="5%" stopColor={chartColor} stopOpacity={0.8}/>
@@ -892,18 +1274,7 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
                             dataKey="date" 
                             stroke="#9CA3AF" 
                             minTickGap={30}
-                            tickFormatter={(val) => {
-                                try {
-                                    const d = new Date(val);
-                                    if (isLive) {
-                                        return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
-                                    }
-                                    if (period === '1Y') {
-                                        return d.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
-                                    }
-                                    return `${d.getDate()}/${d.getMonth()+1}`;
-                                } catch { return val; }
-                            }}
+                            tickFormatter={(val) => formatAxisDate(val, true)}
                         />
                         <YAxis 
                             stroke="#9CA3AF" 
@@ -915,7 +1286,17 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
                         
                         <Tooltip content={<CustomTooltip />} cursor={{ stroke: chartColor, strokeWidth: 1, strokeDasharray: '4 4' }} />
                         
-                        {/* Main Stock Area */}
+                        {/* Main Stock Series */}
+                        {showCandles ? (
+                            <Bar
+                                name={searchedSymbol.toUpperCase()}
+                                dataKey={(point: any) => hasOhlc(point) ? [point.low, point.high] : null}
+                                fill={chartColor}
+                                shape={<CandleShape />}
+                                isAnimationActive={false}
+                                hide={hiddenSeries.includes(searchedSymbol.toUpperCase())}
+                            />
+                        ) : chartType === 'area' ? (
                         <Area 
                             name={searchedSymbol.toUpperCase()}
                             type="monotone" 
@@ -929,9 +1310,21 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
                             animationEasing="ease-in-out"
                             hide={hiddenSeries.includes(searchedSymbol.toUpperCase())}
                         />
+                        ) : (
+                            <Line
+                                name={searchedSymbol.toUpperCase()}
+                                type="monotone"
+                                dataKey="value"
+                                stroke={chartColor}
+                                strokeWidth={3}
+                                dot={false}
+                                isAnimationActive={!isLive}
+                                hide={hiddenSeries.includes(searchedSymbol.toUpperCase())}
+                            />
+                        )}
                         
                         {/* Comparison Lines */}
-                        {comparisons.map((comp, idx) => (
+                        {comparisons.map((comp, idx) => chartType === 'area' ? (
                              <Area 
                                 key={comp}
                                 name={comp.toUpperCase()}
@@ -946,22 +1339,120 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
                                 animationEasing="ease-in-out"
                                 hide={hiddenSeries.includes(comp.toUpperCase())}
                             />
+                        ) : (
+                            <Line
+                                key={comp}
+                                name={comp.toUpperCase()}
+                                type="monotone"
+                                dataKey={comp}
+                                stroke={getComparisonColor(idx)}
+                                strokeWidth={2}
+                                dot={false}
+                                isAnimationActive={!isLive}
+                                hide={hiddenSeries.includes(comp.toUpperCase())}
+                            />
                         ))}
 
-                        <Brush 
-                            dataKey="date" 
-                            height={30} 
-                            stroke={chartColor} 
-                            fill="#1F2937"
-                            tickFormatter={(val) => {
-                                 try {
-                                    const d = new Date(val);
-                                    if(isLive) return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-                                    return `${d.getDate()}/${d.getMonth()+1}`;
-                                } catch { return ""; }
-                            }}
-                        />
-                    </AreaChart>
+                        {/* Indicator overlays on the price axis */}
+                        {overlays.flatMap(config => INDICATORS[config.type].outputs.map((output, idx) => (
+                            <Line
+                                key={outputKey(config, output.key)}
+                                // One legend entry per indicator, toggling all of its lines
+                                name={indicatorLabel(config)}
+                                legendType={idx === 0 ? 'line' : 'none'}
+                                type="monotone"
+                                dataKey={outputKey(config, output.key)}
+                                stroke={output.color}
+                                strokeWidth={1.5}
+                                strokeDasharray={config.type === 'BB' && output.key !== 'middle' ? '4 3' : undefined}
+                                dot={false}
+                                isAnimationActive={false}
+                                hide={hiddenSeries.includes(indicatorLabel(config))}
+                            />
+                        )))}
+
+                        {/* Corporate action markers */}
+                        {[...actionMarkers].map(([date, actions]) => (
+                            <ReferenceLine
+                                key={date}
+                                x={date}
+                                stroke={ACTION_STYLE[actions[0].type].color}
+                                strokeDasharray="2 3"
+                                strokeOpacity={0.7}
+                                label={{ value: actions.map(a => ACTION_STYLE[a.type].letter).join(''), position: 'insideTopLeft', fill: ACTION_STYLE[actions[0].type].color, fontSize: 11, fontWeight: 700 }}
+                            />
+                        ))}
+
+                        {/* Support/resistance zones, shaded by strength (touches) */}
+                        {levels?.zones.map(zone => (
+                            <React.Fragment key={`${zone.kind}-${zone.low}`}>
+                            <ReferenceArea
+                                y1={zone.low}
+                                y2={zone.high}
+                                ifOverflow="hidden"
+                                shape={<ZoneShape color={LEVEL_COLOR[zone.kind]} opacity={0.06 + 0.14 * zone.strength} />}
+                                label={{ value: `${zone.kind === 'support' ? 'S' : 'R'} ×${zone.touches}`, position: 'insideLeft' as const, fill: LEVEL_COLOR[zone.kind], fontSize: 10, fontWeight: 700 }}
+                            />
+                            </React.Fragment>
+                        ))}
+
+                        {/* Trendlines, from their first anchor (or the left edge) to the last bar in view */}
+                        {levels?.trendlines.map(line => {
+                            const from = Math.max(line.startIndex, brush.startIndex);
+                            const to = brush.endIndex;
+                            if (from >= to) return null;
+                            return (
+                                <ReferenceLine
+                                    key={line.kind}
+                                    segment={[
+                                        { x: chartData[from].date, y: trendlinePrice(line, from) },
+                                        { x: chartData[to].date, y: trendlinePrice(line, to) },
+                                    ]}
+                                    ifOverflow="hidden"
+                                    stroke={LEVEL_COLOR[line.kind]}
+                                    strokeWidth={1 + line.strength}
+                                    strokeOpacity={0.8}
+                                    label={{ value: `${line.kind === 'support' ? 'Support' : 'Resistance'} ×${line.touches}`, position: 'insideTopRight', fill: LEVEL_COLOR[line.kind], fontSize: 10, fontWeight: 700 }}
+                                />
+                            );
+                        })}
+
+                        {/* Candlestick pattern markers */}
+                        {showPatterns && !hiddenSeries.includes(searchedSymbol.toUpperCase()) && visibleData.flatMap(point => {
+                            const found = patternsByDate.get(point.date);
+                            if (!found) return [];
+                            const bullish = found.filter(p => p.direction === 'bullish');
+                            const other = found.filter(p => p.direction !== 'bullish');
+                            const marker = (group: CandlePattern[], below: boolean) => (
+                                <ReferenceDot
+                                    key={`${point.date}-${below ? 'low' : 'high'}`}
+                                    x={point.date}
+                                    // Line/area charts only span the closes
+                                    y={showCandles ? (below ? point.low : point.high) : point.value}
+                                    shape={<PatternMarker below={below} color={PATTERN_COLOR[group.some(p => p.direction === 'bearish') ? 'bearish' : group[0].direction]} title={group.map(p => p.label).join(', ')} />}
+                                />
+                            );
+                            return [
+                                ...(bullish.length > 0 ? [marker(bullish, true)] : []),
+                                ...(other.length > 0 ? [marker(other, false)] : []),
+                            ];
+                        })}
+
+                        {/* User drawings; hidden on the live chart, whose x-axis is ticks */}
+                        {!isLive && (
+                            <DrawingLayer
+                                data={chartData}
+                                startIndex={brush.startIndex}
+                                endIndex={brush.endIndex}
+                                drawings={drawings}
+                                tool={drawingTool}
+                                selectedId={selectedDrawing}
+                                onSelect={setSelectedDrawing}
+                                onAdd={(drawing) => { updateDrawings([...drawings, drawing]); setDrawingTool(null); }}
+                            />
+                        )}
+
+                    </ComposedChart>
                     </ResponsiveContainer>
                 ) : (
                 <div className="absolute inset-0 flex items-center justify-center text-gray-500">
@@ -969,6 +1460,39 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
                 </div>
                 )}
             </div>
+
+            {/* Volume and oscillators, each on its own scale under the price chart */}
+            {data.length > 0 && !error && (
+                <>
+                    {/* Scrolls when many panes are open, so the price chart keeps its room */}
+                    <div className="shrink-0 max-h-[45vh] overflow-y-auto">
+                        {hasVolume && <VolumePane data={visibleData} syncId={CHART_SYNC_ID} />}
+                        {panes.map(config => (
+                            <IndicatorPane key={indicatorId(config)} data={visibleData} config={config} syncId={CHART_SYNC_ID} />
+                        ))}
+                    </div>
+
+                    {/* One Brush for the price chart and all panes */}
+                    <div className="h-9 mt-1">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <ComposedChart data={chartData} margin={{ top: 0, right: 30, left: 60, bottom: 0 }}>
+                                <Brush
+                                    dataKey="date"
+                                    height={30}
+                                    stroke={chartColor}
+                                    fill="#1F2937"
+                                    startIndex={brush.startIndex}
+                                    endIndex={brush.endIndex}
+                                    onChange={({ startIndex, endIndex }) => {
+                                        if (startIndex !== undefined && endIndex !== undefined) setBrushRange({ startIndex, endIndex });
+                                    }}
+                                    tickFormatter={(val) => formatAxisDate(val, false)}
+                                />
+                            </ComposedChart>
+                        </ResponsiveContainer>
+                    </div>
+                </>
+            )}
           </div>
           
           {/* Sidebar Tabs */}
@@ -986,6 +1510,12 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
                     >
                         Active Alerts
                     </button>
+                    <button 
+                        onClick={() => setActiveTab('PATTERNS')}
+                        className={`flex-1 pb-2 text-xs font-bold uppercase tracking-wider ${activeTab === 'PATTERNS' ? 'text-blue-400 border-b-2 border-blue-400' : 'text-gray-500'}`}
+                    >
+                        Patterns
+                    </button>
                 </div>
 
                  {activeTab === 'HISTORY' ? (
@@ -1009,7 +1539,7 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
                                     key={idx}
                                     onClick={() => loadHistoryItem(item)}
                                     className={`group p-3 rounded-xl border cursor-pointer transition-all ${
-                                        searchedSymbol === item.symbol && period === item.period
+                                        searchedSymbol === item.symbol && rangeLabel(range) === rangeLabel(historyRange(item))
                                         ? 'bg-gray-800 border-green-500 shadow-[0_0_10px_rgba(16,185,129,0.1)]'
                                         : 'bg-gray-800/50 border-gray-700 hover:bg-gray-800 hover:border-gray-600'
                                     }`}
@@ -1017,7 +1547,8 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
                                     <div className="flex justify-between items-start mb-2">
                                         <div>
                                             <span className="font-bold text-gray-200 block">{item.symbol}</span>
-                                            <span className="text-xs text-blue-400 font-medium px-1.5 py-0.5 bg-blue-400/10 rounded">{item.period}</span>
+                                            <span className="text-xs text-blue-400 font-medium px-1.5 py-0.5 bg-blue-400/10 rounded">{rangeLabel(historyRange(item))}</span>
+                                            {item.source !== 'market' && <span className="ml-1 text-[10px] text-amber-400 font-medium px-1.5 py-0.5 bg-amber-400/10 rounded">AI estimate</span>}
                                         </div>
                                         <button 
                                             onClick={(e) => deleteHistoryItem(e, idx)}
@@ -1033,6 +1564,37 @@ export const VisualAnalysis: React.FC<VisualAnalysisProps> = ({ initialSymbol, o
                             ))}
                         </div>
                      </>
+                 ) : activeTab === 'PATTERNS' ? (
+                     <>
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-gray-400 font-bold uppercase text-xs tracking-wider flex items-center gap-2">
+                                <ScanSearch size={14} /> Candlestick Patterns
+                            </h3>
+                            {patterns.length > 0 && <span className="text-xs text-gray-500">{patterns.length} found</span>}
+                        </div>
+                        <div className="flex-1 overflow-y-auto space-y-2 pr-2 custom-scrollbar">
+                            {patterns.length === 0 && (
+                                <p className="text-gray-500 text-sm text-center py-4">
+                                    {!searchedSymbol ? 'Load a chart to scan it for patterns.' : isLive ? 'Patterns are found in historical bars, not the live stream.' : !canShowCandles ? 'Patterns need open/high/low data, which this series does not have.' : 'No patterns in this range.'}
+                                </p>
+                            )}
+                            {/* Most recent first */}
+                            {[...patterns].reverse().map(pattern => (
+                                <button
+                                    key={pattern.type + pattern.date}
+                                    onClick={() => jumpToDate(pattern.date)}
+                                    className="w-full text-left bg-gray-800/50 border border-gray-700 hover:bg-gray-800 hover:border-gray-600 p-3 rounded-xl flex justify-between items-center transition-all"
+                                    title="Show on chart"
+                                >
+                                    <div>
+                                        <span className="font-bold text-sm block" style={{ color: PATTERN_COLOR[pattern.direction] }}>{pattern.label}</span>
+                                        <span className="text-xs text-gray-500">{pattern.bars > 1 ? `${pattern.bars} candles · ` : ''}{pattern.direction}</span>
+                                    </div>
+                                    <span className="text-xs text-gray-400 font-mono">{new Date(pattern.date).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: '2-digit', hour: showTime ? '2-digit' : undefined, minute: showTime ? '2-digit' : undefined })}</span>
+                                </button>
+                            ))}
+                        </div>
+                     </>
                  ) : (
                      <>
                         <div className="flex items-center justify-between">
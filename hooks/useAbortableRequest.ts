@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// One in-flight AI request per view. start() aborts whatever was running and
+// hands back a fresh signal; the request is also aborted when the view unmounts.
+export const useAbortableRequest = () => {
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const cancel = useCallback(() => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+    }, []);
+
+    const start = useCallback(() => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        return controller.signal;
+    }, []);
+
+    useEffect(() => cancel, [cancel]);
+
+    return { start, cancel };
+};
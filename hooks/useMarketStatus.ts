@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { getMarketStatus, loadTradingCalendar, MarketStatus } from '../services/tradingCalendar';
+
+const RECHECK_MS = 30_000;
+
+// Current NSE/BSE session status, kept up to date while the view is mounted
+export const useMarketStatus = (): MarketStatus => {
+    const [status, setStatus] = useState<MarketStatus>(() => getMarketStatus());
+
+    useEffect(() => {
+        const update = () => setStatus(getMarketStatus());
+        loadTradingCalendar().then(update);
+        const interval = setInterval(update, RECHECK_MS);
+        return () => clearInterval(interval);
+    }, []);
+
+    return status;
+};
@@ -0,0 +1,219 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { AIFeature, AIProvider, AIRequest, AIVideoRequest } from "../services/aiProvider";
+import { createGeminiProvider } from "../services/geminiProvider";
+import { AIError, toAIError } from "../services/aiErrors";
+
+// Server side of AI_PROXY_URL: holds the Gemini key and forwards requests from
+// services/proxyProvider.ts. Mounted at /api/ai by the dev and preview servers (vite.config.ts)
+// and by the standalone server (server/index.ts).
+//
+//   POST /<feature>                 -> { text, sources }
+//   POST /<feature>/stream          -> NDJSON: { delta } lines, then { done: { text, sources } }
+//   POST /video/jobs                -> { id }
+//   GET  /video/jobs/<id>           -> { done, error? }
+//   GET  /video/jobs/<id>/content   -> video bytes
+//
+// Failures answer with { error: { kind, message, status } } so the client can rebuild the AIError.
+
+// Models each endpoint may call; anything else is rejected so the key can't be used for arbitrary calls
+const FEATURE_MODELS: Record<AIFeature, string[]> = {
+    'chat': ['gemini-2.5-flash'],
+    'deep-analysis': ['gemini-3-pro-preview'],
+    'graph': ['gemini-2.5-flash'],
+    'screener': ['gemini-2.5-flash'],
+    'file-analysis': ['gemini-2.5-flash'],
+    'screenshot': ['gemini-2.5-flash'],
+    'video': ['veo-3.1-fast-generate-preview'],
+};
+
+const MAX_BODY_BYTES = 25 * 1024 * 1024; // uploads arrive as base64 inline data
+
+interface VideoJob {
+    done: boolean;
+    blob?: Blob;
+    error?: AIError;
+    createdAt: number;
+}
+
+const VIDEO_JOB_TTL_MS = 60 * 60 * 1000;
+
+const isFeature = (value: string): value is AIFeature => value in FEATURE_MODELS;
+
+const readJson = (req: IncomingMessage): Promise<any> => {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new AIError('UNKNOWN', 'Request body too large', { status: 413 }));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+            } catch {
+                reject(new AIError('UNKNOWN', 'Request body is not valid JSON', { status: 400 }));
+            }
+        });
+        req.on('error', reject);
+    });
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+};
+
+const serializeError = (error: AIError) => ({ kind: error.kind, message: error.message, status: error.status });
+
+const sendError = (res: ServerResponse, e: unknown, feature?: AIFeature) => {
+    const error = toAIError(e, feature);
+    console.error(`[ai-proxy] ${feature || 'request'} failed (${error.kind}):`, error.message);
+    if (res.headersSent) {
+        // Mid-stream: report it as the final NDJSON line
+        res.end(JSON.stringify({ error: serializeError(error) }) + '\n');
+        return;
+    }
+    sendJson(res, error.status && error.status >= 400 ? error.status : 502, { error: serializeError(error) });
+};
+
+// Check the body against the feature's allowlist and turn it into a provider request
+const toRequest = <T extends AIRequest | AIVideoRequest>(feature: AIFeature, body: any, signal?: AbortSignal): T => {
+    if (!body || typeof body.model !== 'string' || !FEATURE_MODELS[feature].includes(body.model)) {
+        throw new AIError('UNKNOWN', `Model "${body?.model}" is not allowed for ${feature}`, { feature, status: 400 });
+    }
+    return { ...body, feature, signal } as T;
+};
+
+export interface AIProxyOptions {
+    // Answer other machines too. Off by default: anyone who can reach the proxy spends the key.
+    allowRemote?: boolean;
+}
+
+const isLoopback = (address: string | undefined) =>
+    !!address && (address === '::1' || address.startsWith('127.') || address.startsWith('::ffff:127.'));
+
+export const createAIProxyHandler = (apiKey: string | undefined, { allowRemote = false }: AIProxyOptions = {}) => {
+    let provider: AIProvider | null = null;
+    const getProvider = () => {
+        if (!apiKey) throw new AIError('INVALID_KEY', 'GEMINI_API_KEY is not set on the server', { status: 401 });
+        return provider ??= createGeminiProvider(apiKey);
+    };
+
+    const videoJobs = new Map<string, VideoJob>();
+
+    const pruneVideoJobs = () => {
+        const cutoff = Date.now() - VIDEO_JOB_TTL_MS;
+        for (const [id, job] of videoJobs) {
+            if (job.createdAt < cutoff) videoJobs.delete(id);
+        }
+    };
+
+    const handleVideo = async (req: IncomingMessage, res: ServerResponse, path: string[]) => {
+        // POST /video/jobs: start generation in the background, the client polls for it
+        if (path.length === 0 && req.method === 'POST') {
+            const request = toRequest<AIVideoRequest>('video', await readJson(req));
+            const ai = getProvider();
+            pruneVideoJobs();
+
+            const id = crypto.randomUUID();
+            const job: VideoJob = { done: false, createdAt: Date.now() };
+            videoJobs.set(id, job);
+            ai.generateVideo(request)
+                .then(blob => { job.blob = blob; })
+                .catch(e => { job.error = toAIError(e, 'video'); })
+                .finally(() => { job.done = true; });
+
+            sendJson(res, 202, { id });
+            return;
+        }
+
+        const job = videoJobs.get(path[0]);
+        if (!job) {
+            sendJson(res, 404, { error: { kind: 'UNKNOWN', message: 'Unknown video job' } });
+            return;
+        }
+
+        // GET /video/jobs/<id>
+        if (path.length === 1 && req.method === 'GET') {
+            sendJson(res, 200, { done: job.done, error: job.error && serializeError(job.error) });
+            return;
+        }
+
+        // GET /video/jobs/<id>/content
+        if (path.length === 2 && path[1] === 'content' && req.method === 'GET') {
+            if (!job.blob) {
+                sendJson(res, 409, { error: { kind: 'UNKNOWN', message: 'Video is not ready' } });
+                return;
+            }
+            res.statusCode = 200;
+            res.setHeader('Content-Type', job.blob.type || 'video/mp4');
+            res.end(Buffer.from(await job.blob.arrayBuffer()));
+            videoJobs.delete(path[0]);
+            return;
+        }
+
+        sendJson(res, 404, { error: { kind: 'UNKNOWN', message: 'Not found' } });
+    };
+
+    // Connect-style middleware, so it drops straight into server.middlewares.use()
+    return async (req: IncomingMessage, res: ServerResponse) => {
+        // The dev server listens on every interface, so the LAN could otherwise use the key
+        if (!allowRemote && !isLoopback(req.socket.remoteAddress)) {
+            sendJson(res, 403, { error: { kind: 'UNKNOWN', message: 'The AI proxy only answers this machine (see AI_PROXY_ALLOW_REMOTE)' } });
+            return;
+        }
+
+        const [feature = '', ...rest] = (req.url || '').split('?')[0].split('/').filter(Boolean);
+
+        if (!isFeature(feature)) {
+            sendJson(res, 404, { error: { kind: 'UNKNOWN', message: `Unknown AI endpoint "${feature}"` } });
+            return;
+        }
+
+        try {
+            if (feature === 'video') {
+                if (rest[0] !== 'jobs') {
+                    sendJson(res, 404, { error: { kind: 'UNKNOWN', message: 'Not found' } });
+                    return;
+                }
+                await handleVideo(req, res, rest.slice(1));
+                return;
+            }
+
+            if (req.method !== 'POST' || rest.length > 1 || (rest.length === 1 && rest[0] !== 'stream')) {
+                sendJson(res, 404, { error: { kind: 'UNKNOWN', message: 'Not found' } });
+                return;
+            }
+
+            // Stop the upstream call if the browser goes away (Stop button, closed tab)
+            const controller = new AbortController();
+            res.on('close', () => {
+                if (!res.writableFinished) controller.abort();
+            });
+
+            const request = toRequest<AIRequest>(feature, await readJson(req), controller.signal);
+            const ai = getProvider();
+
+            if (rest[0] === 'stream') {
+                res.statusCode = 200;
+                res.setHeader('Content-Type', 'application/x-ndjson');
+                res.setHeader('Cache-Control', 'no-cache');
+                const response = await ai.generateContentStream(request, (delta) => {
+                    res.write(JSON.stringify({ delta }) + '\n');
+                });
+                res.end(JSON.stringify({ done: response }) + '\n');
+                return;
+            }
+
+            sendJson(res, 200, await ai.generateContent(request));
+        } catch (e) {
+            sendError(res, e, feature);
+        }
+    };
+};
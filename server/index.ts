@@ -0,0 +1,100 @@
+import http from "http";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { loadEnv } from "vite";
+import { createAIProxyHandler } from "./aiProxy";
+
+// Standalone server for a built app (npm run build, then npm run serve): serves dist/ and the AI
+// proxy at /api/ai, without Vite's dev or preview server. Reads .env/.env.local like the build.
+//
+//   PORT                   default 3000
+//   HOST                   default 127.0.0.1; put it behind your own reverse proxy (and auth)
+//                          rather than exposing it directly
+//   AI_PROXY_ALLOW_REMOTE  "true" lets other machines call /api/ai, which spends your key
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const dist = path.join(root, "dist");
+const env = { ...loadEnv("production", root, ""), ...process.env };
+
+const port = Number(env.PORT) || 3000;
+const host = env.HOST || "127.0.0.1";
+
+const CONTENT_TYPES: Record<string, string> = {
+    ".html": "text/html; charset=utf-8",
+    ".js": "text/javascript; charset=utf-8",
+    ".css": "text/css; charset=utf-8",
+    ".json": "application/json",
+    ".csv": "text/csv; charset=utf-8",
+    ".svg": "image/svg+xml",
+    ".png": "image/png",
+    ".ico": "image/x-icon",
+    ".woff2": "font/woff2",
+};
+
+const aiProxy = createAIProxyHandler(env.GEMINI_API_KEY, { allowRemote: env.AI_PROXY_ALLOW_REMOTE === "true" });
+
+const serveFile = (res: http.ServerResponse, file: string) => {
+    res.statusCode = 200;
+    res.setHeader("Content-Type", CONTENT_TYPES[path.extname(file)] || "application/octet-stream");
+    // Built assets have content hashes in their names; everything else is revalidated
+    res.setHeader("Cache-Control", file.startsWith(path.join(dist, "assets") + path.sep) ? "public, max-age=31536000, immutable" : "no-cache");
+    fs.createReadStream(file).pipe(res);
+};
+
+const serveStatic = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+        res.statusCode = 405;
+        res.end("Method not allowed");
+        return;
+    }
+    let pathname: string;
+    try {
+        pathname = decodeURIComponent((req.url || "/").split("?")[0]);
+    } catch {
+        res.statusCode = 400;
+        res.end("Bad path");
+        return;
+    }
+    const file = path.join(dist, pathname);
+    if (!file.startsWith(dist + path.sep) && file !== dist) {
+        res.statusCode = 403;
+        res.end("Forbidden");
+        return;
+    }
+    if (fs.existsSync(file) && fs.statSync(file).isFile()) {
+        serveFile(res, file);
+        return;
+    }
+    // Missing data files must 404 (the file provider reads that as "no data"); any other path
+    // is the app itself, which keeps its state in the query string
+    if (path.extname(pathname)) {
+        res.statusCode = 404;
+        res.end("Not found");
+        return;
+    }
+    serveFile(res, path.join(dist, "index.html"));
+};
+
+if (!fs.existsSync(path.join(dist, "index.html"))) {
+    console.error(`No build in ${dist}; run npm run build first`);
+    process.exit(1);
+}
+if (!env.AI_PROXY_URL) {
+    console.warn("AI_PROXY_URL is not set, so the build calls Gemini from the browser instead of /api/ai");
+}
+
+const server = http.createServer((req, res) => {
+    const url = req.url || "/";
+    if (url === "/api/ai" || url.startsWith("/api/ai/") || url.startsWith("/api/ai?")) {
+        // Mounted like server.middlewares.use('/api/ai', ...): the handler sees the rest of the path
+        req.url = url.slice("/api/ai".length) || "/";
+        aiProxy(req, res);
+        return;
+    }
+    serveStatic(req, res);
+});
+
+server.listen(port, host, () => {
+    console.log(`StockSage AI on http://${host}:${port}`);
+});
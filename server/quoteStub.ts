@@ -0,0 +1,293 @@
+import type { EventEmitter } from "events";
+import type { IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { parseCsv, symbolFileName } from "../services/fileMarketData";
+import { normalizeSeries } from "../services/marketDataProvider";
+import { QuoteTick } from "../types";
+
+// Offline stand-in for a quote feed, speaking the protocol in services/quoteStream.ts.
+// Mounted at /__quotes by the dev and preview servers (vite.config.ts).
+//
+// Each symbol replays fixtures/ticks/<SYMBOL>.ndjson. Symbols without a recording of their own get
+// fixtures/ticks/default.ndjson as relative moves from the subscriber's `anchor` (the last price on
+// its chart), or from the last close in public/market-data/ if no anchor was sent. A line is
+// { t, price, volume? } with t in ms from the start of the recording; the tape loops at the end.
+// Ticks from the last BACKFILL_WINDOW_MS are kept to answer `since` on re-subscribe.
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const BACKFILL_WINDOW_MS = 30 * 60 * 1000;
+// Keep a tape running this long after its last subscriber leaves, so a reconnect can backfill
+const IDLE_TAPE_MS = 2 * 60 * 1000;
+const MIN_TICK_GAP_MS = 200;
+
+interface RecordedTick {
+    t: number;
+    price: number;
+    volume?: number;
+}
+
+interface Connection {
+    send(message: Record<string, unknown>): void;
+    symbols: Set<string>;
+}
+
+// What a client may send; every field is checked before use
+interface ClientMessage {
+    type?: unknown;
+    symbol?: unknown;
+    since?: unknown;
+    anchor?: unknown;
+    time?: unknown;
+}
+
+interface Tape {
+    symbol: string;
+    recording: RecordedTick[];
+    history: QuoteTick[];
+    subscribers: Set<Connection>;
+    index: number;
+    // Multiplier applied to recorded prices; grows each loop so the price doesn't jump back
+    scale: number;
+    timer?: ReturnType<typeof setTimeout>;
+    idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+// --- Minimal WebSocket framing (RFC 6455): unfragmented text frames, ping and close ---
+
+const encodeFrame = (opcode: number, payload: Buffer) => {
+    const length = payload.length;
+    const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    if (length < 126) {
+        header[1] = length;
+    } else if (length < 65536) {
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+};
+
+// Pull complete frames off the front of `buffer`; returns what's left over
+const decodeFrames = (buffer: Buffer, onFrame: (opcode: number, payload: Buffer) => void): Buffer => {
+    while (buffer.length >= 2) {
+        const opcode = buffer[0] & 0x0f;
+        const masked = (buffer[1] & 0x80) !== 0;
+        let length = buffer[1] & 0x7f;
+        let offset = 2;
+        if (length === 126) {
+            if (buffer.length < 4) break;
+            length = buffer.readUInt16BE(2);
+            offset = 4;
+        } else if (length === 127) {
+            if (buffer.length < 10) break;
+            length = Number(buffer.readBigUInt64BE(2));
+            offset = 10;
+        }
+        const maskOffset = offset;
+        if (masked) offset += 4;
+        if (buffer.length < offset + length) break;
+
+        const payload = Buffer.from(buffer.subarray(offset, offset + length));
+        if (masked) {
+            for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+        }
+        onFrame(opcode, payload);
+        buffer = buffer.subarray(offset + length);
+    }
+    return buffer;
+};
+
+// --- Recordings ---
+
+const loadRecording = (file: string): RecordedTick[] => {
+    return fs.readFileSync(file, 'utf8')
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line))
+        .filter(tick => isFinite(tick.t) && isFinite(tick.price));
+};
+
+// Last close from public/market-data, so the default tape starts near the chart's price
+const lastClose = (root: string, symbol: string): number | undefined => {
+    const base = path.join(root, 'public', 'market-data', symbolFileName(symbol));
+    try {
+        if (fs.existsSync(`${base}.json`)) return normalizeSeries(JSON.parse(fs.readFileSync(`${base}.json`, 'utf8')), symbol).at(-1)?.value;
+        if (fs.existsSync(`${base}.csv`)) return normalizeSeries(parseCsv(fs.readFileSync(`${base}.csv`, 'utf8')), symbol).at(-1)?.value;
+    } catch (e) {
+        console.warn(`[quote-stub] Could not read market data for ${symbol}:`, (e as Error).message);
+    }
+    return undefined;
+};
+
+// `server` is the HTTP server Vite listens on (http, https or http2 with an upgrade event)
+export const attachQuoteStub = (server: EventEmitter, root: string, urlPath = '/__quotes') => {
+    const ticksDir = path.join(root, 'fixtures', 'ticks');
+    const tapes = new Map<string, Tape>();
+
+    const createTape = (symbol: string, clientAnchor?: number): Tape | null => {
+        const own = path.join(ticksDir, `${symbolFileName(symbol)}.ndjson`);
+        const fallback = path.join(ticksDir, 'default.ndjson');
+        const file = fs.existsSync(own) ? own : fs.existsSync(fallback) ? fallback : null;
+        if (!file) return null;
+
+        const recording = loadRecording(file);
+        if (recording.length === 0) return null;
+        const anchor = file !== fallback ? undefined : clientAnchor ?? lastClose(root, symbol);
+        return {
+            symbol,
+            recording,
+            history: [],
+            subscribers: new Set(),
+            index: 0,
+            scale: anchor ? anchor / recording[0].price : 1,
+        };
+    };
+
+    const emit = (tape: Tape) => {
+        const recorded = tape.recording[tape.index];
+        const tick: QuoteTick = {
+            symbol: tape.symbol,
+            price: Number((recorded.price * tape.scale).toFixed(2)),
+            volume: recorded.volume,
+            time: Date.now(),
+        };
+        tape.history.push(tick);
+        const cutoff = tick.time - BACKFILL_WINDOW_MS;
+        while (tape.history.length > 0 && tape.history[0].time < cutoff) tape.history.shift();
+        tape.subscribers.forEach(conn => conn.send({ type: 'tick', ...tick }));
+
+        const next = tape.index + 1;
+        let gap: number;
+        if (next < tape.recording.length) {
+            gap = tape.recording[next].t - recorded.t;
+            tape.index = next;
+        } else {
+            // Loop, continuing from the current price
+            tape.scale *= tape.recording[tape.recording.length - 1].price / tape.recording[0].price;
+            gap = 1000;
+            tape.index = 0;
+        }
+        tape.timer = setTimeout(() => emit(tape), Math.max(MIN_TICK_GAP_MS, gap));
+    };
+
+    const subscribe = (conn: Connection, symbol: string, since?: number, anchor?: number) => {
+        let tape = tapes.get(symbol);
+        const isNew = !tape;
+        if (!tape) {
+            const created = createTape(symbol, anchor);
+            if (!created) {
+                conn.send({ type: 'error', symbol, message: `No tick recording for ${symbol} in fixtures/ticks` });
+                return;
+            }
+            tape = created;
+            tapes.set(symbol, tape);
+        }
+        if (tape.idleTimer) clearTimeout(tape.idleTimer);
+        tape.idleTimer = undefined;
+        tape.subscribers.add(conn);
+        conn.symbols.add(symbol);
+        conn.send({ type: 'subscribed', symbol });
+        if (typeof since === 'number') {
+            conn.send({ type: 'backfill', symbol, ticks: tape.history.filter(tick => tick.time > since) });
+        }
+        if (isNew) emit(tape);
+    };
+
+    const unsubscribe = (conn: Connection, symbol: string) => {
+        conn.symbols.delete(symbol);
+        const tape = tapes.get(symbol);
+        if (!tape) return;
+        tape.subscribers.delete(conn);
+        if (tape.subscribers.size === 0 && !tape.idleTimer) {
+            tape.idleTimer = setTimeout(() => {
+                clearTimeout(tape.timer);
+                tapes.delete(symbol);
+            }, IDLE_TAPE_MS);
+        }
+    };
+
+    const handleMessage = (conn: Connection, text: string) => {
+        let message: ClientMessage;
+        try {
+            const parsed: unknown = JSON.parse(text);
+            // null, numbers and strings are valid JSON too
+            if (!parsed || typeof parsed !== 'object') throw new Error('Not an object');
+            message = parsed as ClientMessage;
+        } catch {
+            conn.send({ type: 'error', message: 'Messages must be JSON' });
+            return;
+        }
+        const symbol = typeof message.symbol === 'string' ? message.symbol.trim().toUpperCase() : '';
+        switch (message.type) {
+            case 'subscribe':
+                if (symbol) {
+                    const since = typeof message.since === 'number' ? message.since : undefined;
+                    const anchor = typeof message.anchor === 'number' && isFinite(message.anchor) && message.anchor > 0 ? message.anchor : undefined;
+                    subscribe(conn, symbol, since, anchor);
+                } else {
+                    conn.send({ type: 'error', message: 'subscribe needs a symbol' });
+                }
+                break;
+            case 'unsubscribe':
+                if (symbol) unsubscribe(conn, symbol);
+                break;
+            case 'ping':
+                conn.send({ type: 'pong', time: message.time });
+                break;
+            default:
+                conn.send({ type: 'error', message: `Unknown message type "${String(message.type)}"` });
+        }
+    };
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex) => {
+        // Other upgrades (e.g. Vite's HMR socket) are left to their own handlers
+        if ((req.url || '').split('?')[0] !== urlPath) return;
+        const key = req.headers['sec-websocket-key'];
+        if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+            socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+            return;
+        }
+
+        const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+        socket.write([
+            'HTTP/1.1 101 Switching Protocols',
+            'Upgrade: websocket',
+            'Connection: Upgrade',
+            `Sec-WebSocket-Accept: ${accept}`,
+            '', '',
+        ].join('\r\n'));
+
+        const conn: Connection = {
+            symbols: new Set(),
+            send: (message) => {
+                if (!socket.destroyed) socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+            },
+        };
+        const cleanup = () => [...conn.symbols].forEach(symbol => unsubscribe(conn, symbol));
+
+        let pending: Buffer = Buffer.alloc(0);
+        socket.on('data', (chunk: Buffer) => {
+            pending = decodeFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+                switch (opcode) {
+                    case 0x1:
+                        handleMessage(conn, payload.toString('utf8'));
+                        break;
+                    case 0x8:
+                        socket.end(encodeFrame(0x8, payload.subarray(0, 2)));
+                        break;
+                    case 0x9:
+                        socket.write(encodeFrame(0xa, payload));
+                        break;
+                }
+            });
+        });
+        socket.on('close', cleanup);
+        socket.on('error', cleanup);
+    });
+};
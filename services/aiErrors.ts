@@ -0,0 +1,121 @@
+import type { AIFeature } from "./aiProvider";
+
+export type AIErrorKind =
+    | 'QUOTA_EXCEEDED'
+    | 'NETWORK'
+    | 'SAFETY_BLOCKED'
+    | 'INVALID_KEY'
+    | 'PARSE_FAILURE'
+    | 'CANCELLED'
+    | 'BUDGET_EXCEEDED'
+    | 'UNKNOWN';
+
+// The one error type every geminiService export rejects with
+export class AIError extends Error {
+    kind: AIErrorKind;
+    feature?: AIFeature;
+    status?: number;
+    cause?: unknown;
+
+    constructor(kind: AIErrorKind, message: string, options: { feature?: AIFeature; status?: number; cause?: unknown } = {}) {
+        super(message);
+        this.name = 'AIError';
+        this.kind = kind;
+        this.feature = options.feature;
+        this.status = options.status;
+        this.cause = options.cause;
+    }
+
+    // Worth trying again after a pause
+    get retryable() {
+        return this.kind === 'NETWORK' || this.kind === 'QUOTA_EXCEEDED';
+    }
+}
+
+// Map whatever the SDK, fetch or our own code threw onto an AIError
+export const toAIError = (error: unknown, feature?: AIFeature): AIError => {
+    if (error instanceof AIError) {
+        if (!error.feature) error.feature = feature;
+        return error;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    // SDK errors carry an HTTP status; DOMException aborts only have a name
+    const isObject = typeof error === 'object' && error !== null;
+    const status = isObject && 'status' in error && typeof error.status === 'number' ? error.status : undefined;
+    const options = { feature, status, cause: error };
+
+    if (isObject && 'name' in error && error.name === 'AbortError') {
+        return new AIError('CANCELLED', 'Request cancelled', options);
+    }
+
+    if (message === 'API_KEY_SELECTION_REQUIRED' || /api key not valid|api_key_invalid|permission denied/i.test(message) || status === 401 || status === 403) {
+        return new AIError('INVALID_KEY', message, options);
+    }
+    if (status === 429 || /quota|resource[_ ]exhausted|rate limit/i.test(message)) {
+        return new AIError('QUOTA_EXCEEDED', message, options);
+    }
+    // fetch rejects with a TypeError when the request never got a response; any other TypeError
+    // is a bug in our code and retrying it won't help
+    if (error instanceof TypeError) {
+        return /failed to fetch|networkerror|load failed/i.test(message)
+            ? new AIError('NETWORK', message, options)
+            : new AIError('UNKNOWN', message, options);
+    }
+    if ((status !== undefined && status >= 500) || /failed to fetch|network|timed? ?out|econnreset/i.test(message)) {
+        return new AIError('NETWORK', message, options);
+    }
+    if (/safety|blocked|prohibited/i.test(message)) {
+        return new AIError('SAFETY_BLOCKED', message, options);
+    }
+    return new AIError('UNKNOWN', message, options);
+};
+
+// True when the caller stopped the request; views should ignore these quietly
+export const isCancelled = (error: unknown) => toAIError(error).kind === 'CANCELLED';
+
+// Throw a CANCELLED error if the signal has fired
+export const throwIfAborted = (signal: AbortSignal | undefined, feature?: AIFeature) => {
+    if (signal?.aborted) throw new AIError('CANCELLED', 'Request cancelled', { feature });
+};
+
+// Rejects with CANCELLED as soon as the signal fires, so Stop doesn't wait out a backoff
+const sleep = (ms: number, signal?: AbortSignal, feature?: AIFeature) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new AIError('CANCELLED', 'Request cancelled', { feature }));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+interface RetryOptions {
+    retries?: number;
+    baseDelayMs?: number;
+    // Return false to give up early, e.g. once a stream has already emitted text
+    canRetry?: () => boolean;
+    signal?: AbortSignal;
+}
+
+// Run an AI call, retrying transient failures with exponential backoff + jitter.
+// Always rejects with an AIError.
+export const withRetry = async <T,>(feature: AIFeature, fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    const { retries = 3, baseDelayMs = 1000, canRetry = () => true, signal } = options;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            throwIfAborted(signal, feature);
+            return await fn();
+        } catch (e) {
+            const error = toAIError(e, feature);
+            if (!error.retryable || attempt >= retries || !canRetry() || signal?.aborted) throw error;
+
+            const delay = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs;
+            console.warn(`${feature} failed (${error.kind}), retrying in ${Math.round(delay)}ms`, error);
+            await sleep(delay, signal, feature);
+        }
+    }
+};
@@ -0,0 +1,78 @@
+import type { Content, ContentListUnion, FunctionCall, GenerateContentConfig, GenerateVideosConfig } from "@google/genai";
+import { createGeminiProvider } from "./geminiProvider";
+import { createFixtureProvider, createRecordingProvider } from "./fixtureProvider";
+import { createProxyProvider } from "./proxyProvider";
+
+// Which part of the app issued a request. Also used as the fixture folder name.
+export type AIFeature =
+    | 'chat'
+    | 'deep-analysis'
+    | 'graph'
+    | 'video'
+    | 'file-analysis'
+    | 'screenshot'
+    | 'screener';
+
+export interface AIRequest {
+    feature: AIFeature;
+    model: string;
+    contents: ContentListUnion;
+    config?: GenerateContentConfig;
+    signal?: AbortSignal;
+}
+
+// Token counts reported by the model, used for metering (see usageMeter.ts)
+export interface AIUsage {
+    promptTokens: number; // includes tool-use prompt tokens such as search results
+    outputTokens: number;
+    thinkingTokens: number;
+}
+
+export interface AIResponse {
+    text: string;
+    sources: { title: string; uri: string }[];
+    usage?: AIUsage;
+    // Set when the model wants tools run (config.tools functionDeclarations)
+    functionCalls?: FunctionCall[];
+    // The model turn as returned, to send back alongside the function responses
+    content?: Content;
+}
+
+export interface AIVideoRequest {
+    feature: AIFeature;
+    model: string;
+    prompt: string;
+    config?: GenerateVideosConfig;
+    signal?: AbortSignal;
+}
+
+// Everything geminiService needs from a model backend.
+export interface AIProvider {
+    name: string;
+    generateContent(request: AIRequest): Promise<AIResponse>;
+    // Calls onText with each text delta as it arrives, resolves with the full response
+    generateContentStream(request: AIRequest, onText: (delta: string) => void): Promise<AIResponse>;
+    generateVideo(request: AIVideoRequest): Promise<Blob>;
+}
+
+// Live calls go through the backend proxy when AI_PROXY_URL is set, otherwise straight to Gemini
+const createLiveProvider = (proxyUrl: string | undefined = process.env.AI_PROXY_URL): AIProvider => {
+    return proxyUrl ? createProxyProvider(proxyUrl) : createGeminiProvider();
+};
+
+// Pick the provider from AI_PROVIDER (set in .env.local, see vite.config.ts)
+export const createAIProvider = (mode: string | undefined = process.env.AI_PROVIDER): AIProvider => {
+    switch (mode) {
+        case 'fixture':
+            return createFixtureProvider();
+        case 'record':
+            return createRecordingProvider(createLiveProvider());
+        case 'gemini':
+        case undefined:
+        case '':
+            return createLiveProvider();
+        default:
+            console.warn(`Unknown AI_PROVIDER "${mode}", falling back to gemini`);
+            return createLiveProvider();
+    }
+};
@@ -0,0 +1,106 @@
+// Classic candlestick patterns found in OHLC bars. Bars without open/high/low (closing prices
+// only, e.g. most AI estimates) are skipped, as is any pattern that would need them.
+//
+// Hammer and shooting star only count after a decline/advance (the close five bars back), since
+// the same candle shape means little mid-trend.
+
+export type CandlePatternType =
+    | 'DOJI'
+    | 'HAMMER'
+    | 'SHOOTING_STAR'
+    | 'BULLISH_ENGULFING'
+    | 'BEARISH_ENGULFING'
+    | 'MORNING_STAR'
+    | 'EVENING_STAR'
+    | 'INSIDE_BAR';
+
+export type PatternDirection = 'bullish' | 'bearish' | 'neutral';
+
+export interface CandlePattern {
+    type: CandlePatternType;
+    date: string;  // of the bar that completes the pattern
+    index: number; // into the bars passed in
+    label: string;
+    direction: PatternDirection;
+    bars: number;  // candles it spans
+}
+
+export const CANDLE_PATTERNS: Record<CandlePatternType, { label: string; direction: PatternDirection; bars: number }> = {
+    DOJI: { label: 'Doji', direction: 'neutral', bars: 1 },
+    HAMMER: { label: 'Hammer', direction: 'bullish', bars: 1 },
+    SHOOTING_STAR: { label: 'Shooting star', direction: 'bearish', bars: 1 },
+    BULLISH_ENGULFING: { label: 'Bullish engulfing', direction: 'bullish', bars: 2 },
+    BEARISH_ENGULFING: { label: 'Bearish engulfing', direction: 'bearish', bars: 2 },
+    MORNING_STAR: { label: 'Morning star', direction: 'bullish', bars: 3 },
+    EVENING_STAR: { label: 'Evening star', direction: 'bearish', bars: 3 },
+    INSIDE_BAR: { label: 'Inside bar', direction: 'neutral', bars: 2 },
+};
+
+interface Candle {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+}
+
+const TREND_LOOKBACK = 5;
+
+const toCandle = (point: any): Candle | null =>
+    point && point.open != null && point.high != null && point.low != null && point.value != null
+        ? { open: Number(point.open), high: Number(point.high), low: Number(point.low), close: Number(point.value) }
+        : null;
+
+const body = (c: Candle) => Math.abs(c.close - c.open);
+const range = (c: Candle) => c.high - c.low;
+const upperShadow = (c: Candle) => c.high - Math.max(c.open, c.close);
+const lowerShadow = (c: Candle) => Math.min(c.open, c.close) - c.low;
+const isBullish = (c: Candle) => c.close > c.open;
+const isBearish = (c: Candle) => c.close < c.open;
+
+const isDoji = (c: Candle) => range(c) > 0 && body(c) <= range(c) * 0.1;
+
+// Small body near the top, long lower shadow
+const isHammerShape = (c: Candle) =>
+    range(c) > 0 && body(c) <= range(c) * 0.35 && lowerShadow(c) >= Math.max(body(c) * 2, range(c) * 0.55) && upperShadow(c) <= range(c) * 0.15;
+
+const isShootingStarShape = (c: Candle) =>
+    range(c) > 0 && body(c) <= range(c) * 0.35 && upperShadow(c) >= Math.max(body(c) * 2, range(c) * 0.55) && lowerShadow(c) <= range(c) * 0.15;
+
+// A real body that covers most of its range
+const isLong = (c: Candle) => range(c) > 0 && body(c) >= range(c) * 0.5;
+
+export const detectCandlePatterns = (points: any[]): CandlePattern[] => {
+    const candles = points.map(toCandle);
+    const closes = points.map(p => Number(p?.value));
+    const found: CandlePattern[] = [];
+    const add = (type: CandlePatternType, index: number) =>
+        found.push({ type, date: points[index].date, index, ...CANDLE_PATTERNS[type] });
+
+    candles.forEach((c, i) => {
+        if (!c) return;
+        const prev = candles[i - 1];
+        const first = candles[i - 2];
+        const priorClose = closes[i - 1 - TREND_LOOKBACK];
+        const downtrend = i > TREND_LOOKBACK && closes[i - 1] < priorClose;
+        const uptrend = i > TREND_LOOKBACK && closes[i - 1] > priorClose;
+
+        if (isDoji(c)) add('DOJI', i);
+        else if (isHammerShape(c) && downtrend) add('HAMMER', i);
+        else if (isShootingStarShape(c) && uptrend) add('SHOOTING_STAR', i);
+
+        if (prev) {
+            if (isBearish(prev) && isBullish(c) && c.open <= prev.close && c.close >= prev.open && body(c) > body(prev)) add('BULLISH_ENGULFING', i);
+            if (isBullish(prev) && isBearish(c) && c.open >= prev.close && c.close <= prev.open && body(c) > body(prev)) add('BEARISH_ENGULFING', i);
+            if (c.high < prev.high && c.low > prev.low) add('INSIDE_BAR', i);
+        }
+
+        // Long candle, small-bodied candle beyond its close, then a long candle back past the
+        // first one's midpoint
+        if (first && prev && isLong(first) && isLong(c) && body(prev) <= body(first) * 0.3) {
+            const midpoint = (first.open + first.close) / 2;
+            if (isBearish(first) && Math.max(prev.open, prev.close) <= first.close && isBullish(c) && c.close > midpoint) add('MORNING_STAR', i);
+            if (isBullish(first) && Math.min(prev.open, prev.close) >= first.close && isBearish(c) && c.close < midpoint) add('EVENING_STAR', i);
+        }
+    });
+    return found;
+};
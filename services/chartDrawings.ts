@@ -0,0 +1,119 @@
+// User drawings on the Visual Analysis chart, saved per symbol in localStorage.
+//
+// Points are anchored to a bar's date and a price rather than to pixels or indexes, so a
+// drawing stays put when the period, interval or calendar-gap setting changes; anchors outside
+// the loaded bars are placed by extrapolating the bar spacing (see ChartDrawings.tsx).
+
+export type DrawingType = 'hline' | 'trendline' | 'rect' | 'fib' | 'text';
+
+export interface DrawingPoint {
+    date: string;
+    price: number;
+}
+
+export interface Drawing {
+    id: string;
+    type: DrawingType;
+    // One point for hline/text, two for the rest
+    points: DrawingPoint[];
+    text?: string;
+}
+
+export const DRAWING_TOOLS: Record<DrawingType, { label: string; points: number }> = {
+    hline: { label: 'Horizontal line', points: 1 },
+    trendline: { label: 'Trendline', points: 2 },
+    rect: { label: 'Rectangle', points: 2 },
+    fib: { label: 'Fibonacci retracement', points: 2 },
+    text: { label: 'Text note', points: 1 },
+};
+
+export const DRAWING_TYPES = Object.keys(DRAWING_TOOLS) as DrawingType[];
+
+// Retracement levels, measured back from the second point (0) to the first (1)
+export const FIB_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+export const MAX_DRAWINGS = 50;
+const MAX_TEXT = 80;
+
+const DRAWINGS_KEY = 'chart_drawings';
+
+export const newDrawingId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const isPoint = (value: any): value is DrawingPoint =>
+    value && typeof value.date === 'string' && value.date !== '' && Number.isFinite(value.price);
+
+// Drops anything malformed (old or hand-edited storage, shared links)
+const validDrawing = (value: any): Drawing | null => {
+    if (!value || !(value.type in DRAWING_TOOLS) || !Array.isArray(value.points)) return null;
+    const type = value.type as DrawingType;
+    const points = value.points.slice(0, DRAWING_TOOLS[type].points);
+    if (points.length !== DRAWING_TOOLS[type].points || !points.every(isPoint)) return null;
+    const text = typeof value.text === 'string' ? value.text.slice(0, MAX_TEXT) : undefined;
+    if (type === 'text' && !text?.trim()) return null;
+    return {
+        id: typeof value.id === 'string' && value.id ? value.id : newDrawingId(),
+        type,
+        points: points.map((p: DrawingPoint) => ({ date: p.date, price: Number(p.price) })),
+        ...(type === 'text' ? { text } : {}),
+    };
+};
+
+const loadAll = (): Record<string, Drawing[]> => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(DRAWINGS_KEY) || '{}');
+        return saved && typeof saved === 'object' ? saved : {};
+    } catch (e) {
+        console.error(`Failed to read ${DRAWINGS_KEY}`, e);
+        return {};
+    }
+};
+
+export const loadDrawings = (symbol: string): Drawing[] => {
+    const saved = loadAll()[symbol.toUpperCase()];
+    return Array.isArray(saved) ? saved.map(validDrawing).filter((d): d is Drawing => d !== null) : [];
+};
+
+export const saveDrawings = (symbol: string, drawings: Drawing[]) => {
+    const all = loadAll();
+    const key = symbol.toUpperCase();
+    if (drawings.length > 0) all[key] = drawings.slice(0, MAX_DRAWINGS);
+    else delete all[key];
+    localStorage.setItem(DRAWINGS_KEY, JSON.stringify(all));
+};
+
+// Share links carry prices to 2 decimals
+const sharedPrice = (price: number) => Number(price.toFixed(2));
+
+// Same drawing, ignoring its id (and price digits a share link drops)
+const sameDrawing = (a: Drawing, b: Drawing) =>
+    a.type === b.type && (a.text ?? '') === (b.text ?? '') && a.points.every((p, i) =>
+        p.date === b.points[i]?.date && sharedPrice(p.price) === sharedPrice(b.points[i].price));
+
+// Adds drawings from a shared link to the ones already saved for the symbol
+export const mergeDrawings = (symbol: string, shared: Drawing[]) => {
+    const saved = loadDrawings(symbol);
+    const added = shared.filter(d => !saved.some(s => sameDrawing(s, d)));
+    if (added.length > 0) saveDrawings(symbol, [...saved, ...added]);
+};
+
+// For share links ('draw' param): [type, [[date, price], ...], text?] per drawing, as JSON
+export const encodeDrawings = (drawings: Drawing[]) =>
+    JSON.stringify(drawings.map(d => {
+        const points = d.points.map(p => [p.date, sharedPrice(p.price)]);
+        return d.text ? [d.type, points, d.text] : [d.type, points];
+    }));
+
+export const parseDrawings = (text: string): Drawing[] => {
+    try {
+        const list = JSON.parse(text);
+        if (!Array.isArray(list)) return [];
+        return list
+            .slice(0, MAX_DRAWINGS)
+            .map(item => Array.isArray(item) && Array.isArray(item[1])
+                ? validDrawing({ type: item[0], points: item[1].map((p: any) => Array.isArray(p) ? { date: p[0], price: Number(p[1]) } : null), text: item[2] })
+                : null)
+            .filter((d): d is Drawing => d !== null);
+    } catch {
+        return [];
+    }
+};
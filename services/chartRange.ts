@@ -0,0 +1,183 @@
+import { StockDataPoint } from "../types";
+
+// What a chart shows: a preset period (1D ... MAX) or a custom from/to, plus the bar interval,
+// chosen independently within what makes sense for the span (see allowedIntervals).
+
+export type BarInterval = '1m' | '5m' | '15m' | '1h' | '1d' | '1wk' | '1mo';
+
+export interface ChartRange {
+    period: string; // one of PRESET_PERIODS, or 'CUSTOM'
+    from?: string;  // YYYY-MM-DD, CUSTOM only
+    to?: string;    // YYYY-MM-DD, CUSTOM only (inclusive)
+    interval: BarInterval;
+}
+
+export const PRESET_PERIODS = ['1D', '5D', '1W', '1M', '3M', '6M', '1Y', '3Y', '5Y', 'MAX'];
+
+export const BAR_INTERVALS: { id: BarInterval; label: string; minutes: number }[] = [
+    { id: '1m', label: '1 min', minutes: 1 },
+    { id: '5m', label: '5 min', minutes: 5 },
+    { id: '15m', label: '15 min', minutes: 15 },
+    { id: '1h', label: '1 hour', minutes: 60 },
+    { id: '1d', label: 'Daily', minutes: 24 * 60 },
+    { id: '1wk', label: 'Weekly', minutes: 7 * 24 * 60 },
+    { id: '1mo', label: 'Monthly', minutes: 30 * 24 * 60 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar days each preset covers (1D/5D are counted in sessions instead, see sliceToRange)
+const PERIOD_DAYS: Record<string, number> = {
+    '1D': 1, '5D': 7, '1W': 7, '1M': 30, '3M': 91, '6M': 182, '1Y': 365, '3Y': 3 * 365, '5Y': 5 * 365,
+};
+
+const DEFAULT_INTERVAL: Record<string, BarInterval> = {
+    '1D': '5m', '5D': '15m', '1W': '1d', '1M': '1d', '3M': '1d', '6M': '1d', '1Y': '1d', '3Y': '1wk', '5Y': '1wk', 'MAX': '1mo',
+};
+
+export const isIntraday = (interval: BarInterval) => interval === '1m' || interval === '5m' || interval === '15m' || interval === '1h';
+
+export const isValidInterval = (value: unknown): value is BarInterval => BAR_INTERVALS.some(i => i.id === value);
+
+// Span in days; MAX counts as unbounded
+export const rangeDays = (range: ChartRange) => {
+    if (range.period === 'CUSTOM' && range.from && range.to) {
+        return Math.max(1, (new Date(range.to).getTime() - new Date(range.from).getTime()) / DAY_MS + 1);
+    }
+    return PERIOD_DAYS[range.period] ?? Infinity;
+};
+
+// Keep bar counts sane: 1m bars for at most a week, 5m/15m for two months, hourly for two years,
+// and weekly/monthly only where there's more than a few bars of them
+export const allowedIntervals = (range: ChartRange): BarInterval[] => {
+    const days = rangeDays(range);
+    return BAR_INTERVALS.map(i => i.id).filter(id => {
+        switch (id) {
+            case '1m': return days <= 7;
+            case '5m':
+            case '15m': return days <= 60;
+            case '1h': return days <= 730;
+            case '1d': return days > 1;
+            case '1wk': return days >= 60;
+            case '1mo': return days >= 365;
+        }
+    });
+};
+
+export const presetRange = (period: string): ChartRange => ({ period, interval: DEFAULT_INTERVAL[period] ?? '1d' });
+
+// Presets come with their default interval; a custom span keeps the current one when it still fits
+export const withPeriod = (range: ChartRange, period: string, from?: string, to?: string): ChartRange => {
+    if (period !== 'CUSTOM') return presetRange(period);
+    const next: ChartRange = { period, from, to, interval: range.interval };
+    const allowed = allowedIntervals(next);
+    return allowed.includes(next.interval) ? next : { ...next, interval: allowed.includes('1d') ? '1d' : allowed[0] };
+};
+
+export const rangeLabel = (range: ChartRange) => {
+    const interval = BAR_INTERVALS.find(i => i.id === range.interval)?.label ?? range.interval;
+    const span = range.period === 'CUSTOM' ? `${range.from} → ${range.to}` : range.period;
+    return `${span} · ${interval}`;
+};
+
+// --- URL / storage ---
+
+export const rangeFromParams = (params: URLSearchParams): ChartRange | null => {
+    const period = params.get('period');
+    if (!period) return null;
+    const interval = params.get('interval');
+    if (period === 'CUSTOM') {
+        const from = params.get('from');
+        const to = params.get('to');
+        if (!from || !to || isNaN(new Date(from).getTime()) || isNaN(new Date(to).getTime())) return null;
+        const range: ChartRange = { period, from, to, interval: '1d' };
+        return isValidInterval(interval) && allowedIntervals(range).includes(interval) ? { ...range, interval } : range;
+    }
+    if (!PRESET_PERIODS.includes(period)) return null;
+    const range = presetRange(period);
+    return isValidInterval(interval) && allowedIntervals(range).includes(interval) ? { ...range, interval } : range;
+};
+
+export const setRangeParams = (params: URLSearchParams, range: ChartRange) => {
+    params.set('period', range.period);
+    params.set('interval', range.interval);
+    if (range.period === 'CUSTOM' && range.from && range.to) {
+        params.set('from', range.from);
+        params.set('to', range.to);
+    }
+};
+
+// Accepts a stored range, or an old plain period string ('1M')
+export const parseStoredRange = (saved: string | null): ChartRange | null => {
+    if (!saved) return null;
+    if (PRESET_PERIODS.includes(saved)) return presetRange(saved);
+    try {
+        const params = new URLSearchParams();
+        setRangeParams(params, JSON.parse(saved));
+        return rangeFromParams(params);
+    } catch {
+        return null;
+    }
+};
+
+// --- Bars ---
+
+const dayOf = (date: string) => date.slice(0, 10);
+
+// Keep the bars inside the range. Presets count back from the latest bar, so a snapshot file
+// stays usable; 1D/5D mean the last 1/5 sessions that have bars.
+export const sliceToRange = (points: StockDataPoint[], range: ChartRange) => {
+    if (points.length === 0) return points;
+    if (range.period === 'CUSTOM' && range.from && range.to) {
+        return points.filter(p => dayOf(p.date) >= range.from! && dayOf(p.date) <= range.to!);
+    }
+    if (range.period === '1D' || range.period === '5D') {
+        const sessions = [...new Set(points.map(p => dayOf(p.date)))].slice(range.period === '1D' ? -1 : -5);
+        return points.filter(p => dayOf(p.date) >= sessions[0]);
+    }
+    const days = PERIOD_DAYS[range.period];
+    if (days === undefined) return points;
+    const end = new Date(points[points.length - 1].date).getTime();
+    return points.filter(p => new Date(p.date).getTime() >= end - days * DAY_MS);
+};
+
+// Start of the bucket a bar falls into, for the given interval
+const bucketOf = (date: string, interval: BarInterval) => {
+    const d = new Date(date);
+    switch (interval) {
+        case '1mo':
+            return dayOf(date).slice(0, 7);
+        case '1wk': {
+            // Monday of that week
+            const monday = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() - ((d.getUTCDay() + 6) % 7)));
+            return monday.toISOString().slice(0, 10);
+        }
+        case '1d':
+            return dayOf(date);
+        default: {
+            const minutes = BAR_INTERVALS.find(i => i.id === interval)!.minutes;
+            const ms = minutes * 60 * 1000;
+            return new Date(Math.floor(d.getTime() / ms) * ms).toISOString();
+        }
+    }
+};
+
+// Combine finer bars into `interval` bars (first open, max high, min low, last close, summed volume)
+export const resampleBars = (points: StockDataPoint[], interval: BarInterval): StockDataPoint[] => {
+    const result: StockDataPoint[] = [];
+    let currentKey = '';
+    for (const p of points) {
+        const key = bucketOf(p.date, interval);
+        const last = result[result.length - 1];
+        if (!last || key !== currentKey) {
+            currentKey = key;
+            result.push({ ...p });
+            continue;
+        }
+        last.value = p.value;
+        if (p.high !== undefined) last.high = Math.max(last.high ?? p.high, p.high);
+        if (p.low !== undefined) last.low = Math.min(last.low ?? p.low, p.low);
+        if (p.volume !== undefined) last.volume = (last.volume ?? 0) + p.volume;
+    }
+    return result;
+};
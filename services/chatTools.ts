@@ -0,0 +1,187 @@
+import { FunctionCall, FunctionDeclaration, Type } from "@google/genai";
+import type { AIResponse } from "./aiProvider";
+import { enrichDataWithIndicators } from "./indicators";
+import { detectCandlePatterns } from "./candlePatterns";
+import { addPriceAlert, addToWatchlist } from "./marketStore";
+import { ChartRange, presetRange } from "./chartRange";
+import type { PriceHistory } from "./marketDataService";
+import { loadSymbolMaster, resolveSymbol } from "./symbolMaster";
+import { StockDataPoint } from "../types";
+
+// Local tools Market Chat can call. Gemini can't mix googleSearch with function
+// calling on this model, so web search is offered as a tool too.
+
+const PERIODS = ['1W', '1M', '3M', '6M', '1Y'];
+
+export const chatToolDeclarations: FunctionDeclaration[] = [
+    {
+        name: 'search_web',
+        description: 'Search the web for live prices, news, results and market commentary. Use for every question about current prices, news or trends.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                query: { type: Type.STRING, description: 'What to search for, e.g. "TCS share price today NSE"' },
+            },
+            required: ['query'],
+        },
+    },
+    {
+        name: 'get_price_series',
+        description: 'Closing prices for an NSE/BSE symbol over a period. Use when the user wants a chart, trend or performance.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                symbol: { type: Type.STRING, description: 'Ticker, e.g. TCS, RELIANCE, NIFTY 50' },
+                period: { type: Type.STRING, enum: PERIODS },
+            },
+            required: ['symbol'],
+        },
+    },
+    {
+        name: 'get_indicators',
+        description: 'Latest close, RSI (14) and SMA (20) for a symbol, calculated the same way as the Visual Analysis chart.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                symbol: { type: Type.STRING },
+                period: { type: Type.STRING, enum: PERIODS, description: 'Defaults to 1M (daily bars)' },
+            },
+            required: ['symbol'],
+        },
+    },
+    {
+        name: 'get_candle_patterns',
+        description: 'Candlestick patterns (doji, hammer, shooting star, engulfing, morning/evening star, inside bar) in the last few daily bars of a symbol, found the same way as the Visual Analysis chart. Needs market data with open/high/low.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                symbol: { type: Type.STRING },
+                period: { type: Type.STRING, enum: PERIODS, description: 'Bars to look in. Defaults to 1M (daily bars)' },
+                bars: { type: Type.NUMBER, description: 'How many recent bars to report on. Defaults to 5.' },
+            },
+            required: ['symbol'],
+        },
+    },
+    {
+        name: 'create_price_alert',
+        description: 'Create a price alert that fires when the symbol trades at or above the target price. Shows up in the Visual Analysis alerts list.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                symbol: { type: Type.STRING },
+                targetPrice: { type: Type.NUMBER, description: 'Price in INR' },
+            },
+            required: ['symbol', 'targetPrice'],
+        },
+    },
+    {
+        name: 'add_to_watchlist',
+        description: "Add a symbol to the user's watchlist.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                symbol: { type: Type.STRING },
+            },
+            required: ['symbol'],
+        },
+    },
+];
+
+// What geminiService lends the tools, so this module doesn't import it back. Prices come
+// from the same market data as the charts, falling back to a labelled AI estimate.
+export interface ChatToolContext {
+    getPriceHistory: (symbol: string, range: ChartRange, adjusted: boolean, signal?: AbortSignal) => Promise<PriceHistory>;
+    searchWeb: (query: string, signal?: AbortSignal) => Promise<AIResponse>;
+    signal?: AbortSignal;
+}
+
+export interface ChatToolResult {
+    // Sent back to the model as the functionResponse
+    response: Record<string, unknown>;
+    // Short note for the chat UI when the tool changed something (e.g. "Alert set: TCS ≥ ₹4000")
+    action?: string;
+    sources?: AIResponse['sources'];
+    chartData?: StockDataPoint[];
+}
+
+const round = (value: number | null | undefined) => value == null ? null : Number(value.toFixed(2));
+
+// Tells the model whether the numbers are exchange data or a model estimate
+const provenance = (history: PriceHistory) => ({ source: history.source, fallbackReason: history.fallbackReason });
+
+// Run one function call. Failures go back to the model as { error } so it can explain them.
+export const runChatTool = async (call: FunctionCall, context: ChatToolContext): Promise<ChatToolResult> => {
+    const args = (call.args || {}) as Record<string, any>;
+    // "Reliance Industries" and "RELIANCE" must land on the same alert/watchlist key
+    await loadSymbolMaster();
+    const symbol = resolveSymbol(String(args.symbol || ''));
+    const period = PERIODS.includes(args.period) ? args.period : '1M';
+
+    try {
+        switch (call.name) {
+            case 'search_web': {
+                const result = await context.searchWeb(String(args.query || ''), context.signal);
+                return { response: { result: result.text }, sources: result.sources };
+            }
+            case 'get_price_series': {
+                const history = await context.getPriceHistory(symbol, presetRange(period), true, context.signal);
+                return { response: { symbol, period, ...provenance(history), prices: history.points }, chartData: history.points };
+            }
+            case 'get_indicators': {
+                const history = await context.getPriceHistory(symbol, presetRange(period), true, context.signal);
+                const latest = enrichDataWithIndicators(history.points).at(-1);
+                if (!latest) return { response: { error: `No price data for ${symbol}` } };
+                return {
+                    response: {
+                        symbol,
+                        period,
+                        ...provenance(history),
+                        date: latest.date,
+                        close: round(latest.value),
+                        rsi14: round(latest.rsi),
+                        sma20: round(latest.sma),
+                        note: latest.rsi == null || latest.sma == null ? 'Not enough bars for RSI(14)/SMA(20) in this period; try a longer one' : undefined,
+                    },
+                };
+            }
+            case 'get_candle_patterns': {
+                const history = await context.getPriceHistory(symbol, presetRange(period), true, context.signal);
+                const series = history.points;
+                if (series.length === 0) return { response: { error: `No price data for ${symbol}` } };
+                // Patterns in model-made candles would mean nothing
+                if (history.source !== 'market') {
+                    return { response: { symbol, ...provenance(history), error: 'No market data for this symbol, so candle patterns cannot be detected' } };
+                }
+                if (!series.some(p => p.open != null && p.high != null && p.low != null)) {
+                    return { response: { symbol, ...provenance(history), error: 'Only closing prices are available for this symbol, so candle patterns cannot be detected' } };
+                }
+                const bars = Math.min(20, Math.max(1, Math.round(Number(args.bars) || 5)));
+                const since = series.length - bars;
+                const patterns = detectCandlePatterns(series)
+                    .filter(p => p.index >= since)
+                    .map(({ date, label, direction }) => ({ date, pattern: label, direction }));
+                return { response: { symbol, period, ...provenance(history), lastBar: series[series.length - 1].date, barsChecked: bars, patterns } };
+            }
+            case 'create_price_alert': {
+                const targetPrice = Number(args.targetPrice);
+                if (!symbol || !(targetPrice > 0)) return { response: { error: 'A symbol and a positive targetPrice are required' } };
+                const alert = addPriceAlert(symbol, targetPrice);
+                return { response: { created: alert }, action: `Alert set: ${alert.symbol} ≥ ₹${targetPrice.toLocaleString('en-IN')}` };
+            }
+            case 'add_to_watchlist': {
+                if (!symbol) return { response: { error: 'A symbol is required' } };
+                const added = addToWatchlist(symbol);
+                return {
+                    response: { symbol, added, alreadyOnWatchlist: !added },
+                    action: added ? `Added ${symbol} to watchlist` : undefined,
+                };
+            }
+            default:
+                return { response: { error: `Unknown tool ${call.name}` } };
+        }
+    } catch (e) {
+        if (context.signal?.aborted) throw e;
+        console.warn(`Chat tool ${call.name} failed`, e);
+        return { response: { error: e instanceof Error ? e.message : String(e) } };
+    }
+};
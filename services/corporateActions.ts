@@ -0,0 +1,91 @@
+import { CorporateAction, StockDataPoint } from "../types";
+
+// Splits, bonus issues and dividends, and the back-adjustment that removes their price gaps.
+// Rows come from the market data provider (corporate-actions.csv for files, /actions for http):
+//
+//   symbol,date,type,ratio,amount
+//   HDFCBANK,2019-09-19,SPLIT,1:2,        old:new shares (face value 2 -> 1)
+//   TCS,2018-05-31,BONUS,1:1,             bonus:held shares
+//   INFY,2024-10-29,DIVIDEND,,21          cash per share
+//
+// `date` is the ex-date: bars before it are adjusted, bars on or after it are left as traded.
+
+const parseRatio = (text: string | undefined) => {
+    const [a, b] = String(text ?? '').split(':').map(part => Number(part.trim()));
+    return a > 0 && b > 0 ? [a, b] : null;
+};
+
+const formatRatio = ([a, b]: number[]) => `${a}:${b}`;
+
+// Accepts rows with any header casing; skips rows it can't make sense of
+export const parseCorporateActions = (rows: unknown): CorporateAction[] => {
+    if (!Array.isArray(rows)) return [];
+    const actions: CorporateAction[] = [];
+    for (const row of rows) {
+        if (!row || typeof row !== 'object') continue;
+        const fields = Object.fromEntries(Object.entries(row).map(([k, v]) => [k.trim().toLowerCase(), String(v ?? '').trim()]));
+        const symbol = (fields.symbol || '').toUpperCase();
+        const date = (fields.date || fields['ex_date'] || fields['ex date'] || '').slice(0, 10);
+        const type = (fields.type || '').toUpperCase();
+        if (!symbol || isNaN(new Date(date).getTime())) continue;
+
+        if (type === 'SPLIT' || type === 'BONUS') {
+            const ratio = parseRatio(fields.ratio);
+            if (!ratio) continue;
+            const [a, b] = ratio;
+            actions.push({
+                symbol,
+                date,
+                type,
+                // Split old:new -> new/old; bonus bonus:held -> (held + bonus)/held
+                ratio: type === 'SPLIT' ? b / a : (a + b) / b,
+                label: `${type === 'SPLIT' ? 'Split' : 'Bonus'} ${formatRatio(ratio)}`,
+            });
+        } else if (type === 'DIVIDEND') {
+            const amount = Number(fields.amount);
+            if (!(amount > 0)) continue;
+            actions.push({ symbol, date, type, amount, label: `Dividend ₹${amount.toLocaleString('en-IN')}` });
+        }
+    }
+    return actions.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const dayOf = (date: string) => date.slice(0, 10);
+
+// Back-adjust so prices before each ex-date are comparable with prices after it. Splits and
+// bonuses divide prices (and multiply volume) by the share ratio; a dividend scales prices by
+// (1 - amount / close before the ex-date). Ex-dates after the last bar use the last close.
+export const adjustForActions = (points: StockDataPoint[], actions: CorporateAction[]): StockDataPoint[] => {
+    if (points.length === 0 || actions.length === 0) return points;
+
+    // Cumulative factor for each action, newest first, so one pass from the end applies them all
+    const newestFirst = [...actions].sort((a, b) => b.date.localeCompare(a.date));
+    const adjusted = points.map(p => ({ ...p }));
+    let priceFactor = 1;
+    let volumeFactor = 1;
+    let next = 0;
+
+    for (let i = adjusted.length - 1; i >= 0; i--) {
+        const day = dayOf(points[i].date);
+        // Every action whose ex-date is after this bar applies to it
+        while (next < newestFirst.length && newestFirst[next].date > day) {
+            const action = newestFirst[next];
+            if (action.type === 'DIVIDEND') {
+                const close = points[i].value;
+                if (close > 0 && action.amount! < close) priceFactor *= 1 - action.amount! / close;
+            } else {
+                priceFactor /= action.ratio!;
+                volumeFactor *= action.ratio!;
+            }
+            next++;
+        }
+        if (priceFactor === 1 && volumeFactor === 1) continue;
+        const bar = adjusted[i];
+        bar.value *= priceFactor;
+        if (bar.open !== undefined) bar.open *= priceFactor;
+        if (bar.high !== undefined) bar.high *= priceFactor;
+        if (bar.low !== undefined) bar.low *= priceFactor;
+        if (bar.volume !== undefined) bar.volume = Math.round(bar.volume * volumeFactor);
+    }
+    return adjusted;
+};
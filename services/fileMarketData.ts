@@ -0,0 +1,148 @@
+import type { MarketDataProvider } from "./marketDataProvider";
+import { MarketDataError, normalizeSeries, quoteFromSeries } from "./marketDataProvider";
+import { BarInterval, isIntraday, resampleBars, sliceToRange } from "./chartRange";
+import { parseCorporateActions } from "./corporateActions";
+import { CorporateAction, StockDataPoint } from "../types";
+
+// Reads prices from static files: <baseUrl>/RELIANCE.json or RELIANCE.csv for daily bars, and
+// RELIANCE.1m.csv, RELIANCE.5m.csv ... for intraday. Put them in public/market-data/ to have Vite
+// serve them. CSV needs a header row with a date column and a close (or value) column, plus
+// optional open/high/low/volume columns; JSON is an array of { date, open, high, low, close, volume } objects.
+// Splits, bonuses and dividends for all symbols go in one corporate-actions.csv (see corporateActions.ts).
+
+// "NIFTY 50" -> "NIFTY50", "m&m" -> "M&M"
+export const symbolFileName = (symbol: string) => symbol.trim().toUpperCase().replace(/[^A-Z0-9&.-]/g, '');
+
+export const parseCsv = (text: string): Record<string, string>[] => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    if (lines.length < 2) return [];
+    const split = (line: string) => line.split(',').map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+    const header = split(lines[0]);
+    return lines.slice(1).map(line => {
+        const cells = split(line);
+        return Object.fromEntries(header.map((name, i) => [name, cells[i] ?? '']));
+    });
+};
+
+// The dev server answers unknown paths with index.html, so check the type too
+const servesFile = (response: Response) => response.ok && !(response.headers.get('Content-Type') || '').includes('text/html');
+
+// Loads a static CSV (e.g. from public/) once and shares the result. Never rejects: when the file
+// is missing or unreadable, `fallback` decides the result and the attempt is forgotten, so the
+// next call tries again.
+export const staticCsvLoader = <T>(
+    url: string,
+    parse: (rows: Record<string, string>[]) => T | Promise<T>,
+    fallback: (error: Error) => T | Promise<T>,
+): (() => Promise<T>) => {
+    let loading: Promise<T> | null = null;
+    return () => loading ??= (async () => {
+        try {
+            const response = await fetch(url);
+            if (!servesFile(response)) throw new Error(`${url} returned ${response.status}`);
+            return await parse(parseCsv(await response.text()));
+        } catch (e) {
+            loading = null;
+            return fallback(e instanceof Error ? e : new Error(String(e)));
+        }
+    })();
+};
+
+// Files that can serve each interval, best first. Finer intraday files are resampled; weekly and
+// monthly bars come from the daily file.
+const SOURCE_FILES: Record<BarInterval, string[]> = {
+    '1m': ['1m'],
+    '5m': ['5m', '1m'],
+    '15m': ['15m', '5m', '1m'],
+    '1h': ['1h', '15m', '5m', '1m'],
+    '1d': [''],
+    '1wk': [''],
+    '1mo': [''],
+};
+
+export const createFileMarketDataProvider = (baseUrl: string = '/market-data'): MarketDataProvider => {
+    // Files don't change while the app runs, so each one is fetched once
+    const loaded = new Map<string, Promise<StockDataPoint[] | null>>();
+    let actions: Promise<CorporateAction[]> | null = null;
+
+    const fetchFile = async (url: string) => {
+        const response = await fetch(url);
+        return servesFile(response) ? response.text() : null;
+    };
+
+    // null when neither <file>.json nor <file>.csv exists
+    const loadFile = async (symbol: string, file: string): Promise<StockDataPoint[] | null> => {
+        let json: string | null;
+        let csv: string | null = null;
+        try {
+            json = await fetchFile(`${baseUrl}/${file}.json`);
+            if (json === null) csv = await fetchFile(`${baseUrl}/${file}.csv`);
+        } catch (e) {
+            throw new MarketDataError('NETWORK', symbol, `Could not read price file for ${symbol}: ${(e as Error).message}`);
+        }
+
+        if (json !== null) {
+            try {
+                return normalizeSeries(JSON.parse(json), symbol);
+            } catch (e) {
+                if (e instanceof MarketDataError) throw e;
+                throw new MarketDataError('BAD_DATA', symbol, `${file}.json is not valid JSON`);
+            }
+        }
+        if (csv !== null) return normalizeSeries(parseCsv(csv), symbol);
+        return null;
+    };
+
+    // Loads are shared between callers, so they aren't tied to any one caller's signal
+    const getFile = (symbol: string, file: string) => {
+        let series = loaded.get(file);
+        if (!series) {
+            series = loadFile(symbol, file);
+            loaded.set(file, series);
+            // Only successes are kept; a missing file may be added later
+            series.then(points => { if (!points) loaded.delete(file); }, () => loaded.delete(file));
+        }
+        return series;
+    };
+
+    const getSeries = async (symbol: string, interval: BarInterval, signal?: AbortSignal) => {
+        const name = encodeURIComponent(symbolFileName(symbol));
+        for (const suffix of SOURCE_FILES[interval]) {
+            const file = suffix ? `${name}.${suffix}` : name;
+            const points = await getFile(symbol, file);
+            signal?.throwIfAborted();
+            if (points) return !suffix || suffix === interval ? points : resampleBars(points, interval);
+        }
+        const tried = SOURCE_FILES[interval].map(suffix => suffix ? `${name}.${suffix}` : name).join(', ');
+        throw new MarketDataError('NOT_FOUND', symbol, `No ${interval} price file for ${symbol} in ${baseUrl} (looked for ${tried} as .json/.csv)`);
+    };
+
+    return {
+        name: 'file',
+
+        getHistory: async (symbol, range, signal) => {
+            // Slice first so resampled weekly/monthly bars start at the range boundary
+            const interval = range.interval;
+            const base = await getSeries(symbol, isIntraday(interval) ? interval : '1d', signal);
+            const sliced = sliceToRange(base, range);
+            return interval === '1wk' || interval === '1mo' ? resampleBars(sliced, interval) : sliced;
+        },
+
+        getQuote: async (symbol, signal) => quoteFromSeries(symbol.trim().toUpperCase(), await getSeries(symbol, '1d', signal)),
+
+        getCorporateActions: async (symbol, signal) => {
+            if (!actions) {
+                actions = fetchFile(`${baseUrl}/corporate-actions.csv`)
+                    .then(csv => csv === null ? [] : parseCorporateActions(parseCsv(csv)))
+                    .catch(e => {
+                        actions = null;
+                        throw new MarketDataError('NETWORK', symbol, `Could not read corporate actions: ${(e as Error).message}`);
+                    });
+            }
+            const all = await actions;
+            signal?.throwIfAborted();
+            const term = symbolFileName(symbol);
+            return all.filter(action => symbolFileName(action.symbol) === term);
+        },
+    };
+};
@@ -0,0 +1,112 @@
+import type { AIProvider, AIRequest, AIResponse, AIVideoRequest } from "./aiProvider";
+import { throwIfAborted } from "./aiErrors";
+import { hashString } from "./hash";
+
+// Fixtures live in /fixtures/<feature>/<key>.json and are served by the
+// dev server middleware in vite.config.ts.
+const FIXTURE_ENDPOINT = '/__fixtures';
+
+interface VideoFixture {
+    mimeType: string;
+    data: string; // base64 encoded video bytes
+}
+
+// Identical requests map to the same fixture file
+export const fixtureKey = (request: AIRequest | AIVideoRequest) => {
+    const { feature, signal, ...rest } = request;
+    return hashString(JSON.stringify(rest));
+};
+
+const fixtureUrl = (feature: string, key: string) => `${FIXTURE_ENDPOINT}/${feature}/${key}.json`;
+
+// Exact match first, then the feature's default.json
+const loadFixture = async <T,>(request: AIRequest | AIVideoRequest): Promise<T> => {
+    const key = fixtureKey(request);
+    for (const name of [key, 'default']) {
+        const res = await fetch(fixtureUrl(request.feature, name), { signal: request.signal });
+        if (res.ok) return res.json();
+    }
+    throw new Error(`No fixture recorded for ${request.feature}/${key}. Run with AI_PROVIDER=record to capture one.`);
+};
+
+const saveFixture = async (request: AIRequest | AIVideoRequest, body: unknown) => {
+    try {
+        await fetch(fixtureUrl(request.feature, fixtureKey(request)), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body, null, 2),
+        });
+    } catch (e) {
+        console.warn("Failed to record fixture", e);
+    }
+};
+
+// Replay a fixture's text a few words at a time so streaming UIs behave like the real thing
+const replayText = async (text: string, onText: (delta: string) => void, signal?: AbortSignal) => {
+    const pieces = text.match(/\S+\s*/g) || [];
+    for (let i = 0; i < pieces.length; i += 3) {
+        throwIfAborted(signal);
+        onText(pieces.slice(i, i + 3).join(''));
+        await new Promise(resolve => setTimeout(resolve, 20));
+    }
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve((reader.result as string).split(',')[1]);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+};
+
+const base64ToBlob = (data: string, mimeType: string) => {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+};
+
+// Replays canned responses from disk. No key or network needed.
+export const createFixtureProvider = (): AIProvider => ({
+    name: 'fixture',
+
+    generateContent: (request) => loadFixture<AIResponse>(request),
+
+    generateContentStream: async (request, onText) => {
+        const response = await loadFixture<AIResponse>(request);
+        await replayText(response.text, onText, request.signal);
+        return response;
+    },
+
+    generateVideo: async (request) => {
+        const fixture = await loadFixture<VideoFixture>(request);
+        return base64ToBlob(fixture.data, fixture.mimeType);
+    },
+});
+
+// Forwards to a real provider and writes every response to disk for later replay
+export const createRecordingProvider = (inner: AIProvider): AIProvider => ({
+    name: `record:${inner.name}`,
+
+    generateContent: async (request) => {
+        const response = await inner.generateContent(request);
+        await saveFixture(request, response);
+        return response;
+    },
+
+    generateContentStream: async (request, onText) => {
+        const response = await inner.generateContentStream(request, onText);
+        await saveFixture(request, response);
+        return response;
+    },
+
+    generateVideo: async (request) => {
+        const blob = await inner.generateVideo(request);
+        const fixture: VideoFixture = { mimeType: blob.type || 'video/mp4', data: await blobToBase64(blob) };
+        await saveFixture(request, fixture);
+        return blob;
+    },
+});
@@ -0,0 +1,123 @@
+import { GoogleGenAI, GenerateContentResponse, GenerateContentResponseUsageMetadata, Part } from "@google/genai";
+import type { AIFeature, AIProvider, AIResponse, AIUsage } from "./aiProvider";
+import { AIError, throwIfAborted } from "./aiErrors";
+
+type Source = { title: string; uri: string };
+
+// Pull grounding citations (web sources) out of a response
+const extractSources = (response: GenerateContentResponse): Source[] => {
+    return response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map(
+      (chunk: any) => ({
+          uri: chunk.web?.uri,
+          title: chunk.web?.title || new URL(chunk.web?.uri).hostname.replace('www.', '')
+      })
+    ).filter((s: any) => s.uri) || [];
+};
+
+const toUsage = (meta?: GenerateContentResponseUsageMetadata): AIUsage | undefined => {
+    if (!meta) return undefined;
+    return {
+        promptTokens: (meta.promptTokenCount || 0) + (meta.toolUsePromptTokenCount || 0),
+        outputTokens: meta.candidatesTokenCount || 0,
+        thinkingTokens: meta.thoughtsTokenCount || 0,
+    };
+};
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+// Blocked prompts/answers come back as "successful" responses with no text
+const assertNotBlocked = (response: GenerateContentResponse, feature: AIFeature) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason))) {
+        throw new AIError('SAFETY_BLOCKED', `Blocked by safety filters (${blockReason || finishReason})`, { feature });
+    }
+};
+
+// Talks to Gemini directly. In the browser the key comes from process.env.API_KEY (only inlined
+// when no AI_PROXY_URL is configured); server/aiProxy.ts passes its own.
+export const createGeminiProvider = (apiKey: string | undefined = process.env.API_KEY): AIProvider => {
+    // Ensure the API key is available
+    if (!apiKey) {
+      console.error("API_KEY is missing via process.env.API_KEY");
+    }
+
+    const ai = new GoogleGenAI({ apiKey: apiKey || "" });
+
+    return {
+        name: 'gemini',
+
+        generateContent: async ({ feature, model, contents, config, signal }): Promise<AIResponse> => {
+            const response = await ai.models.generateContent({ model, contents, config: { ...config, abortSignal: signal } });
+            assertNotBlocked(response, feature);
+            return {
+                text: response.text || "",
+                sources: extractSources(response),
+                functionCalls: response.functionCalls,
+                content: response.candidates?.[0]?.content,
+                usage: toUsage(response.usageMetadata),
+            };
+        },
+
+        generateContentStream: async ({ feature, model, contents, config, signal }, onText): Promise<AIResponse> => {
+            const stream = await ai.models.generateContentStream({ model, contents, config: { ...config, abortSignal: signal } });
+            let text = "";
+            // Grounding metadata usually arrives on the last chunks, so collect across all of them
+            const sources = new Map<string, Source>();
+            // Keep every part (function calls carry thought signatures the model needs back)
+            const parts: Part[] = [];
+            // Usage arrives with the final chunk
+            let usage: AIUsage | undefined;
+
+            for await (const chunk of stream) {
+                throwIfAborted(signal, feature);
+                assertNotBlocked(chunk, feature);
+                const delta = chunk.text || "";
+                if (delta) {
+                    text += delta;
+                    onText(delta);
+                }
+                extractSources(chunk).forEach(s => sources.set(s.uri, s));
+                parts.push(...(chunk.candidates?.[0]?.content?.parts || []));
+                usage = toUsage(chunk.usageMetadata) ?? usage;
+            }
+
+            const functionCalls = parts.filter(p => p.functionCall).map(p => p.functionCall!);
+            return {
+                text,
+                sources: [...sources.values()],
+                functionCalls: functionCalls.length > 0 ? functionCalls : undefined,
+                content: { role: 'model', parts },
+                usage,
+            };
+        },
+
+        generateVideo: async ({ feature, model, prompt, config, signal }) => {
+            // Inside AI Studio the user picks a paid key (Required for Veo)
+            const inAIStudio = typeof window !== 'undefined' && !!window.aistudio;
+            if (inAIStudio && !await window.aistudio.hasSelectedApiKey()) {
+                throw new Error("API_KEY_SELECTION_REQUIRED");
+            }
+
+            // Re-initialize to ensure we have the user-selected key
+            const videoKey = inAIStudio ? process.env.API_KEY : apiKey;
+            const veoAi = new GoogleGenAI({ apiKey: videoKey });
+
+            let operation = await veoAi.models.generateVideos({ model, prompt, config: { ...config, abortSignal: signal } });
+
+            // Stopping only ends our polling; the job itself keeps running server-side
+            while (!operation.done) {
+              await new Promise(resolve => setTimeout(resolve, 5000));
+              throwIfAborted(signal, feature);
+              operation = await veoAi.operations.getVideosOperation({operation: operation, config: { abortSignal: signal }});
+            }
+
+            const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
+            if (!uri) throw new Error("No video generated");
+
+            // Fetch the actual bytes
+            const vidResponse = await fetch(`${uri}&key=${videoKey}`, { signal });
+            return vidResponse.blob();
+        },
+    };
+};
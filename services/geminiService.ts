@@ -1,13 +1,32 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
+import { FunctionCallingConfigMode, type Content } from "@google/genai";
+import { AIProvider, AIResponse, createAIProvider } from "./aiProvider";
+import { toAIError, withRetry } from "./aiErrors";
+import { extractJson, parseStructured, priceSeriesSchema, screenerRowsSchema, screenshotAnalysisSchema, StructuredOutputError } from "./schemas";
+import { chatToolDeclarations, runChatTool } from "./chatTools";
+// Circular (marketDataService falls back to getGraphData below); only used inside functions
+import { getPriceHistory } from "./marketDataService";
+import { getActivePrompt, renderPrompt } from "./promptTemplates";
+import { createMeteredProvider } from "./usageMeter";
+import { cachedRequest } from "./responseCache";
+import { ChartRange, presetRange, rangeDays } from "./chartRange";
+import { PromptRef, ScreenerRow, ScreenshotAnalysis, StockDataPoint } from "../types";
 
-// Ensure the API key is available
-const apiKey = process.env.API_KEY;
-if (!apiKey) {
-  console.error("API_KEY is missing via process.env.API_KEY");
-}
+// Every call below goes through the active provider (Gemini, fixtures or recording),
+// wrapped so each call is metered and checked against the usage budgets (usageMeter.ts).
+// Prompts come from the template registry (promptTemplates.ts); results that end up in
+// history carry the template version that produced them.
+// Price series and screener results are cached with per-function TTLs (responseCache.ts).
+// Failures always reject with an AIError (see aiErrors.ts); transient ones are retried first.
+// Each export takes an optional AbortSignal; aborting rejects with kind 'CANCELLED'.
+let provider: AIProvider = createMeteredProvider(createAIProvider());
+
+export const getAIProvider = () => provider;
 
-const ai = new GoogleGenAI({ apiKey: apiKey || "" });
+// Swap the backend at runtime, e.g. to point a view at fixtures
+export const setAIProvider = (next: AIProvider) => {
+  provider = createMeteredProvider(next);
+};
 
 // Helper to convert file to base64
 const fileToBase64 = (file: File): Promise<string> => {
@@ -24,201 +43,193 @@ const fileToBase64 = (file: File): Promise<string> => {
     });
 }
 
-// 1. General Chat with Search Grounding (for accuracy)
+// 1. General Chat with Tools (search, prices, indicators, alerts, watchlist)
+// Streams: onText receives each chunk. The model may call tools (services/chatTools.ts) over
+// several rounds; the resolved value has the full text, sources, any chart and what the tools did.
+// After MAX_TOOL_ROUNDS rounds of tool calls, one more request forbids them so the reply ends in text.
+const MAX_TOOL_ROUNDS = 5;
+
+
+// Grounded lookup behind the chat's search_web tool
+const searchWeb = (query: string, signal?: AbortSignal) => withRetry('chat', () => provider.generateContent({
+  feature: 'chat',
+  signal,
+  model: "gemini-2.5-flash",
+  contents: query,
+  config: {
+    systemInstruction: "Answer briefly with figures and dates for the Indian market (NSE/BSE). Use Google Search.",
+    tools: [{ googleSearch: {} }],
+  },
+}), { signal });
+
 export const sendMarketChatMessage = async (
   history: { role: string; parts: { text: string }[] }[],
-  message: string
-) => {
+  message: string,
+  onText: (delta: string) => void = () => {},
+  signal?: AbortSignal
+): Promise<AIResponse & { actions: string[]; chartData?: StockDataPoint[]; template: PromptRef }> => {
   try {
-    const chat = ai.chats.create({
-      model: "gemini-2.5-flash",
-      config: {
-        systemInstruction: `You are StockSage, a senior Indian Stock Market Analyst (SEBI Registered style persona).
-        
-        CRITICAL RULES FOR ACCURACY:
-        1. **Identity**: You analyze the NSE/BSE, Nifty 50, and Bank Nifty.
-        2. **Language**: Use natural "Hinglish" (Mix of Hindi & English) to be friendly and clear, OR English if the user prefers.
-        3. **Data Source**: You **MUST** use the 'googleSearch' tool for EVERY query about prices, news, or trends. DO NOT guess prices.
-        4. **Off-Topic**: If the user asks about anything NOT related to money, finance, or stocks (e.g., "Tell me a joke", "Capital of France"), politely refuse: "Main bas Stock Market aur Finance ke baare mein baat kar sakta hoon."
-        
-        RESPONSE FORMAT:
-        - **Direct Answer**: Give the price/trend immediately.
-        - **Analysis**: Why is it moving? (Short reason).
-        - **Target/StopLoss**: If asked for levels, give technical support/resistance.
-        - **Chart Data**: If the user asks for a chart/trend/performance, ALWAYS generate JSON at the end.
-        
-        JSON CHART FORMAT (Strict):
-        \`\`\`json
-        [
-          {"date": "2024-01-01", "value": 1200.50},
-          {"date": "2024-01-02", "value": 1215.00}
-        ]
-        \`\`\`
-        `,
-        tools: [{ googleSearch: {} }],
-      },
-      history: history,
-    });
+    const systemPrompt = renderPrompt('chat-system');
+    const contents: Content[] = [...history, { role: 'user', parts: [{ text: message }] }];
+    const sources = new Map<string, AIResponse['sources'][number]>();
+    const actions: string[] = [];
+    let chartData: StockDataPoint[] | undefined;
+    let text = "";
+    // A stream can only be retried if nothing has been shown to the user yet
+    let emitted = false;
 
-    const response = await chat.sendMessage({ message });
-    
-    // Extract text
-    const text = response.text || "Market data currently unavailable. Please check connection.";
-    
-    // Extract grounding metadata (sources) with titles
-    const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map(
-      (chunk: any) => ({
-          uri: chunk.web?.uri,
-          title: chunk.web?.title || new URL(chunk.web?.uri).hostname.replace('www.', '')
-      })
-    ).filter((s: any) => s.uri) || [];
+    for (let round = 0; ; round++) {
+      const lastRound = round === MAX_TOOL_ROUNDS;
+      const response = await withRetry('chat', () => provider.generateContentStream({
+        feature: 'chat',
+        signal,
+        model: "gemini-2.5-flash",
+        contents: [...contents],
+        config: {
+          systemInstruction: systemPrompt.text,
+          tools: [{ functionDeclarations: chatToolDeclarations }],
+          // The last round keeps the declarations (the history calls them) but can't call any more
+          ...(lastRound ? { toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } } } : {}),
+        },
+      }, (delta) => { emitted = true; onText(delta); }), { canRetry: () => !emitted, signal });
 
-    return { text, sources };
+      text += response.text;
+      response.sources.forEach(s => sources.set(s.uri, s));
+      const calls = response.functionCalls || [];
+      if (calls.length === 0 || lastRound) break;
+
+      // Run the tools, then hand the results back for the next round
+      const results = await Promise.all(calls.map(call => runChatTool(call, { getPriceHistory, searchWeb, signal })));
+      contents.push(response.content || { role: 'model', parts: calls.map(functionCall => ({ functionCall })) });
+      contents.push({
+        role: 'user',
+        parts: calls.map((call, i) => ({ functionResponse: { id: call.id, name: call.name, response: results[i].response } })),
+      });
+      results.forEach(result => {
+        if (result.action) actions.push(result.action);
+        result.sources?.forEach(s => sources.set(s.uri, s));
+        if (result.chartData && result.chartData.length > 1) chartData = result.chartData;
+      });
+    }
+
+    return {
+      text: text || "Market data currently unavailable. Please check connection.",
+      sources: [...sources.values()],
+      actions,
+      chartData,
+      template: systemPrompt.ref,
+    };
   } catch (error) {
     console.error("Chat Error:", error);
-    return { text: "Server connection issue. Please try again.", sources: [] };
+    throw toAIError(error, 'chat');
   }
 };
 
 // 2. Deep Analysis with Thinking Config
-export const getDeepAnalysis = async (prompt: string) => {
+// Streams like chat; the thinking phase produces no text, so the first chunk can take a while
+export const getDeepAnalysis = async (prompt: string, onText: (delta: string) => void = () => {}, signal?: AbortSignal) => {
   try {
     // Wrap the user query to enforce the persona and depth
-    const enhancedPrompt = `
-    ROLE: You are a Senior Hedge Fund Manager for the Indian Market.
-    USER QUERY: "${prompt}"
-    
-    INSTRUCTIONS:
-    - If the user asks in Hindi/Hinglish, reply in Hinglish.
-    - Focus strictly on Financial/Economic impact.
-    - Provide a "Buy", "Sell", or "Hold" perspective based on data.
-    - Analyze: Technicals (RSI, Moving Averages), Fundamentals (P/E, Earnings), and Sentiment.
-    `;
+    const enhancedPrompt = renderPrompt('deep-analysis', { query: prompt });
 
-    const response = await ai.models.generateContent({
+    let emitted = false;
+    const response = await withRetry('deep-analysis', () => provider.generateContentStream({
+      feature: 'deep-analysis',
+      signal,
       model: "gemini-3-pro-preview", // Using Pro for complex reasoning
-      contents: enhancedPrompt,
+      contents: enhancedPrompt.text,
       config: {
         thinkingConfig: { thinkingBudget: 4096 }, // Enable thinking for depth
         tools: [{ googleSearch: {} }], // Search for live facts to ground the thinking
       },
-    });
-    return response.text;
+    }, (delta) => { emitted = true; onText(delta); }), { canRetry: () => !emitted, signal });
+    return { ...response, template: enhancedPrompt.ref };
   } catch (error) {
     console.error("Deep Analysis Error:", error);
-    throw error;
+    throw toAIError(error, 'deep-analysis');
   }
 };
 
 // 3. Visual Analysis (Pure Graph Data)
-export const getGraphData = async (symbol: string, period: string = '1M') => {
-  try {
-    let durationText = "last 30 days";
-    let frequencyText = "daily";
+// Cached per symbol + range (see responseCache.ts), so comparisons and chat tools reuse series.
+// Only daily or coarser: the model has no intraday prices to recall. Long spans are kept coarse
+// (weekly past ~2 months, monthly past ~6) so the series stays short enough to be plausible.
+// Throws StructuredOutputError when the response isn't a valid price series
+export const getGraphData = (symbol: string, range: ChartRange = presetRange('1M'), signal?: AbortSignal): Promise<StockDataPoint[]> => {
+  const term = symbol.trim().toUpperCase();
+  return cachedRequest('graph', { symbol: term, range }, (signal) => fetchGraphData(term, range, signal), signal);
+};
 
-    // Adjust prompt based on period to manage data density and relevance
-    switch(period) {
-        case '1W': 
-            durationText = "last 7 days"; 
-            frequencyText = "daily";
-            break;
-        case '1M': 
-            durationText = "last 30 days"; 
-            frequencyText = "daily";
-            break;
-        case '3M': 
-            durationText = "last 3 months"; 
-            frequencyText = "weekly";
-            break;
-        case '6M': 
-            durationText = "last 6 months"; 
-            frequencyText = "weekly";
-            break;
-        case '1Y': 
-            durationText = "last 1 year"; 
-            frequencyText = "monthly";
-            break;
-        default: 
-            durationText = "last 30 days";
-            frequencyText = "daily";
-    }
+const PERIOD_TEXT: Record<string, string> = {
+  '1D': 'last trading day', '5D': 'last 5 trading days', '1W': 'last 7 days', '1M': 'last 30 days', '3M': 'last 3 months',
+  '6M': 'last 6 months', '1Y': 'last 1 year', '3Y': 'last 3 years', '5Y': 'last 5 years', 'MAX': 'entire listed history',
+};
+
+const fetchGraphData = async (symbol: string, range: ChartRange, signal: AbortSignal): Promise<StockDataPoint[]> => {
+  try {
+    const days = rangeDays(range);
+    const frequencyText = range.interval === '1mo' || days > 200 ? "monthly" : range.interval === '1wk' || days > 60 ? "weekly" : "daily";
+    const durationText = range.period === 'CUSTOM'
+      ? `period from ${range.from} to ${range.to}`
+      : PERIOD_TEXT[range.period] ?? PERIOD_TEXT['1M'];
 
-    // Optimized prompt for speed and format strictness
-    const prompt = `Return a JSON array of ${frequencyText} closing prices for ${symbol} for the ${durationText}.
-    FORMAT: \`\`\`json [{"date": "YYYY-MM-DD", "value": 123.45}] \`\`\`
+    // Optimized prompt for speed and format strictness.
+    // Search grounding can't be combined with responseSchema, so the schema goes in the prompt.
+    const prompt = `Return a JSON array of ${frequencyText} OHLCV bars for ${symbol} for the ${durationText}. "value" is the close.
+    FORMAT: \`\`\`json [{"date": "YYYY-MM-DD", "open": 122.10, "high": 124.00, "low": 121.50, "value": 123.45, "volume": 1520000}] \`\`\`
+    SCHEMA: ${JSON.stringify(priceSeriesSchema)}
     NO TEXT. JUST JSON. Use Google Search for data.`;
 
-    const response = await ai.models.generateContent({
+    const response = await withRetry('graph', () => provider.generateContent({
+      feature: 'graph',
+      signal,
       model: "gemini-2.5-flash",
       contents: prompt,
       config: {
         tools: [{ googleSearch: {} }],
       },
-    });
-    
-    const text = response.text || "";
-    
-    // Manual extraction of JSON block
-    const jsonMatch = text.match(/```json\s*(\[\s*\{[\s\S]*?\}\s*\])\s*```/) || text.match(/(\[\s*\{[\s\S]*?\}\s*\])/);
-    
-    if (jsonMatch && jsonMatch[1]) {
-        return JSON.parse(jsonMatch[1]);
-    }
+    }), { signal });
     
-    // Fallback: try to parse the whole text if it looks like JSON
-    try {
-        return JSON.parse(text);
-    } catch {
-        console.warn("Could not parse JSON from Visual Analysis response:", text);
-        return [];
-    }
+    const bars = parseStructured<StockDataPoint[]>('graph', response.text, priceSeriesSchema, 'price series');
+    // Nullable OHLCV fields come back as null; the chart treats missing and null alike, drop them
+    return bars.map(bar => Object.fromEntries(Object.entries(bar).filter(([, v]) => v !== null)) as StockDataPoint);
   } catch (error) {
     console.error("Graph Data Error:", error);
-    return [];
+    throw toAIError(error, 'graph');
   }
 };
 
 // 4. Veo Video Generation
-export const generateMarketVideo = async (prompt: string) => {
-    // Check for API Key selection (Required for Veo)
-    if (window.aistudio && !await window.aistudio.hasSelectedApiKey()) {
-        throw new Error("API_KEY_SELECTION_REQUIRED");
-    }
-
-    // Re-initialize to ensure we have the user-selected key
-    const veoAi = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    let operation = await veoAi.models.generateVideos({
-      model: 'veo-3.1-fast-generate-preview',
-      prompt: prompt,
-      config: {
-        numberOfVideos: 1,
-        resolution: '720p',
-        aspectRatio: '16:9'
-      }
-    });
-
-    while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 5000));
-      operation = await veoAi.operations.getVideosOperation({operation: operation});
+// Not retried automatically: a retry would start (and bill) a whole new generation job
+export const generateMarketVideo = async (prompt: string, signal?: AbortSignal) => {
+    try {
+        const blob = await provider.generateVideo({
+          feature: 'video',
+          signal,
+          model: 'veo-3.1-fast-generate-preview',
+          prompt: prompt,
+          config: {
+            numberOfVideos: 1,
+            resolution: '720p',
+            aspectRatio: '16:9'
+          }
+        });
+        return URL.createObjectURL(blob);
+    } catch (error) {
+        console.error("Video Generation Error", error);
+        throw toAIError(error, 'video');
     }
-
-    const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
-    if (!uri) throw new Error("No video generated");
-    
-    // Fetch the actual bytes
-    const vidResponse = await fetch(`${uri}&key=${process.env.API_KEY}`);
-    const blob = await vidResponse.blob();
-    return URL.createObjectURL(blob);
 };
 
 // 5. Multimodal Analysis (Image/Video)
-export const analyzeUploadedFile = async (file: File, prompt: string) => {
+export const analyzeUploadedFile = async (file: File, prompt: string, signal?: AbortSignal) => {
     try {
         const base64Data = await fileToBase64(file);
         const mimeType = file.type;
         
-        const response = await ai.models.generateContent({
+        const response = await withRetry('file-analysis', () => provider.generateContent({
+            feature: 'file-analysis',
+            signal,
             model: "gemini-2.5-flash", // Flash is good for multimodal
             contents: {
                 parts: [
@@ -226,109 +237,90 @@ export const analyzeUploadedFile = async (file: File, prompt: string) => {
                     { text: prompt }
                 ]
             }
-        });
+        }), { signal });
         return response.text;
     } catch (error) {
         console.error("Multimodal Error", error);
-        return "Failed to analyze the file.";
+        throw toAIError(error, 'file-analysis');
     }
 }
 
 // 6. Specialized Advance Screen Analysis
-export const analyzeFinancialScreenshot = async (file: File) => {
+// Throws StructuredOutputError when no chart is detected or the response is malformed
+export const analyzeFinancialScreenshot = async (file: File, signal?: AbortSignal): Promise<{ analysis: ScreenshotAnalysis; template: PromptRef }> => {
     try {
         const base64Data = await fileToBase64(file);
         const mimeType = file.type;
         
-        const prompt = `You are a Senior Technical Analyst for the Stock Market. 
-        Analyze this chart/screenshot in detail.
-        
-        CRITICAL: RETURN ONLY JSON. DO NOT RETURN PLAIN TEXT.
-        
-        JSON Structure:
-        {
-          "symbol": "Detected Symbol Name",
-          "trend": "Bullish / Bearish / Sideways",
-          "summary": "Brief 2-line summary of what the chart shows.",
-          "technical_table": [
-            { "parameter": "RSI", "value": "65", "signal": "Neutral/Bullish" },
-            { "parameter": "Support", "value": "21,500", "signal": "Strong Support" },
-            { "parameter": "Resistance", "value": "22,000", "signal": "Key Hurdle" },
-            { "parameter": "MACD", "value": "Positive Crossover", "signal": "Buy" }
-          ],
-          "trade_setup": {
-            "action": "BUY / SELL / WAIT",
-            "entry": "Above 21,800",
-            "stop_loss": "Below 21,450",
-            "target": "22,250"
-          }
-        }
-        
-        If you cannot detect a financial chart, return {"error": "No chart detected"}.`;
+        const prompt = renderPrompt('screenshot');
 
-        const response = await ai.models.generateContent({
+        const response = await withRetry('screenshot', () => provider.generateContent({
+            feature: 'screenshot',
+            signal,
             model: "gemini-2.5-flash", 
             contents: {
                 parts: [
                     { inlineData: { mimeType, data: base64Data } },
-                    { text: prompt }
+                    { text: prompt.text }
                 ]
+            },
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: screenshotAnalysisSchema,
             }
-        });
+        }), { signal });
         
-        const text = response.text || "{}";
-        const jsonMatch = text.match(/```json\s*(\{[\s\S]*?\})\s*```/) || text.match(/(\{[\s\S]*?\})/);
-        if (jsonMatch && jsonMatch[1]) {
-            return jsonMatch[1]; // Return JSON string
+        // The model reports "no chart" through the error field rather than the analysis
+        const raw = extractJson(response.text) as { error?: string | null } | undefined;
+        if (raw?.error) {
+            throw new StructuredOutputError('screenshot', raw.error, [], response.text);
         }
-        return text; // Fallback to text if JSON parsing fails
+
+        return {
+            analysis: parseStructured<ScreenshotAnalysis>('screenshot', response.text, screenshotAnalysisSchema, 'screen analysis'),
+            template: prompt.ref,
+        };
     } catch (error) {
         console.error("Screen Analysis Error", error);
-        return JSON.stringify({ error: "Failed to analyze screen. Please try again." });
+        throw toAIError(error, 'screenshot');
     }
 }
 
 // 7. Stock Screener with Grounding
-export const runStockScreener = async (criteria: { sector: string, marketCap: string, peRatio: string, volume: string }) => {
+// Cached per filter combination (see responseCache.ts).
+// Throws StructuredOutputError when the response isn't a valid list of rows
+type ScreenerCriteria = { sector: string, marketCap: string, peRatio: string, volume: string };
+
+export const runStockScreener = (criteria: ScreenerCriteria, signal?: AbortSignal): Promise<ScreenerRow[]> => {
+    const { sector, marketCap, peRatio, volume } = criteria;
+    // An edited screener prompt shouldn't be answered from results of the old one
+    const prompt = getActivePrompt('screener').ref.version;
+    return cachedRequest('screener', { sector, marketCap, peRatio, volume, prompt }, (signal) => fetchScreenerRows(criteria, signal), signal);
+};
+
+const fetchScreenerRows = async (criteria: ScreenerCriteria, signal: AbortSignal): Promise<ScreenerRow[]> => {
     try {
-        const prompt = `Use Google Search to find 5-10 stocks that match the following specific criteria:
-        
-        - Sector: ${criteria.sector}
-        - Market Cap: ${criteria.marketCap}
-        - P/E Ratio: ${criteria.peRatio}
-        - Volume: ${criteria.volume}
-        
-        CRITICAL OUTPUT FORMAT:
-        Return ONLY a JSON array inside a code block.
-        Each object must have: "symbol", "name", "price" (number), "peRatio" (number or "N/A"), "marketCap" (string), "volume" (string).
-        
-        Example:
-        \`\`\`json
-        [
-            {"symbol": "TCS", "name": "Tata Consultancy Services", "price": 3500.00, "peRatio": 29.5, "marketCap": "12.5T", "volume": "2M"}
-        ]
-        \`\`\`
-        `;
+        const prompt = renderPrompt('screener', {
+            sector: criteria.sector,
+            marketCap: criteria.marketCap,
+            peRatio: criteria.peRatio,
+            volume: criteria.volume,
+            schema: JSON.stringify(screenerRowsSchema),
+        });
 
-        const response = await ai.models.generateContent({
+        const response = await withRetry('screener', () => provider.generateContent({
+            feature: 'screener',
+            signal,
             model: "gemini-2.5-flash",
-            contents: prompt,
+            contents: prompt.text,
             config: {
                 tools: [{ googleSearch: {} }],
             },
-        });
+        }), { signal });
 
-        const text = response.text || "";
-        const jsonMatch = text.match(/```json\s*(\[\s*\{[\s\S]*?\}\s*\])\s*```/) || text.match(/(\[\s*\{[\s\S]*?\}\s*\])/);
-        
-        if (jsonMatch && jsonMatch[1]) {
-            return JSON.parse(jsonMatch[1]);
-        }
-        
-        // Try parsing raw text if clean
-        return JSON.parse(text);
+        return parseStructured<ScreenerRow[]>('screener', response.text, screenerRowsSchema, 'screener');
     } catch (error) {
         console.error("Screener Error:", error);
-        return [];
+        throw toAIError(error, 'screener');
     }
 }
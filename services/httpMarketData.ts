@@ -0,0 +1,80 @@
+import type { MarketDataProvider } from "./marketDataProvider";
+import { MarketDataError, normalizeSeries } from "./marketDataProvider";
+import { setRangeParams, sliceToRange } from "./chartRange";
+import { parseCorporateActions } from "./corporateActions";
+
+// Reads prices from your own market data service (MARKET_DATA_URL):
+//   GET <baseUrl>/history?symbol=RELIANCE&period=1M&interval=1d -> [{ date, close }] (or { points: [...] })
+//       period is a preset (1D ... MAX) or CUSTOM with from/to=YYYY-MM-DD; intraday dates are ISO timestamps
+//   GET <baseUrl>/quote?symbol=RELIANCE             -> { price, previousClose } or { price, change, changePercent }
+//   GET <baseUrl>/actions?symbol=RELIANCE           -> [{ symbol, date, type, ratio, amount }] (see corporateActions.ts)
+// A 404 means the symbol is unknown.
+
+// null/missing -> NaN (Number(null) would be 0)
+const toNumber = (value: unknown) => value == null || value === '' ? NaN : Number(value);
+
+export const createHttpMarketDataProvider = (baseUrl: string): MarketDataProvider => {
+    const root = baseUrl.replace(/\/$/, '');
+
+    const getJson = async (path: string, symbol: string, signal?: AbortSignal): Promise<any> => {
+        let response: Response;
+        try {
+            response = await fetch(`${root}${path}`, { signal, headers: { Accept: 'application/json' } });
+        } catch (e) {
+            if (signal?.aborted) throw e;
+            throw new MarketDataError('NETWORK', symbol, `Market data service unreachable: ${(e as Error).message}`);
+        }
+        if (response.status === 404) {
+            throw new MarketDataError('NOT_FOUND', symbol, `Market data service has no data for ${symbol}`);
+        }
+        if (!response.ok) {
+            throw new MarketDataError('NETWORK', symbol, `Market data service returned ${response.status}`);
+        }
+        try {
+            return await response.json();
+        } catch {
+            throw new MarketDataError('BAD_DATA', symbol, `Market data service sent invalid JSON for ${symbol}`);
+        }
+    };
+
+    return {
+        name: 'http',
+
+        getHistory: async (symbol, range, signal) => {
+            const term = symbol.trim().toUpperCase();
+            const params = new URLSearchParams({ symbol: term });
+            setRangeParams(params, range);
+            const body = await getJson(`/history?${params}`, term, signal);
+            // The service may send more than asked for
+            return sliceToRange(normalizeSeries(Array.isArray(body) ? body : body?.points, term), range);
+        },
+
+        getQuote: async (symbol, signal) => {
+            const term = symbol.trim().toUpperCase();
+            const body = await getJson(`/quote?symbol=${encodeURIComponent(term)}`, term, signal);
+            const price = toNumber(body?.price);
+            if (isNaN(price)) {
+                throw new MarketDataError('BAD_DATA', term, `Quote for ${term} has no price`);
+            }
+            const previousClose = toNumber(body.previousClose);
+            let change = toNumber(body.change);
+            if (isNaN(change)) change = isNaN(previousClose) ? 0 : price - previousClose;
+            let changePercent = toNumber(body.changePercent);
+            if (isNaN(changePercent)) changePercent = price - change ? (change / (price - change)) * 100 : 0;
+            return { symbol: term, price, change, changePercent, asOf: String(body.asOf ?? new Date().toISOString()) };
+        },
+
+        getCorporateActions: async (symbol, signal) => {
+            const term = symbol.trim().toUpperCase();
+            try {
+                const body = await getJson(`/actions?symbol=${encodeURIComponent(term)}`, term, signal);
+                // Rows may leave out the symbol since it was asked for
+                const rows = (Array.isArray(body) ? body : body?.actions ?? []).map((row: any) => ({ symbol: term, ...row }));
+                return parseCorporateActions(rows);
+            } catch (e) {
+                if (e instanceof MarketDataError && e.kind === 'NOT_FOUND') return [];
+                throw e;
+            }
+        },
+    };
+};
@@ -0,0 +1,407 @@
+// Technical indicators computed from price bars ({ value (close), open?, high?, low?, volume? }).
+// Each indicator has user-set parameters; a chart's selection is a list of IndicatorConfig,
+// stored and shared as text like "EMA-21,RSI-14,MACD-12-26-9" (see encodeIndicators).
+// Series are aligned with the input bars and hold null until there is enough history.
+
+export type IndicatorType = 'SMA' | 'EMA' | 'BB' | 'VWAP' | 'SUPERTREND' | 'RSI' | 'MACD' | 'STOCH' | 'ATR' | 'ADX' | 'OBV';
+
+export interface IndicatorConfig {
+    type: IndicatorType;
+    params: number[];
+}
+
+interface IndicatorParam {
+    name: string;
+    default: number;
+    min: number;
+    max: number;
+    step?: number; // 1 unless set
+}
+
+interface IndicatorOutput {
+    key: string;
+    label: string;
+    color: string;
+    // Drawn as bars (MACD histogram) rather than a line
+    bars?: boolean;
+}
+
+export interface IndicatorDefinition {
+    type: IndicatorType;
+    label: string;
+    description: string;
+    params: IndicatorParam[];
+    // 'price' overlays the price axis; 'pane' gets its own chart below
+    placement: 'price' | 'pane';
+    outputs: IndicatorOutput[];
+    // Fixed scale and guide lines for bounded oscillators
+    domain?: [number, number];
+    levels?: number[];
+    needsVolume?: boolean;
+}
+
+type Series = (number | null)[];
+
+interface Bar {
+    value: number;
+    open?: number;
+    high?: number;
+    low?: number;
+    volume?: number;
+    date: string;
+}
+
+const period = (name = 'Period', value = 14): IndicatorParam => ({ name, default: value, min: 2, max: 500 });
+
+export const INDICATORS: Record<IndicatorType, IndicatorDefinition> = {
+    SMA: {
+        type: 'SMA', label: 'SMA', description: 'Simple moving average', placement: 'price',
+        params: [period('Period', 20)],
+        outputs: [{ key: 'sma', label: 'SMA', color: '#FACC15' }],
+    },
+    EMA: {
+        type: 'EMA', label: 'EMA', description: 'Exponential moving average', placement: 'price',
+        params: [period('Period', 21)],
+        outputs: [{ key: 'ema', label: 'EMA', color: '#F472B6' }],
+    },
+    BB: {
+        type: 'BB', label: 'Bollinger', description: 'Bollinger Bands', placement: 'price',
+        params: [period('Period', 20), { name: 'Std dev', default: 2, min: 0.5, max: 5, step: 0.5 }],
+        outputs: [
+            { key: 'upper', label: 'Upper', color: '#93C5FD' },
+            { key: 'middle', label: 'Middle', color: '#60A5FA' },
+            { key: 'lower', label: 'Lower', color: '#93C5FD' },
+        ],
+    },
+    VWAP: {
+        type: 'VWAP', label: 'VWAP', description: 'Volume-weighted average price (resets daily on intraday bars)', placement: 'price',
+        params: [], needsVolume: true,
+        outputs: [{ key: 'vwap', label: 'VWAP', color: '#2DD4BF' }],
+    },
+    SUPERTREND: {
+        type: 'SUPERTREND', label: 'Supertrend', description: 'ATR trailing stop that flips with the trend', placement: 'price',
+        params: [period('ATR period', 10), { name: 'Multiplier', default: 3, min: 0.5, max: 10, step: 0.5 }],
+        outputs: [
+            { key: 'up', label: 'Up', color: '#10B981' },
+            { key: 'down', label: 'Down', color: '#F43F5E' },
+        ],
+    },
+    RSI: {
+        type: 'RSI', label: 'RSI', description: "Relative strength index (Wilder's smoothing)", placement: 'pane',
+        params: [period('Period', 14)], domain: [0, 100], levels: [30, 70],
+        outputs: [{ key: 'rsi', label: 'RSI', color: '#A78BFA' }],
+    },
+    MACD: {
+        type: 'MACD', label: 'MACD', description: 'Moving average convergence/divergence', placement: 'pane',
+        params: [period('Fast', 12), period('Slow', 26), period('Signal', 9)], levels: [0],
+        outputs: [
+            { key: 'hist', label: 'Histogram', color: '#6B7280', bars: true },
+            { key: 'macd', label: 'MACD', color: '#3B82F6' },
+            { key: 'signal', label: 'Signal', color: '#F97316' },
+        ],
+    },
+    STOCH: {
+        type: 'STOCH', label: 'Stochastic', description: 'Stochastic oscillator (slow %K and %D)', placement: 'pane',
+        params: [period('%K period', 14), { name: '%K smoothing', default: 3, min: 1, max: 50 }, { name: '%D period', default: 3, min: 1, max: 50 }],
+        domain: [0, 100], levels: [20, 80],
+        outputs: [
+            { key: 'k', label: '%K', color: '#22D3EE' },
+            { key: 'd', label: '%D', color: '#F97316' },
+        ],
+    },
+    ATR: {
+        type: 'ATR', label: 'ATR', description: 'Average true range', placement: 'pane',
+        params: [period('Period', 14)],
+        outputs: [{ key: 'atr', label: 'ATR', color: '#FB923C' }],
+    },
+    ADX: {
+        type: 'ADX', label: 'ADX', description: 'Average directional index with +DI/−DI', placement: 'pane',
+        params: [period('Period', 14)], domain: [0, 100], levels: [25],
+        outputs: [
+            { key: 'adx', label: 'ADX', color: '#E5E7EB' },
+            { key: 'plusDi', label: '+DI', color: '#10B981' },
+            { key: 'minusDi', label: '−DI', color: '#F43F5E' },
+        ],
+    },
+    OBV: {
+        type: 'OBV', label: 'OBV', description: 'On-balance volume', placement: 'pane',
+        params: [], needsVolume: true,
+        outputs: [{ key: 'obv', label: 'OBV', color: '#34D399' }],
+    },
+};
+
+export const INDICATOR_TYPES = Object.keys(INDICATORS) as IndicatorType[];
+
+export const MAX_INDICATORS = 8;
+
+export const DEFAULT_INDICATORS: IndicatorConfig[] = [
+    { type: 'SMA', params: [20] },
+    { type: 'RSI', params: [14] },
+];
+
+export const defaultConfig = (type: IndicatorType): IndicatorConfig => ({ type, params: INDICATORS[type].params.map(p => p.default) });
+
+// "EMA_21": unique per type and parameters, safe as a chart dataKey
+export const indicatorId = (config: IndicatorConfig) => [config.type, ...config.params].join('_').replace(/\./g, 'p');
+
+export const indicatorLabel = (config: IndicatorConfig) => {
+    const { label } = INDICATORS[config.type];
+    return config.params.length > 0 ? `${label} (${config.params.join(', ')})` : label;
+};
+
+// Key of one output on the chart points, e.g. "MACD_12_26_9_signal"
+export const outputKey = (config: IndicatorConfig, output: string) => `${indicatorId(config)}_${output}`;
+
+const clampParam = (param: IndicatorParam, value: number) => {
+    if (!isFinite(value)) return param.default;
+    const step = param.step ?? 1;
+    return Math.min(param.max, Math.max(param.min, Math.round(value / step) * step));
+};
+
+// Fills in missing or out-of-range parameters
+export const normalizeConfig = (type: IndicatorType, params: number[]): IndicatorConfig => ({
+    type,
+    params: INDICATORS[type].params.map((param, i) => clampParam(param, params[i] ?? param.default)),
+});
+
+// --- Sharing / persistence ---
+
+export const encodeIndicators = (configs: IndicatorConfig[]) =>
+    configs.map(config => [config.type, ...config.params].join('-')).join(',');
+
+// Unknown types are dropped and duplicates removed
+export const parseIndicators = (text: string): IndicatorConfig[] => {
+    const configs: IndicatorConfig[] = [];
+    for (const part of text.split(',')) {
+        const [type, ...params] = part.trim().toUpperCase().split('-');
+        if (!(type in INDICATORS)) continue;
+        const config = normalizeConfig(type as IndicatorType, params.map(Number));
+        if (!configs.some(c => indicatorId(c) === indicatorId(config))) configs.push(config);
+    }
+    return configs.slice(0, MAX_INDICATORS);
+};
+
+// --- Building blocks ---
+
+const high = (bar: Bar) => bar.high ?? bar.value;
+const low = (bar: Bar) => bar.low ?? bar.value;
+
+// Rolling mean over windows with no gaps
+const sma = (values: Series, n: number): Series => {
+    const result: Series = [];
+    let sum = 0;
+    let valid = 0;
+    values.forEach((value, i) => {
+        if (value === null) {
+            sum = 0;
+            valid = 0;
+        } else {
+            sum += value;
+            valid++;
+            if (valid > n) sum -= values[i - n]!;
+        }
+        result.push(valid >= n ? sum / n : null);
+    });
+    return result;
+};
+
+// Exponential smoothing seeded with the mean of the first n values; alpha 2/(n+1) for an EMA,
+// 1/n for Wilder's smoothing (RSI, ATR, ADX)
+const smooth = (values: Series, n: number, alpha: number): Series => {
+    const result: Series = values.map(() => null);
+    const start = values.findIndex(v => v !== null);
+    if (start < 0 || start + n > values.length) return result;
+    let current = 0;
+    for (let i = start; i < start + n; i++) current += values[i] ?? 0;
+    current /= n;
+    result[start + n - 1] = current;
+    for (let i = start + n; i < values.length; i++) {
+        const value = values[i];
+        if (value === null) continue;
+        current = alpha * value + (1 - alpha) * current;
+        result[i] = current;
+    }
+    return result;
+};
+
+const ema = (values: Series, n: number) => smooth(values, n, 2 / (n + 1));
+const wilder = (values: Series, n: number) => smooth(values, n, 1 / n);
+
+const combine = (a: Series, b: Series, fn: (a: number, b: number) => number): Series =>
+    a.map((x, i) => x === null || b[i] === null ? null : fn(x, b[i]!));
+
+const trueRange = (bars: Bar[]): Series => bars.map((bar, i) => {
+    if (i === 0) return high(bar) - low(bar);
+    const prevClose = bars[i - 1].value;
+    return Math.max(high(bar) - low(bar), Math.abs(high(bar) - prevClose), Math.abs(low(bar) - prevClose));
+});
+
+// --- Indicators ---
+
+const rsi = (bars: Bar[], n: number) => {
+    const changes: Series = bars.map((bar, i) => i === 0 ? null : bar.value - bars[i - 1].value);
+    const avgGain = wilder(changes.map(c => c === null ? null : Math.max(c, 0)), n);
+    const avgLoss = wilder(changes.map(c => c === null ? null : Math.max(-c, 0)), n);
+    return { rsi: combine(avgGain, avgLoss, (gain, loss) => loss === 0 ? 100 : 100 - 100 / (1 + gain / loss)) };
+};
+
+const macd = (bars: Bar[], fast: number, slow: number, signalPeriod: number) => {
+    const closes = bars.map(b => b.value);
+    const line = combine(ema(closes, fast), ema(closes, slow), (f, s) => f - s);
+    const signal = ema(line, signalPeriod);
+    return { macd: line, signal, hist: combine(line, signal, (m, s) => m - s) };
+};
+
+const bollinger = (bars: Bar[], n: number, k: number) => {
+    const closes = bars.map(b => b.value);
+    const middle = sma(closes, n);
+    const deviation = middle.map((mean, i) => {
+        if (mean === null) return null;
+        const window = closes.slice(i - n + 1, i + 1);
+        return Math.sqrt(window.reduce((sum, c) => sum + (c - mean) ** 2, 0) / n);
+    });
+    return {
+        upper: combine(middle, deviation, (m, d) => m + k * d),
+        middle,
+        lower: combine(middle, deviation, (m, d) => m - k * d),
+    };
+};
+
+// Cumulative from the first bar, restarting each day when bars are intraday (timestamps)
+const vwap = (bars: Bar[]) => {
+    let pv = 0;
+    let volume = 0;
+    let day = '';
+    return {
+        vwap: bars.map(bar => {
+            if (bar.date.length > 10 && bar.date.slice(0, 10) !== day) {
+                day = bar.date.slice(0, 10);
+                pv = 0;
+                volume = 0;
+            }
+            if (bar.volume == null) return null;
+            pv += ((high(bar) + low(bar) + bar.value) / 3) * bar.volume;
+            volume += bar.volume;
+            return volume > 0 ? pv / volume : null;
+        }),
+    };
+};
+
+const supertrend = (bars: Bar[], n: number, multiplier: number) => {
+    const atr = wilder(trueRange(bars), n);
+    const up: Series = bars.map(() => null);
+    const down: Series = bars.map(() => null);
+    let finalUpper = 0;
+    let finalLower = 0;
+    let uptrend = true;
+    let started = false;
+    bars.forEach((bar, i) => {
+        if (atr[i] === null) return;
+        const mid = (high(bar) + low(bar)) / 2;
+        const basicUpper = mid + multiplier * atr[i]!;
+        const basicLower = mid - multiplier * atr[i]!;
+        if (!started) {
+            finalUpper = basicUpper;
+            finalLower = basicLower;
+            uptrend = bar.value >= mid;
+            started = true;
+        } else {
+            const prevClose = bars[i - 1].value;
+            // Bands only tighten, unless price closed through them
+            finalUpper = basicUpper < finalUpper || prevClose > finalUpper ? basicUpper : finalUpper;
+            finalLower = basicLower > finalLower || prevClose < finalLower ? basicLower : finalLower;
+            if (uptrend && bar.value < finalLower) uptrend = false;
+            else if (!uptrend && bar.value > finalUpper) uptrend = true;
+        }
+        if (uptrend) up[i] = finalLower;
+        else down[i] = finalUpper;
+    });
+    return { up, down };
+};
+
+const stochastic = (bars: Bar[], n: number, smoothK: number, dPeriod: number) => {
+    const raw: Series = bars.map((bar, i) => {
+        if (i < n - 1) return null;
+        const window = bars.slice(i - n + 1, i + 1);
+        const highest = Math.max(...window.map(high));
+        const lowest = Math.min(...window.map(low));
+        return highest === lowest ? 50 : ((bar.value - lowest) / (highest - lowest)) * 100;
+    });
+    const k = sma(raw, smoothK);
+    return { k, d: sma(k, dPeriod) };
+};
+
+const atrIndicator = (bars: Bar[], n: number) => ({ atr: wilder(trueRange(bars), n) });
+
+const adx = (bars: Bar[], n: number) => {
+    const plusDm: Series = bars.map((bar, i) => {
+        if (i === 0) return null;
+        const upMove = high(bar) - high(bars[i - 1]);
+        const downMove = low(bars[i - 1]) - low(bar);
+        return upMove > downMove && upMove > 0 ? upMove : 0;
+    });
+    const minusDm: Series = bars.map((bar, i) => {
+        if (i === 0) return null;
+        const upMove = high(bar) - high(bars[i - 1]);
+        const downMove = low(bars[i - 1]) - low(bar);
+        return downMove > upMove && downMove > 0 ? downMove : 0;
+    });
+    const tr = wilder(trueRange(bars).map((v, i) => i === 0 ? null : v), n);
+    const plusDi = combine(wilder(plusDm, n), tr, (dm, t) => t === 0 ? 0 : (dm / t) * 100);
+    const minusDi = combine(wilder(minusDm, n), tr, (dm, t) => t === 0 ? 0 : (dm / t) * 100);
+    const dx = combine(plusDi, minusDi, (p, m) => p + m === 0 ? 0 : (Math.abs(p - m) / (p + m)) * 100);
+    return { adx: wilder(dx, n), plusDi, minusDi };
+};
+
+const obv = (bars: Bar[]) => {
+    let total = 0;
+    return {
+        obv: bars.map((bar, i) => {
+            if (bar.volume == null) return null;
+            if (i > 0) {
+                if (bar.value > bars[i - 1].value) total += bar.volume;
+                else if (bar.value < bars[i - 1].value) total -= bar.volume;
+            }
+            return total;
+        }),
+    };
+};
+
+// Output key -> series for one indicator
+export const computeIndicator = (config: IndicatorConfig, bars: Bar[]): Record<string, Series> => {
+    const p = config.params;
+    switch (config.type) {
+        case 'SMA': return { sma: sma(bars.map(b => b.value), p[0]) };
+        case 'EMA': return { ema: ema(bars.map(b => b.value), p[0]) };
+        case 'BB': return bollinger(bars, p[0], p[1]);
+        case 'VWAP': return vwap(bars);
+        case 'SUPERTREND': return supertrend(bars, p[0], p[1]);
+        case 'RSI': return rsi(bars, p[0]);
+        case 'MACD': return macd(bars, p[0], p[1], p[2]);
+        case 'STOCH': return stochastic(bars, p[0], p[1], p[2]);
+        case 'ATR': return atrIndicator(bars, p[0]);
+        case 'ADX': return adx(bars, p[0]);
+        case 'OBV': return obv(bars);
+    }
+};
+
+// Copies of the points with every output of every indicator added (see outputKey)
+export const applyIndicators = <T extends Bar>(points: T[], configs: IndicatorConfig[]): (T & Record<string, number | null>)[] => {
+    const result = points.map(p => ({ ...p })) as (T & Record<string, number | null>)[];
+    for (const config of configs) {
+        for (const [output, series] of Object.entries(computeIndicator(config, points))) {
+            const key = outputKey(config, output);
+            series.forEach((value, i) => { (result[i] as Record<string, number | null>)[key] = value; });
+        }
+    }
+    return result;
+};
+
+// Adds sma (20) and rsi (14, Wilder's smoothing) to each point; null until enough history
+export const enrichDataWithIndicators = (rawData: any[]) => {
+    if (!Array.isArray(rawData) || rawData.length === 0) return [];
+    const enriched = rawData.map(item => ({ ...item, value: Number(item.value) }));
+    const { sma: sma20 } = computeIndicator({ type: 'SMA', params: [20] }, enriched);
+    const { rsi: rsi14 } = computeIndicator({ type: 'RSI', params: [14] }, enriched);
+    return enriched.map((item, i) => ({ ...item, sma: sma20[i], rsi: rsi14[i] }));
+};
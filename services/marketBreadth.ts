@@ -0,0 +1,167 @@
+import { fetchAcross, getMarketHistory } from "./marketDataService";
+import { presetRange } from "./chartRange";
+import { staticCsvLoader } from "./fileMarketData";
+import { loadSymbolMaster } from "./symbolMaster";
+import { StockDataPoint } from "../types";
+
+// Market internals for the Dashboard: advances/declines, 52-week highs and lows, and how many
+// stocks trade above their moving averages. Computed from the same market data the charts use
+// (daily bars back-adjusted for corporate actions, plus today's 5 min bars for the intraday
+// line), never from AI estimates. Symbols without market data are left out and counted.
+//
+// The universe is the NIFTY 500 list at /market-data/nifty500.csv (NSE's ind_nifty500list.csv
+// works as-is: only its Symbol column is read). Without it, the symbol master is used.
+
+const UNIVERSE_URL = '/market-data/nifty500.csv';
+
+export const AVERAGE_PERIODS = [20, 50, 200] as const;
+export type AveragePeriod = typeof AVERAGE_PERIODS[number];
+
+export interface BreadthPoint {
+    time: string;
+    advances: number;
+    declines: number;
+}
+
+export interface MarketBreadth {
+    universe: string; // 'NIFTY 500' or 'Symbol master'
+    total: number;    // symbols in the universe
+    covered: number;  // of which had market data
+    advances: number;
+    declines: number;
+    unchanged: number;
+    newHighs: number; // 52-week
+    newLows: number;
+    // Stocks above each simple moving average, out of those with enough history for it
+    aboveAverage: Record<AveragePeriod, { above: number; total: number }>;
+    // Advances/declines through the latest session; empty without intraday data
+    intraday: BreadthPoint[];
+    asOf: string;
+}
+
+interface SymbolSeries {
+    daily: StockDataPoint[];
+    intraday: StockDataPoint[];
+}
+
+// 52 weeks of sessions, give or take holidays
+const YEAR_BARS = 250;
+
+const masterUniverse = async () => ({ name: 'Symbol master', symbols: (await loadSymbolMaster()).map(entry => entry.symbol) });
+
+// Never rejects: falls back to the symbol master
+export const loadBreadthUniverse = staticCsvLoader<{ name: string; symbols: string[] }>(UNIVERSE_URL, rows => {
+    const symbols = rows
+        .map(row => (Object.entries(row).find(([k]) => k.trim().toLowerCase() === 'symbol')?.[1] || '').trim().toUpperCase())
+        .filter(Boolean);
+    return symbols.length > 0 ? { name: 'NIFTY 500', symbols: [...new Set(symbols)] } : masterUniverse();
+}, e => {
+    console.warn("NIFTY 500 list unavailable, breadth uses the symbol master:", e.message);
+    return masterUniverse();
+});
+
+const average = (points: StockDataPoint[], period: number) =>
+    points.slice(-period).reduce((sum, p) => sum + p.value, 0) / period;
+
+// Close before the session the intraday bars belong to
+const previousClose = (daily: StockDataPoint[], sessionDay: string) => {
+    for (let i = daily.length - 1; i >= 0; i--) {
+        if (daily[i].date.slice(0, 10) < sessionDay) return daily[i].value;
+    }
+    return undefined;
+};
+
+const direction = (price: number, reference: number) => price > reference ? 1 : price < reference ? -1 : 0;
+
+// Advances/declines at each intraday timestamp, carrying each stock's last price forward
+const intradayBreadth = (series: SymbolSeries[]): BreadthPoint[] => {
+    const sessionDay = series.reduce((day, s) => {
+        const last = s.intraday[s.intraday.length - 1]?.date.slice(0, 10) ?? '';
+        return last > day ? last : day;
+    }, '');
+    if (!sessionDay) return [];
+
+    const tracks = series
+        .map(s => ({ bars: s.intraday.filter(p => p.date.startsWith(sessionDay)), reference: previousClose(s.daily, sessionDay) }))
+        .filter((t): t is { bars: StockDataPoint[]; reference: number } => t.bars.length > 0 && t.reference !== undefined);
+    const times = [...new Set(tracks.flatMap(t => t.bars.map(p => p.date)))].sort();
+
+    const cursor = tracks.map(() => -1);
+    return times.map(time => {
+        let advances = 0;
+        let declines = 0;
+        tracks.forEach((track, idx) => {
+            while (cursor[idx] + 1 < track.bars.length && track.bars[cursor[idx] + 1].date <= time) cursor[idx]++;
+            if (cursor[idx] < 0) return;
+            const move = direction(track.bars[cursor[idx]].value, track.reference);
+            if (move > 0) advances++;
+            else if (move < 0) declines++;
+        });
+        return { time, advances, declines };
+    });
+};
+
+export const computeBreadth = (series: SymbolSeries[]): Omit<MarketBreadth, 'universe' | 'total' | 'asOf'> => {
+    const breadth = {
+        covered: series.length,
+        advances: 0,
+        declines: 0,
+        unchanged: 0,
+        newHighs: 0,
+        newLows: 0,
+        aboveAverage: Object.fromEntries(AVERAGE_PERIODS.map(n => [n, { above: 0, total: 0 }])) as MarketBreadth['aboveAverage'],
+        intraday: intradayBreadth(series),
+    };
+
+    for (const { daily, intraday } of series) {
+        const last = daily[daily.length - 1];
+        // Until the session's daily bar is written, today is only in the intraday bars
+        const today = intraday.filter(p => p.date.slice(0, 10) > last.date.slice(0, 10));
+        const history = today.length > 0 ? daily : daily.slice(0, -1);
+        const current = today.length > 0 ? today[today.length - 1].value : last.value;
+        const high = today.length > 0 ? Math.max(...today.map(p => p.high ?? p.value)) : last.high ?? last.value;
+        const low = today.length > 0 ? Math.min(...today.map(p => p.low ?? p.value)) : last.low ?? last.value;
+        const reference = history[history.length - 1]?.value;
+
+        if (reference !== undefined) {
+            const move = direction(current, reference);
+            if (move > 0) breadth.advances++;
+            else if (move < 0) breadth.declines++;
+            else breadth.unchanged++;
+        }
+
+        // A new high/low: today's range reaches past the previous 52 weeks
+        const year = history.slice(-YEAR_BARS);
+        if (year.length >= 20) {
+            if (high > Math.max(...year.map(p => p.high ?? p.value))) breadth.newHighs++;
+            if (low < Math.min(...year.map(p => p.low ?? p.value))) breadth.newLows++;
+        }
+
+        for (const period of AVERAGE_PERIODS) {
+            if (daily.length < period) continue;
+            const counts = breadth.aboveAverage[period];
+            counts.total++;
+            if (current > average(daily, period)) counts.above++;
+        }
+    }
+    return breadth;
+};
+
+const fetchSeries = async (symbol: string, signal?: AbortSignal): Promise<SymbolSeries> => {
+    const [{ points: daily }, intraday] = await Promise.all([
+        getMarketHistory(symbol, presetRange('1Y'), true, signal),
+        // Intraday bars are optional; the daily close still counts
+        getMarketHistory(symbol, presetRange('1D'), false, signal).then(h => h.points, e => {
+            if (signal?.aborted) throw e;
+            return [];
+        }),
+    ]);
+    if (daily.length === 0) throw new Error(`No daily bars for ${symbol}`);
+    return { daily, intraday };
+};
+
+export const getMarketBreadth = async (signal?: AbortSignal): Promise<MarketBreadth> => {
+    const { name, symbols } = await loadBreadthUniverse();
+    const series = await fetchAcross(symbols, symbol => fetchSeries(symbol, signal), signal);
+    return { universe: name, total: symbols.length, asOf: new Date().toISOString(), ...computeBreadth(series) };
+};
@@ -0,0 +1,101 @@
+import { CorporateAction, MarketQuote, StockDataPoint } from "../types";
+import type { ChartRange } from "./chartRange";
+import { createFileMarketDataProvider } from "./fileMarketData";
+import { createHttpMarketDataProvider } from "./httpMarketData";
+
+// Historical prices and latest quotes from a real data source (files or an HTTP endpoint).
+// Nothing here talks to the model; marketDataService.ts adds the labelled AI fallback.
+
+export type MarketDataErrorKind = 'NOT_FOUND' | 'NETWORK' | 'BAD_DATA';
+
+export class MarketDataError extends Error {
+    readonly kind: MarketDataErrorKind;
+    readonly symbol: string;
+
+    constructor(kind: MarketDataErrorKind, symbol: string, message: string) {
+        super(message);
+        this.name = 'MarketDataError';
+        this.kind = kind;
+        this.symbol = symbol;
+    }
+}
+
+export interface MarketDataProvider {
+    name: string;
+    // Bars of range.interval covering the range, oldest first
+    getHistory(symbol: string, range: ChartRange, signal?: AbortSignal): Promise<StockDataPoint[]>;
+    getQuote(symbol: string, signal?: AbortSignal): Promise<MarketQuote>;
+    // Splits, bonuses and dividends, oldest first; empty when the source has none
+    getCorporateActions(symbol: string, signal?: AbortSignal): Promise<CorporateAction[]>;
+}
+
+const optionalNumber = (value: unknown) => {
+    if (value == null || value === '') return undefined;
+    const num = Number(value);
+    return isFinite(num) ? num : undefined;
+};
+
+// Accepts { date, value } or { date, close } rows (any casing) with optional open/high/low/volume;
+// sorts oldest first, drops rows without a date or close
+export const normalizeSeries = (rows: unknown, symbol: string): StockDataPoint[] => {
+    if (!Array.isArray(rows)) {
+        throw new MarketDataError('BAD_DATA', symbol, `Price data for ${symbol} is not a list of rows`);
+    }
+    const points: StockDataPoint[] = [];
+    for (const row of rows) {
+        if (!row || typeof row !== 'object') continue;
+        const fields = Object.fromEntries(Object.entries(row).map(([k, v]) => [k.trim().toLowerCase(), v]));
+        const date = String(fields.date ?? fields.timestamp ?? '').trim();
+        const value = Number(fields.close ?? fields['adj close'] ?? fields.value ?? fields.price);
+        if (!date || isNaN(new Date(date).getTime()) || !isFinite(value)) continue;
+        const point: StockDataPoint = { date, value };
+        const open = optionalNumber(fields.open);
+        const high = optionalNumber(fields.high);
+        const low = optionalNumber(fields.low);
+        const volume = optionalNumber(fields.volume ?? fields.vol);
+        if (open !== undefined) point.open = open;
+        if (high !== undefined) point.high = high;
+        if (low !== undefined) point.low = low;
+        if (volume !== undefined) point.volume = volume;
+        points.push(point);
+    }
+    if (points.length === 0) {
+        throw new MarketDataError('BAD_DATA', symbol, `No usable price rows for ${symbol}`);
+    }
+    return points.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+// Latest close vs the one before it
+export const quoteFromSeries = (symbol: string, points: StockDataPoint[]): MarketQuote => {
+    const last = points[points.length - 1];
+    if (!last) throw new MarketDataError('NOT_FOUND', symbol, `No prices for ${symbol}`);
+    const previous = points.length > 1 ? points[points.length - 2].value : last.value;
+    const change = last.value - previous;
+    return {
+        symbol,
+        price: last.value,
+        change,
+        changePercent: previous ? (change / previous) * 100 : 0,
+        asOf: last.date,
+    };
+};
+
+// Pick the source from MARKET_DATA_PROVIDER / MARKET_DATA_URL (set in .env.local, see vite.config.ts)
+export const createMarketDataProvider = (
+    mode: string | undefined = process.env.MARKET_DATA_PROVIDER,
+    url: string | undefined = process.env.MARKET_DATA_URL
+): MarketDataProvider => {
+    switch (mode) {
+        case 'http':
+            if (url) return createHttpMarketDataProvider(url);
+            console.warn("MARKET_DATA_PROVIDER=http needs MARKET_DATA_URL, falling back to files");
+            return createFileMarketDataProvider();
+        case 'file':
+        case undefined:
+        case '':
+            return createFileMarketDataProvider(url || undefined);
+        default:
+            console.warn(`Unknown MARKET_DATA_PROVIDER "${mode}", falling back to files`);
+            return createFileMarketDataProvider();
+    }
+};
@@ -0,0 +1,153 @@
+import { MarketDataError, MarketDataProvider, createMarketDataProvider, quoteFromSeries } from "./marketDataProvider";
+import { ChartRange, isIntraday, presetRange, rangeLabel } from "./chartRange";
+import { adjustForActions } from "./corporateActions";
+import { latestSessionDay } from "./tradingCalendar";
+import { getGraphData } from "./geminiService";
+import { CorporateAction, MarketQuote, PriceSource, StockDataPoint } from "../types";
+
+// What the app reads prices through. Real data comes from the configured MarketDataProvider;
+// only when it has nothing for a symbol do we ask the model (getGraphData), and the result is
+// marked source: 'ai-estimate' so the UI can say so. Intraday ranges never fall back, and
+// cancellation is never treated as "no data".
+
+export interface PriceHistory {
+    symbol: string;
+    points: StockDataPoint[];
+    source: PriceSource;
+    // Why the fallback was used, e.g. "No RELIANCE.json or RELIANCE.csv in /market-data"
+    fallbackReason?: string;
+    // Splits, bonuses and dividends with ex-dates inside the series, for chart markers
+    actions: CorporateAction[];
+    // True when points were back-adjusted, including for ex-dates after the series ends (never
+    // for AI estimates)
+    adjusted: boolean;
+}
+
+export interface QuoteResult {
+    quote: MarketQuote;
+    source: PriceSource;
+    fallbackReason?: string;
+}
+
+let provider: MarketDataProvider = createMarketDataProvider();
+
+export const getMarketDataProvider = () => provider;
+
+export const setMarketDataProvider = (next: MarketDataProvider) => {
+    provider = next;
+};
+
+const describe = (e: unknown) => e instanceof Error ? e.message : String(e);
+
+// Actions are best-effort: without them the chart is shown unadjusted rather than not at all
+const getActions = async (symbol: string, signal?: AbortSignal): Promise<CorporateAction[]> => {
+    try {
+        return await provider.getCorporateActions(symbol, signal);
+    } catch (e) {
+        if (signal?.aborted) throw e;
+        console.warn(`No corporate actions for ${symbol} (${describe(e)})`);
+        return [];
+    }
+};
+
+const actionsWithin = (actions: CorporateAction[], points: StockDataPoint[]) => {
+    if (points.length === 0) return [];
+    const first = points[0].date.slice(0, 10);
+    const last = points[points.length - 1].date.slice(0, 10);
+    return actions.filter(action => action.date > first && action.date <= last);
+};
+
+// Market data only, with no AI fallback: for computations across many symbols (breadth, movers)
+// that must not mix in estimates. `adjusted` back-adjusts for splits, bonuses and dividends.
+export const getMarketHistory = async (symbol: string, range: ChartRange, adjusted: boolean, signal?: AbortSignal) => {
+    const term = symbol.trim().toUpperCase();
+    const [points, actions] = await Promise.all([provider.getHistory(term, range, signal), getActions(term, signal)]);
+    // Ex-dates after the last bar still apply, so older ranges match today's prices (and live
+    // ticks); ones that haven't come yet don't
+    const effective = actions.filter(action => action.date <= latestSessionDay());
+    const firstDay = points[0]?.date.slice(0, 10) ?? '';
+    return {
+        points: adjusted ? adjustForActions(points, effective) : points,
+        actions: actionsWithin(actions, points),
+        adjusted: adjusted && points.length > 0 && effective.some(action => action.date > firstDay),
+    };
+};
+
+// `adjusted` back-adjusts market data for splits, bonuses and dividends (corporateActions.ts)
+export const getPriceHistory = async (symbol: string, range: ChartRange, adjusted: boolean, signal?: AbortSignal): Promise<PriceHistory> => {
+    const term = symbol.trim().toUpperCase();
+    let fallbackReason: string;
+    try {
+        const history = await getMarketHistory(term, range, adjusted, signal);
+        if (history.points.length > 0) return { symbol: term, source: 'market', ...history };
+        fallbackReason = `${provider.name} data has no bars for ${term} in ${rangeLabel(range)}`;
+    } catch (e) {
+        if (signal?.aborted) throw e;
+        fallbackReason = describe(e);
+    }
+    // The model has no intraday prices to estimate from
+    if (isIntraday(range.interval)) {
+        throw new MarketDataError('NOT_FOUND', term, `${fallbackReason}. Intraday bars need market data; AI estimates are daily or coarser.`);
+    }
+    console.warn(`Market data unavailable for ${term} (${fallbackReason}); using AI estimate`);
+    // The model's prices aren't adjusted here (we can't tell what it already accounts for),
+    // but known actions are still marked
+    const [points, actions] = await Promise.all([getGraphData(term, range, signal), getActions(term, signal)]);
+    return { symbol: term, points, source: 'ai-estimate', fallbackReason, actions: actionsWithin(actions, points), adjusted: false };
+};
+
+export const getMarketQuote = async (symbol: string, signal?: AbortSignal): Promise<QuoteResult> => {
+    const term = symbol.trim().toUpperCase();
+    try {
+        return { quote: await provider.getQuote(term, signal), source: 'market' };
+    } catch (e) {
+        if (signal?.aborted) throw e;
+        console.warn(`No quote for ${term} (${describe(e)}); using AI estimate`);
+        // Last two closes of the (cached) estimated series
+        const points = await getGraphData(term, presetRange('1W'), signal);
+        return { quote: quoteFromSeries(term, points), source: 'ai-estimate', fallbackReason: describe(e) };
+    }
+};
+
+export interface MarketMovers {
+    gainers: MarketQuote[];
+    losers: MarketQuote[];
+    // How many of the universe had a market quote
+    covered: number;
+    total: number;
+}
+
+const UNIVERSE_CONCURRENCY = 8;
+
+// Runs `fetch` for every symbol, a few at a time, and keeps what succeeded. Failures (no data
+// for that symbol) are skipped; cancellation rejects.
+export const fetchAcross = async <T>(symbols: string[], fetch: (symbol: string) => Promise<T>, signal?: AbortSignal): Promise<T[]> => {
+    const results: T[] = [];
+    let next = 0;
+    const worker = async () => {
+        while (next < symbols.length) {
+            const symbol = symbols[next++];
+            try {
+                results.push(await fetch(symbol));
+            } catch (e) {
+                if (signal?.aborted) throw e;
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(UNIVERSE_CONCURRENCY, symbols.length) }, worker));
+    return results;
+};
+
+// Top gainers/losers across `symbols` by change %. Market data only: asking the model for a
+// whole universe would be slow, costly and made up, so symbols without a quote are left out.
+export const getTopMovers = async (symbols: string[], count = 5, signal?: AbortSignal): Promise<MarketMovers> => {
+    const quotes = await fetchAcross(symbols, symbol => provider.getQuote(symbol, signal), signal);
+
+    const byChange = [...quotes].sort((a, b) => b.changePercent - a.changePercent);
+    return {
+        gainers: byChange.filter(q => q.changePercent > 0).slice(0, count),
+        losers: byChange.filter(q => q.changePercent < 0).reverse().slice(0, count),
+        covered: quotes.length,
+        total: symbols.length,
+    };
+};
@@ -0,0 +1,52 @@
+// Indices the Dashboard can show, and which ones the user picked (kept in localStorage).
+// `symbol` is what the market data provider is asked for, e.g. NIFTY50.csv for file data.
+
+export interface MarketIndex {
+    symbol: string;
+    label: string;
+}
+
+export const INDEX_CATALOG: MarketIndex[] = [
+    { symbol: 'NIFTY 50', label: 'NIFTY 50' },
+    { symbol: 'SENSEX', label: 'SENSEX' },
+    { symbol: 'NIFTY BANK', label: 'BANK NIFTY' },
+    { symbol: 'NIFTY FIN SERVICE', label: 'FINNIFTY' },
+    { symbol: 'NIFTY MIDCAP SELECT', label: 'MIDCAP SELECT' },
+    { symbol: 'NIFTY MIDCAP 100', label: 'NIFTY MIDCAP 100' },
+    { symbol: 'NIFTY SMALLCAP 100', label: 'NIFTY SMALLCAP 100' },
+    { symbol: 'NIFTY NEXT 50', label: 'NIFTY NEXT 50' },
+    { symbol: 'NIFTY IT', label: 'NIFTY IT' },
+    { symbol: 'NIFTY AUTO', label: 'NIFTY AUTO' },
+    { symbol: 'NIFTY PHARMA', label: 'NIFTY PHARMA' },
+    { symbol: 'NIFTY FMCG', label: 'NIFTY FMCG' },
+    { symbol: 'NIFTY METAL', label: 'NIFTY METAL' },
+    { symbol: 'NIFTY REALTY', label: 'NIFTY REALTY' },
+    { symbol: 'NIFTY ENERGY', label: 'NIFTY ENERGY' },
+    { symbol: 'NIFTY PSU BANK', label: 'NIFTY PSU BANK' },
+    { symbol: 'INDIA VIX', label: 'INDIA VIX' },
+];
+
+export const DEFAULT_INDICES = ['NIFTY 50', 'SENSEX', 'NIFTY BANK'];
+export const MAX_INDICES = 6;
+
+const INDICES_KEY = 'dashboard_indices';
+
+const fromSymbols = (symbols: unknown[]) => symbols
+    .map(symbol => INDEX_CATALOG.find(index => index.symbol === symbol))
+    .filter((index): index is MarketIndex => !!index)
+    .slice(0, MAX_INDICES);
+
+export const loadDashboardIndices = (): MarketIndex[] => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(INDICES_KEY) || 'null');
+        const indices = Array.isArray(saved) ? fromSymbols(saved) : [];
+        if (indices.length > 0) return indices;
+    } catch (e) {
+        console.error(`Failed to read ${INDICES_KEY}`, e);
+    }
+    return fromSymbols(DEFAULT_INDICES);
+};
+
+export const saveDashboardIndices = (indices: MarketIndex[]) => {
+    localStorage.setItem(INDICES_KEY, JSON.stringify(indices.map(index => index.symbol)));
+};
@@ -0,0 +1,53 @@
+import { PriceAlert } from "../types";
+import { resolveSymbol } from "./symbolMaster";
+
+// Price alerts and the watchlist live in localStorage so Visual Analysis and the
+// chat tools share them. Writes fire a "storage" event so open views can reload.
+// Symbols are stored canonical (see symbolMaster.ts); entries saved under another spelling
+// are resolved when read.
+
+const ALERTS_KEY = 'price_alerts';
+const WATCHLIST_KEY = 'watchlist';
+
+const readList = <T,>(key: string): T[] => {
+    try {
+        const saved = localStorage.getItem(key);
+        return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+        console.error(`Failed to read ${key}`, e);
+        return [];
+    }
+};
+
+const writeList = (key: string, list: unknown[]) => {
+    localStorage.setItem(key, JSON.stringify(list));
+    window.dispatchEvent(new Event("storage"));
+};
+
+export const loadPriceAlerts = () => readList<PriceAlert>(ALERTS_KEY).map(alert => ({ ...alert, symbol: resolveSymbol(alert.symbol) }));
+
+export const savePriceAlerts = (alerts: PriceAlert[]) => writeList(ALERTS_KEY, alerts);
+
+export const addPriceAlert = (symbol: string, targetPrice: number): PriceAlert => {
+    const alert: PriceAlert = {
+        id: Date.now().toString(),
+        symbol: resolveSymbol(symbol),
+        targetPrice,
+        createdAt: Date.now()
+    };
+    savePriceAlerts([alert, ...loadPriceAlerts()]);
+    return alert;
+};
+
+export const loadWatchlist = () => [...new Set(readList<string>(WATCHLIST_KEY).map(resolveSymbol))];
+
+export const saveWatchlist = (list: string[]) => writeList(WATCHLIST_KEY, list);
+
+// Returns false if the symbol was already on the list
+export const addToWatchlist = (symbol: string) => {
+    const term = resolveSymbol(symbol);
+    const list = loadWatchlist();
+    if (list.includes(term)) return false;
+    saveWatchlist([...list, term]);
+    return true;
+};
@@ -0,0 +1,174 @@
+import { hashString } from "./hash";
+import { PromptRef } from "../types";
+
+// Named, versioned prompt templates. geminiService renders them with renderPrompt();
+// the Settings screen lets the user override a template's body.
+//
+// Bump `version` whenever a default body changes, so history entries made with the
+// old wording can be told apart. Variables are written as {{name}}.
+
+export type PromptTemplateId = 'chat-system' | 'deep-analysis' | 'screenshot' | 'screener';
+
+export interface PromptTemplate {
+    id: PromptTemplateId;
+    name: string;
+    description: string;
+    version: number;
+    variables: string[];
+    body: string;
+}
+
+export interface PromptOverride {
+    body: string;
+    // Default version the override was written against
+    baseVersion: number;
+    updatedAt: number;
+}
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplate> = {
+    'chat-system': {
+        id: 'chat-system',
+        name: 'Market Chat persona',
+        description: 'System instruction for StockSage in Market Chat, including when to call tools.',
+        version: 2,
+        variables: [],
+        body: `You are StockSage, a senior Indian Stock Market Analyst (SEBI Registered style persona).
+
+CRITICAL RULES FOR ACCURACY:
+1. **Identity**: You analyze the NSE/BSE, Nifty 50, and Bank Nifty.
+2. **Language**: Use natural "Hinglish" (Mix of Hindi & English) to be friendly and clear, OR English if the user prefers.
+3. **Data Source**: You **MUST** use your tools for EVERY query about prices, news, or trends. DO NOT guess prices.
+   - 'search_web' for live prices and news, 'get_price_series' for charts, 'get_indicators' for RSI/SMA, 'get_candle_patterns' for doji/engulfing/hammer etc.
+4. **Off-Topic**: If the user asks about anything NOT related to money, finance, or stocks (e.g., "Tell me a joke", "Capital of France"), politely refuse: "Main bas Stock Market aur Finance ke baare mein baat kar sakta hoon."
+5. **Actions**: To set a price alert or add to the watchlist, call 'create_price_alert' / 'add_to_watchlist' and confirm what was done.
+
+RESPONSE FORMAT:
+- **Direct Answer**: Give the price/trend immediately.
+- **Analysis**: Why is it moving? (Short reason).
+- **Target/StopLoss**: If asked for levels, give technical support/resistance.
+- **Chart Data**: If the user asks for a chart/trend/performance, call 'get_price_series' (the chart is attached for you). Only if that fails, generate JSON at the end.
+
+JSON CHART FORMAT (Strict):
+\`\`\`json
+[
+  {"date": "2024-01-01", "value": 1200.50},
+  {"date": "2024-01-02", "value": 1215.00}
+]
+\`\`\``,
+    },
+    'deep-analysis': {
+        id: 'deep-analysis',
+        name: 'Deep Analysis wrapper',
+        description: 'Hedge-fund manager framing around the question asked in Deep Analysis.',
+        version: 1,
+        variables: ['query'],
+        body: `ROLE: You are a Senior Hedge Fund Manager for the Indian Market.
+USER QUERY: "{{query}}"
+
+INSTRUCTIONS:
+- If the user asks in Hindi/Hinglish, reply in Hinglish.
+- Focus strictly on Financial/Economic impact.
+- Provide a "Buy", "Sell", or "Hold" perspective based on data.
+- Analyze: Technicals (RSI, Moving Averages), Fundamentals (P/E, Earnings), and Sentiment.`,
+    },
+    'screenshot': {
+        id: 'screenshot',
+        name: 'Screenshot analyst',
+        description: 'Instructions sent with a chart screenshot in Advance AI (Screen). The JSON shape is enforced separately.',
+        version: 1,
+        variables: [],
+        body: `You are a Senior Technical Analyst for the Stock Market.
+Analyze this chart/screenshot in detail.
+
+- symbol: Detected Symbol Name
+- summary: Brief 2-line summary of what the chart shows.
+- technical_table: rows like RSI, Support, Resistance, MACD with value and signal
+  (e.g. { "parameter": "Support", "value": "21,500", "signal": "Strong Support" }).
+- trade_setup: action with entry (e.g. "Above 21,800"), stop_loss and target levels.
+
+If you cannot detect a financial chart, set "error" to "No chart detected" and leave the other fields empty.`,
+    },
+    'screener': {
+        id: 'screener',
+        name: 'Stock Screener',
+        description: 'Search-grounded screener query. {{schema}} is filled with the expected row schema.',
+        version: 1,
+        variables: ['sector', 'marketCap', 'peRatio', 'volume', 'schema'],
+        body: `Use Google Search to find 5-10 stocks that match the following specific criteria:
+
+- Sector: {{sector}}
+- Market Cap: {{marketCap}}
+- P/E Ratio: {{peRatio}}
+- Volume: {{volume}}
+
+CRITICAL OUTPUT FORMAT:
+Return ONLY a JSON array inside a code block.
+Each object must have: "symbol", "name", "price" (number), "peRatio" (number or null), "marketCap" (string), "volume" (string).
+SCHEMA: {{schema}}
+
+Example:
+\`\`\`json
+[
+    {"symbol": "TCS", "name": "Tata Consultancy Services", "price": 3500.00, "peRatio": 29.5, "marketCap": "12.5T", "volume": "2M"}
+]
+\`\`\``,
+    },
+};
+
+const OVERRIDES_KEY = 'prompt_overrides';
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const loadPromptOverrides = (): Partial<Record<PromptTemplateId, PromptOverride>> => {
+    try {
+        const saved = localStorage.getItem(OVERRIDES_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch (e) {
+        console.error("Failed to read prompt overrides", e);
+        return {};
+    }
+};
+
+export const savePromptOverride = (id: PromptTemplateId, body: string) => {
+    const overrides = loadPromptOverrides();
+    overrides[id] = { body, baseVersion: PROMPT_TEMPLATES[id].version, updatedAt: Date.now() };
+    localStorage.setItem(OVERRIDES_KEY, JSON.stringify(overrides));
+};
+
+export const resetPromptOverride = (id: PromptTemplateId) => {
+    const overrides = loadPromptOverrides();
+    delete overrides[id];
+    localStorage.setItem(OVERRIDES_KEY, JSON.stringify(overrides));
+};
+
+// Version label for a template body: "v2" for the default, "v2-custom-1a2b3c4d" for an override
+const versionFor = (template: PromptTemplate, override?: PromptOverride) => {
+    return override ? `v${override.baseVersion}-custom-${hashString(override.body)}` : `v${template.version}`;
+};
+
+// The body in effect right now, and the ref to store with anything it produces
+export const getActivePrompt = (id: PromptTemplateId) => {
+    const template = PROMPT_TEMPLATES[id];
+    const override = loadPromptOverrides()[id];
+    const ref: PromptRef = { id, version: versionFor(template, override) };
+    return { template, override, body: override?.body ?? template.body, ref };
+};
+
+// Declared variables the body no longer uses (they'd be silently dropped)
+export const findUnusedVariables = (id: PromptTemplateId, body: string) => {
+    const used = new Set([...body.matchAll(VARIABLE_PATTERN)].map(m => m[1]));
+    return PROMPT_TEMPLATES[id].variables.filter(v => !used.has(v));
+};
+
+// Fill in {{variables}}. Unknown names render empty so a typo can't leak braces into the prompt.
+export const renderPrompt = (id: PromptTemplateId, variables: Record<string, string> = {}) => {
+    const { body, ref } = getActivePrompt(id);
+    const text = body.replace(VARIABLE_PATTERN, (_, name: string) => {
+        if (!(name in variables)) {
+            console.warn(`Prompt ${id} uses unknown variable {{${name}}}`);
+            return '';
+        }
+        return variables[name];
+    });
+    return { text, ref };
+};
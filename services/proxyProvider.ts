@@ -0,0 +1,97 @@
+import type { AIProvider, AIRequest, AIResponse, AIVideoRequest } from "./aiProvider";
+import { AIError, throwIfAborted } from "./aiErrors";
+
+// Sends every request to the backend in server/aiProxy.ts, which holds the Gemini key.
+// The bundle never sees the key; the server answers failures with the AIError kind to rethrow.
+
+const VIDEO_POLL_MS = 5000;
+
+// Rebuild the server's AIError from an error response (or a stream's final error line)
+const toProxyError = (body: any, fallbackStatus?: number) => {
+    const error = body?.error;
+    if (!error?.kind) {
+        return Object.assign(new Error(error?.message || `AI proxy request failed (${fallbackStatus})`), { status: fallbackStatus });
+    }
+    return new AIError(error.kind, error.message, { status: error.status ?? fallbackStatus });
+};
+
+const readError = async (res: Response) => {
+    try {
+        return toProxyError(await res.json(), res.status);
+    } catch {
+        return toProxyError(null, res.status);
+    }
+};
+
+// Strip fields the server fills in itself
+const toBody = ({ feature, signal, ...rest }: AIRequest | AIVideoRequest) => JSON.stringify(rest);
+
+export const createProxyProvider = (baseUrl: string): AIProvider => {
+    const base = baseUrl.replace(/\/$/, '');
+
+    const post = async (path: string, request: AIRequest | AIVideoRequest) => {
+        const res = await fetch(`${base}/${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: toBody(request),
+            signal: request.signal,
+        });
+        if (!res.ok) throw await readError(res);
+        return res;
+    };
+
+    return {
+        name: 'proxy',
+
+        generateContent: async (request): Promise<AIResponse> => {
+            const res = await post(request.feature, request);
+            return res.json();
+        },
+
+        // The server streams NDJSON: { delta } lines, then { done } or { error }
+        generateContentStream: async (request, onText): Promise<AIResponse> => {
+            const res = await post(`${request.feature}/stream`, request);
+            if (!res.body) throw new Error("AI proxy returned an empty stream");
+
+            const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+            let buffer = "";
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                throwIfAborted(request.signal, request.feature);
+
+                buffer += value;
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || "";
+                for (const line of lines) {
+                    if (!line.trim()) continue;
+                    const message = JSON.parse(line);
+                    if (message.error) throw toProxyError(message);
+                    if (message.done) return message.done;
+                    if (message.delta) onText(message.delta);
+                }
+            }
+            throw new Error("AI proxy stream ended early");
+        },
+
+        // Start a job, poll until it finishes, then download the bytes through the proxy
+        generateVideo: async (request) => {
+            const { id } = await (await post('video/jobs', request)).json();
+            const jobUrl = `${base}/video/jobs/${id}`;
+
+            while (true) {
+                await new Promise(resolve => setTimeout(resolve, VIDEO_POLL_MS));
+                throwIfAborted(request.signal, request.feature);
+                const res = await fetch(jobUrl, { signal: request.signal });
+                if (!res.ok) throw await readError(res);
+                const job = await res.json();
+                if (job.error) throw toProxyError(job);
+                if (job.done) break;
+            }
+
+            const res = await fetch(`${jobUrl}/content`, { signal: request.signal });
+            if (!res.ok) throw await readError(res);
+            return res.blob();
+        },
+    };
+};
@@ -0,0 +1,213 @@
+import { QuoteTick } from "../types";
+
+// Live quotes over a WebSocket. One connection is shared by every subscriber; symbols are
+// (un)subscribed as views come and go. Protocol (JSON text frames):
+//
+//   client -> server   { type: 'subscribe', symbol, since?, anchor? }   since = last tick time seen (epoch ms),
+//                                                              anchor = last price the client has, as a hint
+//                      { type: 'unsubscribe', symbol }
+//                      { type: 'ping', time }
+//   server -> client   { type: 'subscribed', symbol }
+//                      { type: 'tick', symbol, price, volume?, time }
+//                      { type: 'backfill', symbol, ticks: [...] }   ticks after `since`, oldest first
+//                      { type: 'pong', time }
+//                      { type: 'error', symbol?, message }
+//
+// Dropped connections are retried with exponential backoff; on reconnect each symbol is
+// re-subscribed with `since` so the server can send the ticks that were missed.
+// server/quoteStub.ts implements the server side for offline development.
+
+export type QuoteStreamStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface QuoteStream {
+    // Returns the matching unsubscribe. `anchor` is the last price the caller is showing; feeds
+    // that simulate prices (the stub) start from it.
+    subscribe(symbol: string, onTick: (tick: QuoteTick) => void, anchor?: number): () => void;
+    onStatus(listener: (status: QuoteStreamStatus) => void): () => void;
+    getStatus(): QuoteStreamStatus;
+}
+
+const HEARTBEAT_MS = 15_000;
+// No message at all (ticks or pongs) for this long means the connection is dead
+const HEARTBEAT_TIMEOUT_MS = 40_000;
+const BASE_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 30_000;
+
+type TickListener = (tick: QuoteTick) => void;
+
+export const createQuoteStream = (url: string): QuoteStream => {
+    const listeners = new Map<string, Set<TickListener>>();
+    // Newest tick time per symbol, for backfill requests and dropping duplicates
+    const lastTickTime = new Map<string, number>();
+    const anchors = new Map<string, number>();
+    const statusListeners = new Set<(status: QuoteStreamStatus) => void>();
+
+    let socket: WebSocket | null = null;
+    let status: QuoteStreamStatus = 'closed';
+    let attempts = 0;
+    let lastMessageAt = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+    const setStatus = (next: QuoteStreamStatus) => {
+        if (next === status) return;
+        status = next;
+        statusListeners.forEach(listener => listener(next));
+    };
+
+    const send = (message: Record<string, unknown>) => {
+        if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    const sendSubscribe = (symbol: string) => send({ type: 'subscribe', symbol, since: lastTickTime.get(symbol), anchor: anchors.get(symbol) });
+
+    const deliver = (raw: any) => {
+        const symbol = String(raw.symbol).toUpperCase();
+        const tick: QuoteTick = { symbol, price: Number(raw.price), volume: raw.volume, time: Number(raw.time) };
+        if (!isFinite(tick.price) || !isFinite(tick.time)) return;
+        const last = lastTickTime.get(symbol);
+        if (last !== undefined && tick.time <= last) return;
+        lastTickTime.set(symbol, tick.time);
+        listeners.get(symbol)?.forEach(listener => listener(tick));
+    };
+
+    const stopTimers = () => {
+        if (reconnectTimer) clearTimeout(reconnectTimer);
+        if (heartbeatTimer) clearInterval(heartbeatTimer);
+        reconnectTimer = null;
+        heartbeatTimer = null;
+    };
+
+    const scheduleReconnect = () => {
+        stopTimers();
+        // Exponential backoff with jitter so many tabs don't reconnect in lockstep
+        const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempts) * (0.5 + Math.random() / 2);
+        attempts++;
+        setStatus('reconnecting');
+        reconnectTimer = setTimeout(connect, delay);
+    };
+
+    // Forget the current socket without waiting for its close handshake, then retry
+    const dropConnection = () => {
+        const dead = socket;
+        socket = null;
+        dead?.close();
+        if (listeners.size > 0) scheduleReconnect();
+    };
+
+    const connect = () => {
+        reconnectTimer = null;
+        setStatus(attempts === 0 ? 'connecting' : 'reconnecting');
+
+        let ws: WebSocket;
+        try {
+            ws = new WebSocket(url);
+        } catch (e) {
+            console.error("Quote stream: bad URL", url, e);
+            scheduleReconnect();
+            return;
+        }
+        socket = ws;
+
+        ws.onopen = () => {
+            attempts = 0;
+            lastMessageAt = Date.now();
+            setStatus('open');
+            listeners.forEach((_, symbol) => sendSubscribe(symbol));
+            heartbeatTimer = setInterval(() => {
+                if (Date.now() - lastMessageAt > HEARTBEAT_TIMEOUT_MS) {
+                    console.warn("Quote stream: heartbeat timed out, reconnecting");
+                    dropConnection();
+                    return;
+                }
+                send({ type: 'ping', time: Date.now() });
+            }, HEARTBEAT_MS);
+        };
+
+        ws.onmessage = (event) => {
+            lastMessageAt = Date.now();
+            let message: any;
+            try {
+                message = JSON.parse(String(event.data));
+            } catch {
+                console.warn("Quote stream: ignoring non-JSON message");
+                return;
+            }
+            switch (message.type) {
+                case 'tick':
+                    deliver(message);
+                    break;
+                case 'backfill':
+                    (message.ticks || []).forEach((tick: any) => deliver({ ...tick, symbol: message.symbol }));
+                    break;
+                case 'error':
+                    console.warn(`Quote stream error${message.symbol ? ` for ${message.symbol}` : ''}: ${message.message}`);
+                    break;
+            }
+        };
+
+        ws.onclose = () => {
+            if (socket !== ws) return;
+            socket = null;
+            if (heartbeatTimer) clearInterval(heartbeatTimer);
+            heartbeatTimer = null;
+            if (listeners.size > 0) scheduleReconnect();
+            else setStatus('closed');
+        };
+    };
+
+    const disconnect = () => {
+        stopTimers();
+        attempts = 0;
+        const current = socket;
+        socket = null;
+        current?.close();
+        setStatus('closed');
+    };
+
+    return {
+        subscribe: (symbol, onTick, anchor) => {
+            const key = symbol.trim().toUpperCase();
+            let set = listeners.get(key);
+            if (!set) {
+                set = new Set();
+                listeners.set(key, set);
+                if (anchor !== undefined && isFinite(anchor) && anchor > 0) anchors.set(key, anchor);
+                if (socket) sendSubscribe(key);
+                else if (!reconnectTimer) connect();
+            }
+            set.add(onTick);
+
+            return () => {
+                const current = listeners.get(key);
+                if (!current?.delete(onTick) || current.size > 0) return;
+                listeners.delete(key);
+                lastTickTime.delete(key);
+                anchors.delete(key);
+                send({ type: 'unsubscribe', symbol: key });
+                if (listeners.size === 0) disconnect();
+            };
+        },
+
+        onStatus: (listener) => {
+            statusListeners.add(listener);
+            return () => { statusListeners.delete(listener); };
+        },
+
+        getStatus: () => status,
+    };
+};
+
+// QUOTE_STREAM_URL (see vite.config.ts), or the stub the dev server runs at /__quotes
+const defaultStreamUrl = () => {
+    if (process.env.QUOTE_STREAM_URL) return process.env.QUOTE_STREAM_URL;
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    return `${protocol}//${window.location.host}/__quotes`;
+};
+
+let sharedStream: QuoteStream | null = null;
+
+export const getQuoteStream = () => {
+    if (!sharedStream) sharedStream = createQuoteStream(defaultStreamUrl());
+    return sharedStream;
+};
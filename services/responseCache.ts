@@ -0,0 +1,154 @@
+import type { AIFeature } from "./aiProvider";
+import { AIError, throwIfAborted } from "./aiErrors";
+
+// Shared cache for AI calls whose answers stay valid for a while (price series, screener).
+// Entries live in memory and in IndexedDB, so they survive reloads until their TTL runs out.
+// Identical requests made while one is already running share its promise.
+
+// How long each function's results stay fresh
+export const CACHE_TTL_MS: Partial<Record<AIFeature, number>> = {
+    'graph': 5 * 60 * 1000,
+    'screener': 15 * 60 * 1000,
+};
+
+const DB_NAME = 'stocksage-cache';
+const STORE_NAME = 'responses';
+
+interface CacheEntry<T = unknown> {
+    key: string;
+    value: T;
+    expiresAt: number;
+}
+
+interface InFlight {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    // Callers still waiting; the request is only aborted once every one of them has given up
+    waiters: number;
+}
+
+const memory = new Map<string, CacheEntry>();
+const inFlight = new Map<string, InFlight>();
+
+// JSON with sorted keys, so { a, b } and { b, a } produce the same cache key
+const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+// --- IndexedDB (optional: private windows and tests may not have it) ---
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = () => {
+    if (!dbPromise) {
+        dbPromise = new Promise(resolve => {
+            if (typeof indexedDB === 'undefined') return resolve(null);
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn("Response cache: IndexedDB unavailable, using memory only", request.error);
+                resolve(null);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const runStore = async <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T | undefined> => {
+    const db = await openDb();
+    if (!db) return undefined;
+    return new Promise(resolve => {
+        const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => {
+            console.warn("Response cache: IndexedDB request failed", request.error);
+            resolve(undefined);
+        };
+    });
+};
+
+const readEntry = async <T,>(key: string): Promise<T | undefined> => {
+    const entry = memory.get(key) ?? await runStore<CacheEntry>('readonly', store => store.get(key));
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+        memory.delete(key);
+        runStore('readwrite', store => store.delete(key));
+        return undefined;
+    }
+    memory.set(key, entry);
+    return entry.value as T;
+};
+
+const writeEntry = (entry: CacheEntry) => {
+    memory.set(entry.key, entry);
+    return runStore('readwrite', store => store.put(entry));
+};
+
+export const clearResponseCache = async () => {
+    memory.clear();
+    await runStore('readwrite', store => store.clear());
+};
+
+// Wait on a shared request without letting one caller's abort cancel it for the others
+const joinFlight = <T,>(key: string, flight: InFlight, feature: AIFeature, signal?: AbortSignal): Promise<T> => {
+    flight.waiters++;
+    if (!signal) return flight.promise as Promise<T>;
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            flight.waiters--;
+            if (flight.waiters === 0) {
+                flight.controller.abort();
+                if (inFlight.get(key) === flight) inFlight.delete(key);
+            }
+            reject(new AIError('CANCELLED', 'Request cancelled', { feature }));
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        (flight.promise as Promise<T>)
+            .then(resolve, reject)
+            .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+// Return a fresh cached result for (feature, args), or run fetcher once and cache what it returns.
+// Failures are never cached. `args` should already be normalized (trimmed, upper-cased symbols...).
+export const cachedRequest = async <T,>(
+    feature: AIFeature,
+    args: unknown,
+    fetcher: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+): Promise<T> => {
+    throwIfAborted(signal, feature);
+    const key = `${feature}:${stableStringify(args)}`;
+    const ttl = CACHE_TTL_MS[feature] ?? 0;
+
+    const hit = await readEntry<T>(key);
+    if (hit !== undefined) return hit;
+    throwIfAborted(signal, feature);
+
+    let flight = inFlight.get(key);
+    if (!flight) {
+        const controller = new AbortController();
+        const promise = fetcher(controller.signal)
+            .then(async value => {
+                if (ttl > 0) await writeEntry({ key, value, expiresAt: Date.now() + ttl });
+                return value;
+            })
+            .finally(() => {
+                if (inFlight.get(key) === flight) inFlight.delete(key);
+            });
+        // Nobody may be listening if every caller aborted
+        promise.catch(() => {});
+        flight = { promise, controller, waiters: 0 };
+        inFlight.set(key, flight);
+    }
+    return joinFlight<T>(key, flight, feature, signal);
+};
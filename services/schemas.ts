@@ -0,0 +1,182 @@
+import { Schema, Type } from "@google/genai";
+import type { AIFeature } from "./aiProvider";
+import { AIError } from "./aiErrors";
+
+// Response schemas shared by the API request (responseSchema) and the
+// runtime check below, so the two can't drift apart.
+
+export const priceSeriesSchema: Schema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            date: { type: Type.STRING, description: "YYYY-MM-DD" },
+            open: { type: Type.NUMBER, nullable: true },
+            high: { type: Type.NUMBER, nullable: true },
+            low: { type: Type.NUMBER, nullable: true },
+            value: { type: Type.NUMBER, description: "Closing price" },
+            volume: { type: Type.NUMBER, nullable: true, description: "Shares traded" },
+        },
+        required: ['date', 'value'],
+        propertyOrdering: ['date', 'open', 'high', 'low', 'value', 'volume'],
+    },
+};
+
+export const screenerRowsSchema: Schema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            symbol: { type: Type.STRING },
+            name: { type: Type.STRING },
+            price: { type: Type.NUMBER },
+            peRatio: { type: Type.NUMBER, nullable: true, description: "null when not available" },
+            marketCap: { type: Type.STRING },
+            volume: { type: Type.STRING },
+        },
+        required: ['symbol', 'name', 'price', 'peRatio', 'marketCap', 'volume'],
+        propertyOrdering: ['symbol', 'name', 'price', 'peRatio', 'marketCap', 'volume'],
+    },
+};
+
+export const screenshotAnalysisSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        error: { type: Type.STRING, nullable: true, description: "Set only when no financial chart is visible" },
+        symbol: { type: Type.STRING },
+        trend: { type: Type.STRING, enum: ['Bullish', 'Bearish', 'Sideways'] },
+        summary: { type: Type.STRING },
+        technical_table: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    parameter: { type: Type.STRING },
+                    value: { type: Type.STRING },
+                    signal: { type: Type.STRING },
+                },
+                required: ['parameter', 'value', 'signal'],
+            },
+        },
+        trade_setup: {
+            type: Type.OBJECT,
+            properties: {
+                action: { type: Type.STRING, enum: ['BUY', 'SELL', 'WAIT'] },
+                entry: { type: Type.STRING },
+                stop_loss: { type: Type.STRING },
+                target: { type: Type.STRING },
+            },
+            required: ['action', 'entry', 'stop_loss', 'target'],
+        },
+    },
+    required: ['symbol', 'trend', 'summary', 'technical_table', 'trade_setup'],
+    propertyOrdering: ['error', 'symbol', 'trend', 'summary', 'technical_table', 'trade_setup'],
+};
+
+// Thrown when a model response can't be turned into the typed result a view expects
+export class StructuredOutputError extends AIError {
+    issues: string[];
+    raw: string;
+
+    constructor(feature: AIFeature, message: string, issues: string[] = [], raw = '') {
+        super('PARSE_FAILURE', message, { feature });
+        this.name = 'StructuredOutputError';
+        this.issues = issues;
+        this.raw = raw;
+    }
+}
+
+// Pull a JSON value out of a response. Schema-constrained calls return bare JSON,
+// search-grounded ones (which can't use responseSchema) may wrap it in a code block.
+export const extractJson = (text: string): unknown => {
+    const trimmed = text.trim();
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
+    const candidate = fenced ? fenced[1] : trimmed;
+    try {
+        return JSON.parse(candidate);
+    } catch {
+        const start = candidate.search(/[[{]/);
+        const end = Math.max(candidate.lastIndexOf(']'), candidate.lastIndexOf('}'));
+        if (start === -1 || end <= start) return undefined;
+        try {
+            return JSON.parse(candidate.slice(start, end + 1));
+        } catch {
+            return undefined;
+        }
+    }
+};
+
+// Walk a value against a schema, coercing numeric strings ("3,450.20") to numbers.
+// Returns the cleaned value; problems are pushed onto `issues`.
+const conform = (value: unknown, schema: Schema, path: string, issues: string[]): unknown => {
+    if (value === null || value === undefined) {
+        if (!schema.nullable) issues.push(`${path} is missing`);
+        return null;
+    }
+
+    switch (schema.type) {
+        case Type.NUMBER:
+        case Type.INTEGER: {
+            const num = typeof value === 'string' ? Number(value.replace(/[,₹\s]/g, '')) : value;
+            if (typeof num === 'number' && !isNaN(num)) return num;
+            if (schema.nullable && typeof value === 'string' && /^(n\/?a|-|none)$/i.test(value.trim())) return null;
+            issues.push(`${path} should be a number, got ${JSON.stringify(value)}`);
+            return value;
+        }
+        case Type.STRING:
+            if (typeof value === 'number') return String(value);
+            if (typeof value !== 'string') {
+                issues.push(`${path} should be a string`);
+                return value;
+            }
+            if (schema.enum && !schema.enum.includes(value)) {
+                issues.push(`${path} should be one of ${schema.enum.join(', ')}, got "${value}"`);
+            }
+            return value;
+        case Type.BOOLEAN:
+            if (typeof value !== 'boolean') issues.push(`${path} should be a boolean`);
+            return value;
+        case Type.ARRAY:
+            if (!Array.isArray(value)) {
+                issues.push(`${path} should be an array`);
+                return value;
+            }
+            return schema.items ? value.map((item, i) => conform(item, schema.items!, `${path}[${i}]`, issues)) : value;
+        case Type.OBJECT: {
+            if (typeof value !== 'object' || Array.isArray(value)) {
+                issues.push(`${path} should be an object`);
+                return value;
+            }
+            const input = value as Record<string, unknown>;
+            const output: Record<string, unknown> = {};
+            for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+                if (input[key] === undefined && !schema.required?.includes(key)) continue;
+                output[key] = conform(input[key], propSchema, `${path}.${key}`, issues);
+            }
+            return output;
+        }
+        default:
+            return value;
+    }
+};
+
+// Parse + validate a model response. Throws StructuredOutputError with the list of issues.
+export const parseStructured = <T,>(feature: AIFeature, text: string, schema: Schema, label: string): T => {
+    const json = extractJson(text);
+    if (json === undefined) {
+        throw new StructuredOutputError(feature, `The AI response did not contain valid ${label} data.`, [], text);
+    }
+
+    const issues: string[] = [];
+    const result = conform(json, schema, '$', issues);
+    if (issues.length > 0) {
+        console.warn(`Invalid ${label} from ${feature}:`, issues);
+        throw new StructuredOutputError(
+            feature,
+            `The AI returned malformed ${label} data (${issues.length} issue${issues.length > 1 ? 's' : ''}).`,
+            issues,
+            text
+        );
+    }
+    return result as T;
+};
@@ -0,0 +1,91 @@
+import { fetchAcross, getMarketDataProvider, getMarketHistory } from "./marketDataService";
+import { presetRange } from "./chartRange";
+import { OTHER_SECTOR, SECTORS, sectorGroup } from "./sectors";
+import { loadSymbolMaster } from "./symbolMaster";
+
+// Sector and stock moves over a period for the heatmap, across the symbol master. Market data
+// only (quotes for 1D, adjusted daily bars otherwise); symbols without it are left out. Tiles are
+// sized by market cap (price x the master's `shares` column). A symbol without `shares` takes the
+// median cap of its sector (or of all symbols), so it neither vanishes nor dwarfs the rest; with
+// no caps at all, tiles are sized equally.
+
+export const HEATMAP_PERIODS = ['1D', '1W', '1M', '3M', '6M', '1Y'];
+
+export interface HeatmapTile {
+    symbol: string;
+    name: string;
+    price: number;
+    changePercent: number;
+    marketCap?: number;
+    // Size of the tile: its market cap, the fallback above, or 1 when sized equally
+    weight: number;
+}
+
+export interface HeatmapSector {
+    name: string;
+    // Weighted by the tiles' sizes
+    changePercent: number;
+    tiles: HeatmapTile[];
+}
+
+export interface SectorHeatmapData {
+    period: string;
+    sectors: HeatmapSector[];
+    sizedByMarketCap: boolean;
+    // Tiles sized by the median fallback
+    estimatedWeights: number;
+    covered: number;
+    total: number;
+}
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const fetchMove = async (symbol: string, period: string, signal?: AbortSignal) => {
+    if (period === '1D') {
+        const quote = await getMarketDataProvider().getQuote(symbol, signal);
+        return { price: quote.price, changePercent: quote.changePercent };
+    }
+    const { points } = await getMarketHistory(symbol, presetRange(period), true, signal);
+    if (points.length < 2 || !(points[0].value > 0)) throw new Error(`Not enough bars for ${symbol}`);
+    const last = points[points.length - 1].value;
+    return { price: last, changePercent: (last / points[0].value - 1) * 100 };
+};
+
+export const getSectorHeatmap = async (period: string, signal?: AbortSignal): Promise<SectorHeatmapData> => {
+    const master = await loadSymbolMaster();
+    const tiles = await fetchAcross(master.map(entry => entry.symbol), async symbol => {
+        const move = await fetchMove(symbol, period, signal);
+        const entry = master.find(e => e.symbol === symbol)!;
+        const tile: HeatmapTile = { symbol, name: entry.name, ...move, marketCap: entry.shares ? entry.shares * move.price : undefined, weight: 1 };
+        return { tile, sector: sectorGroup(entry.sector) };
+    }, signal);
+
+    const caps = (members: typeof tiles) => members.map(t => t.tile.marketCap).filter((cap): cap is number => cap !== undefined);
+    const knownCaps = caps(tiles);
+    const sizedByMarketCap = knownCaps.length > 0;
+    let estimatedWeights = 0;
+
+    const sectors = [...SECTORS, OTHER_SECTOR]
+        .map(name => {
+            const inSector = tiles.filter(t => t.sector === name);
+            const sectorCaps = caps(inSector);
+            const fallback = sizedByMarketCap ? median(sectorCaps.length > 0 ? sectorCaps : knownCaps) : 1;
+            const members = inSector.map(({ tile }) => {
+                if (sizedByMarketCap && tile.marketCap === undefined) estimatedWeights++;
+                return { ...tile, weight: tile.marketCap ?? fallback };
+            });
+            const totalWeight = members.reduce((sum, tile) => sum + tile.weight, 0);
+            return {
+                name,
+                changePercent: totalWeight > 0 ? members.reduce((sum, tile) => sum + tile.changePercent * tile.weight, 0) / totalWeight : 0,
+                tiles: members,
+            };
+        })
+        .filter(sector => sector.tiles.length > 0);
+
+    return { period, sectors, sizedByMarketCap, estimatedWeights, covered: tiles.length, total: master.length };
+};
@@ -0,0 +1,31 @@
+// The app's sector groups (the Stock Screener filter and the sector heatmap), and how the
+// symbol master's NSE industry names fall into them.
+
+export const SECTORS = ['Technology', 'Finance', 'Healthcare', 'Energy', 'Automobile', 'FMCG', 'Metals'];
+
+export const OTHER_SECTOR = 'Other';
+
+// Lower-cased symbol master sector -> group
+const SECTOR_ALIASES: Record<string, string> = {
+    'information technology': 'Technology',
+    'it': 'Technology',
+    'technology': 'Technology',
+    'telecommunication': 'Technology',
+    'financial services': 'Finance',
+    'finance': 'Finance',
+    'banking': 'Finance',
+    'healthcare': 'Healthcare',
+    'pharmaceuticals': 'Healthcare',
+    'energy': 'Energy',
+    'oil gas & consumable fuels': 'Energy',
+    'power': 'Energy',
+    'automobile': 'Automobile',
+    'automobile and auto components': 'Automobile',
+    'fast moving consumer goods': 'FMCG',
+    'fmcg': 'FMCG',
+    'metals & mining': 'Metals',
+    'metals': 'Metals',
+};
+
+export const sectorGroup = (sector: string | undefined) =>
+    SECTOR_ALIASES[String(sector ?? '').trim().toLowerCase()] ?? OTHER_SECTOR;
@@ -0,0 +1,155 @@
+// Support/resistance zones and trendlines found in a price series.
+//
+// Swing highs/lows are bars whose high (low) is above (below) every bar within SWING_BARS on
+// both sides; closes stand in for series without open/high/low. Swings at similar prices are
+// clustered into zones, and trendlines are fitted through pairs of swing lows (highs) that no
+// later close has broken. Strength comes from the number of touches: swings inside a zone, or
+// lying on a trendline.
+//
+// Indexes are positions in the array passed in, so on a chart with calendar gaps the lines are
+// straight in screen space. Gap placeholders (no value) are skipped.
+
+export type LevelKind = 'support' | 'resistance';
+
+export interface SwingPoint {
+    index: number;
+    date: string;
+    price: number;
+    type: 'high' | 'low';
+}
+
+export interface PriceZone {
+    kind: LevelKind; // relative to the last close
+    low: number;
+    high: number;
+    touches: number;
+    // Touches relative to the strongest zone, 0-1
+    strength: number;
+    lastTouch: string;
+}
+
+export interface Trendline {
+    kind: LevelKind; // through swing lows (support) or highs (resistance)
+    startIndex: number;
+    startPrice: number;
+    // Price per bar
+    slope: number;
+    touches: number;
+    strength: number;
+}
+
+export interface SupportResistance {
+    swings: SwingPoint[];
+    zones: PriceZone[];
+    trendlines: Trendline[];
+}
+
+const SWING_BARS = 3;
+const MIN_TOUCHES = 2;
+const MAX_ZONES = 6;
+// Most recent swings tried as trendline anchors
+const TRENDLINE_SWINGS = 12;
+
+const EMPTY: SupportResistance = { swings: [], zones: [], trendlines: [] };
+
+const highOf = (point: any): number => Number(point.high ?? point.value);
+const lowOf = (point: any): number => Number(point.low ?? point.value);
+
+export const findSwings = (points: any[], bars = SWING_BARS): SwingPoint[] => {
+    const swings: SwingPoint[] = [];
+    const priced = points.map((point, index) => ({ point, index })).filter(({ point }) => point.value != null);
+    for (let i = bars; i < priced.length - bars; i++) {
+        const { point, index } = priced[i];
+        const neighbours = [...priced.slice(i - bars, i), ...priced.slice(i + 1, i + bars + 1)].map(p => p.point);
+        if (neighbours.every(n => highOf(point) > highOf(n))) swings.push({ index, date: point.date, price: highOf(point), type: 'high' });
+        if (neighbours.every(n => lowOf(point) < lowOf(n))) swings.push({ index, date: point.date, price: lowOf(point), type: 'low' });
+    }
+    return swings;
+};
+
+// Half the average bar range (or close-to-close move), but at least 0.3% of the price
+const tolerance = (priced: any[], lastClose: number) => {
+    const moves = priced
+        .map((point, i) => point.high != null && point.low != null ? point.high - point.low : Math.abs(point.value - (priced[i - 1]?.value ?? point.value)))
+        .filter(move => Number.isFinite(move));
+    const average = moves.length ? moves.reduce((sum, move) => sum + move, 0) / moves.length : 0;
+    return Math.max(average / 2, lastClose * 0.003);
+};
+
+const clusterZones = (swings: SwingPoint[], tol: number, lastClose: number): PriceZone[] => {
+    const sorted = [...swings].sort((a, b) => a.price - b.price);
+    const clusters: SwingPoint[][] = [];
+    sorted.forEach(swing => {
+        const current = clusters[clusters.length - 1];
+        if (current && swing.price - current[0].price <= tol * 2) current.push(swing);
+        else clusters.push([swing]);
+    });
+
+    const zones = clusters
+        .filter(cluster => cluster.length >= MIN_TOUCHES)
+        .map(cluster => {
+            const prices = cluster.map(s => s.price);
+            // Give single-price zones some height so they can be seen
+            const low = Math.min(...prices);
+            const high = Math.max(...prices);
+            const pad = high - low < tol / 2 ? tol / 4 : 0;
+            const mid = (low + high) / 2;
+            return {
+                kind: (mid <= lastClose ? 'support' : 'resistance') as LevelKind,
+                low: low - pad,
+                high: high + pad,
+                touches: cluster.length,
+                strength: 0,
+                lastTouch: cluster.reduce((latest, s) => s.index > latest.index ? s : latest).date,
+            };
+        })
+        // Strongest first, then nearest the price
+        .sort((a, b) => b.touches - a.touches || Math.abs((a.low + a.high) / 2 - lastClose) - Math.abs((b.low + b.high) / 2 - lastClose))
+        .slice(0, MAX_ZONES);
+
+    const strongest = Math.max(1, ...zones.map(z => z.touches));
+    return zones.map(zone => ({ ...zone, strength: zone.touches / strongest }));
+};
+
+// Best unbroken line through two swings of one type: most touches, then the most recent anchor
+const fitTrendline = (points: any[], swings: SwingPoint[], kind: LevelKind, tol: number): Trendline | null => {
+    const anchors = swings.filter(s => s.type === (kind === 'support' ? 'low' : 'high')).slice(-TRENDLINE_SWINGS);
+    let best: Trendline | null = null;
+    let bestAnchor = -1;
+    for (let a = 0; a < anchors.length - 1; a++) {
+        for (let b = a + 1; b < anchors.length; b++) {
+            const first = anchors[a];
+            const second = anchors[b];
+            const slope = (second.price - first.price) / (second.index - first.index);
+            const at = (index: number) => first.price + slope * (index - first.index);
+
+            const broken = points.slice(first.index).some((point, offset) =>
+                point.value != null && (kind === 'support' ? point.value < at(first.index + offset) - tol : point.value > at(first.index + offset) + tol));
+            if (broken) continue;
+
+            const touches = anchors.filter(s => s.index >= first.index && Math.abs(s.price - at(s.index)) <= tol).length;
+            if (!best || touches > best.touches || (touches === best.touches && second.index > bestAnchor)) {
+                best = { kind, startIndex: first.index, startPrice: first.price, slope, touches, strength: 0 };
+                bestAnchor = second.index;
+            }
+        }
+    }
+    return best;
+};
+
+export const findSupportResistance = (points: any[]): SupportResistance => {
+    const priced = points.filter(point => point.value != null);
+    if (priced.length < SWING_BARS * 2 + 1) return EMPTY;
+    const lastClose = Number(priced[priced.length - 1].value);
+    const tol = tolerance(priced, lastClose);
+
+    const swings = findSwings(points);
+    const zones = clusterZones(swings, tol, lastClose);
+    const lines = [fitTrendline(points, swings, 'support', tol), fitTrendline(points, swings, 'resistance', tol)]
+        .filter((line): line is Trendline => line !== null);
+    const strongest = Math.max(1, ...lines.map(l => l.touches));
+    return { swings, zones, trendlines: lines.map(line => ({ ...line, strength: line.touches / strongest })) };
+};
+
+// Price on a trendline at an index of the same array it was fitted on
+export const trendlinePrice = (line: Trendline, index: number) => line.startPrice + line.slope * (index - line.startIndex);
@@ -0,0 +1,163 @@
+import { SymbolInfo } from "../types";
+import { staticCsvLoader } from "./fileMarketData";
+
+// The list of listed companies the app knows about, read once from /symbol-master.csv
+// (public/symbol-master.csv). Columns: symbol, name, exchange, isin, sector, lot_size, bse_code, and
+// optionally shares (outstanding, used to size the sector heatmap by market cap).
+// NSE's EQUITY_L.csv works as-is too (SYMBOL, NAME OF COMPANY, ISIN NUMBER, MARKET LOT).
+//
+// resolveSymbol() turns whatever was typed ("Reliance", "hdfc bank", "500325", an ISIN) into the
+// canonical ticker, so alerts, history and the watchlist key on one spelling per company.
+// Before the master has loaded, or for names it doesn't know (e.g. indices), input is only
+// trimmed and upper-cased.
+
+const MASTER_URL = '/symbol-master.csv';
+
+let master: SymbolInfo[] = [];
+// Ticker, BSE code, ISIN and compacted company name -> entry
+let lookup = new Map<string, SymbolInfo>();
+
+// "HDFC Bank Ltd." -> "HDFC BANK"; "Mahindra & Mahindra" -> "MAHINDRA AND MAHINDRA"
+const normalizeName = (text: string) => text
+    .toUpperCase()
+    .replace(/&/g, ' AND ')
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .replace(/\b(LTD|LIMITED|THE|CORPORATION|CORP|COMPANY|CO)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const compact = (text: string) => normalizeName(text).replace(/ /g, '');
+
+const pick = (row: Record<string, string>, ...names: string[]) => {
+    for (const name of names) {
+        const value = row[name]?.trim();
+        if (value) return value;
+    }
+    return undefined;
+};
+
+const toEntry = (raw: Record<string, string>): SymbolInfo | null => {
+    const row = Object.fromEntries(Object.entries(raw).map(([k, v]) => [k.trim().toLowerCase(), v]));
+    const symbol = pick(row, 'symbol', 'ticker', 'security id')?.toUpperCase();
+    const name = pick(row, 'name', 'name of company', 'company name', 'security name');
+    if (!symbol || !name) return null;
+    const lotSize = Number(pick(row, 'lot_size', 'lot size', 'market lot'));
+    const shares = Number(pick(row, 'shares', 'shares_outstanding', 'shares outstanding'));
+    return {
+        symbol,
+        name,
+        exchange: pick(row, 'exchange')?.toUpperCase() === 'BSE' ? 'BSE' : 'NSE',
+        isin: pick(row, 'isin', 'isin number', 'isin no')?.toUpperCase(),
+        sector: pick(row, 'sector', 'industry'),
+        lotSize: isFinite(lotSize) && lotSize > 0 ? lotSize : undefined,
+        bseCode: pick(row, 'bse_code', 'bse code', 'security code', 'scrip code'),
+        shares: isFinite(shares) && shares > 0 ? shares : undefined,
+    };
+};
+
+export const setSymbolMaster = (entries: SymbolInfo[]) => {
+    master = entries;
+    lookup = new Map();
+    // Later keys never overwrite earlier ones, so a ticker wins over another company's name
+    const add = (key: string | undefined, entry: SymbolInfo) => {
+        if (key && !lookup.has(key)) lookup.set(key, entry);
+    };
+    entries.forEach(entry => add(entry.symbol, entry));
+    entries.forEach(entry => {
+        add(entry.bseCode, entry);
+        add(entry.isin, entry);
+        add(compact(entry.name), entry);
+    });
+};
+
+// Never rejects: without a master, symbols are just used as typed
+export const loadSymbolMaster = staticCsvLoader<SymbolInfo[]>(MASTER_URL, rows => {
+    setSymbolMaster(rows.map(toEntry).filter((entry): entry is SymbolInfo => entry !== null));
+    return master;
+}, e => {
+    console.warn("Symbol master unavailable, symbols won't be resolved:", e.message);
+    return master;
+});
+
+export const getSymbolMaster = () => master;
+
+export const findSymbol = (symbol: string): SymbolInfo | undefined => lookup.get(symbol.trim().toUpperCase());
+
+// Canonical ticker for a ticker, BSE code, ISIN or company name; the upper-cased input otherwise
+export const resolveSymbol = (input: string): string => {
+    const term = input.trim().toUpperCase();
+    if (!term) return term;
+    const exact = lookup.get(term) ?? lookup.get(compact(term));
+    if (exact) return exact.symbol;
+
+    // A name prefix that only one company has ("Tata Consultancy" -> TCS)
+    const name = normalizeName(term);
+    if (name.length >= 4) {
+        const matches = master.filter(entry => normalizeName(entry.name).startsWith(name));
+        if (matches.length === 1) return matches[0].symbol;
+    }
+    return term;
+};
+
+// --- Fuzzy search for autocomplete ---
+
+// Edit distance, giving up once it exceeds `max`
+const editDistance = (a: string, b: string, max: number) => {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let best = i;
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+            best = Math.min(best, current[j]);
+        }
+        if (best > max) return max + 1;
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+const isSubsequence = (needle: string, haystack: string) => {
+    let i = 0;
+    for (const char of haystack) {
+        if (char === needle[i]) i++;
+        if (i === needle.length) return true;
+    }
+    return false;
+};
+
+const scoreEntry = (entry: SymbolInfo, query: string, compactQuery: string): number => {
+    const name = normalizeName(entry.name);
+    const compactName = name.replace(/ /g, '');
+    if (entry.symbol === query || compactName === compactQuery) return 100;
+    if (entry.isin === query || entry.bseCode === query) return 95;
+    if (entry.symbol.startsWith(query)) return 80 - (entry.symbol.length - query.length);
+    if (name.startsWith(query) || compactName.startsWith(compactQuery)) return 70;
+    if (name.split(' ').some(word => word.startsWith(query))) return 60;
+    if (compactName.includes(compactQuery)) return 50;
+    // Typos: "RELAINCE", "INFOSIS"
+    const allowed = compactQuery.length >= 7 ? 2 : 1;
+    if (compactQuery.length >= 4) {
+        const typo = Math.min(
+            editDistance(compactQuery, entry.symbol, allowed),
+            editDistance(compactQuery, compactName.slice(0, compactQuery.length), allowed)
+        );
+        if (typo <= allowed) return 45 - typo * 5;
+    }
+    // Abbreviations: "BJFIN" -> BAJFINANCE
+    if (compactQuery.length >= 2 && entry.symbol[0] === compactQuery[0] && isSubsequence(compactQuery, entry.symbol)) return 20;
+    return 0;
+};
+
+export const searchSymbols = (query: string, limit = 8): SymbolInfo[] => {
+    const term = query.trim().toUpperCase();
+    if (!term) return [];
+    const compactQuery = compact(term) || term.replace(/[^A-Z0-9]/g, '');
+    return master
+        .map(entry => ({ entry, score: scoreEntry(entry, term, compactQuery) }))
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score || a.entry.symbol.localeCompare(b.entry.symbol))
+        .slice(0, limit)
+        .map(match => match.entry);
+};
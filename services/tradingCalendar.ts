@@ -0,0 +1,160 @@
+import { staticCsvLoader } from "./fileMarketData";
+
+// NSE/BSE trading hours and holidays. Both exchanges share the calendar: pre-open 09:00-09:15,
+// regular session 09:15-15:30 IST, Monday to Friday. Holidays and special sessions (Muhurat
+// trading on Diwali) come from /market-data/trading-calendar.csv:
+//
+//   date,type,description,start,end
+//   2025-10-21,HOLIDAY,Diwali Laxmi Pujan,,
+//   2025-10-21,SPECIAL,Muhurat Trading,13:45,14:45     times in IST
+//
+// Until the file has loaded (or without one) only weekends are treated as closed.
+
+export type MarketPhase = 'PRE_OPEN' | 'OPEN' | 'CLOSED';
+
+export interface MarketStatus {
+    phase: MarketPhase;
+    // Set while in a session: the regular one or a special one such as Muhurat trading
+    session?: string;
+    // Why the market is shut today, e.g. "Weekend", "Good Friday"
+    reason?: string;
+    opensAt?: Date;  // next session start (pre-open excluded), when not open
+    closesAt?: Date; // end of the current session, when open
+}
+
+interface SpecialSession {
+    description: string;
+    start: number; // minutes after midnight IST
+    end: number;
+}
+
+const CALENDAR_URL = '/market-data/trading-calendar.csv';
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const PRE_OPEN_MINUTES = 15;
+const REGULAR_OPEN = 9 * 60 + 15;
+const REGULAR_CLOSE = 15 * 60 + 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const holidays = new Map<string, string>();
+const specials = new Map<string, SpecialSession>();
+
+const parseTime = (text: string | undefined) => {
+    const match = String(text ?? '').match(/^(\d{1,2}):(\d{2})$/);
+    return match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+};
+
+// Never rejects: without the file, only weekends are closed
+export const loadTradingCalendar = staticCsvLoader<void>(CALENDAR_URL, rows => {
+    for (const raw of rows) {
+        const row = Object.fromEntries(Object.entries(raw).map(([k, v]) => [k.trim().toLowerCase(), v.trim()]));
+        const date = row.date?.slice(0, 10);
+        if (!date || isNaN(new Date(date).getTime())) continue;
+        const type = (row.type || '').toUpperCase();
+        if (type === 'HOLIDAY') {
+            holidays.set(date, row.description || 'Exchange holiday');
+        } else if (type === 'SPECIAL') {
+            const start = parseTime(row.start);
+            const end = parseTime(row.end);
+            if (start < end) specials.set(date, { description: row.description || 'Special session', start, end });
+        }
+    }
+}, e => {
+    console.warn("Trading calendar unavailable, only weekends count as closed:", e.message);
+});
+
+// IST calendar day and minutes after midnight for an instant
+const istParts = (time: Date) => {
+    const ist = new Date(time.getTime() + IST_OFFSET_MS);
+    return { day: ist.toISOString().slice(0, 10), minutes: ist.getUTCHours() * 60 + ist.getUTCMinutes() };
+};
+
+// The instant of `minutes` past midnight IST on `day`
+const istInstant = (day: string, minutes: number) => new Date(new Date(`${day}T00:00:00Z`).getTime() - IST_OFFSET_MS + minutes * 60 * 1000);
+
+const isWeekend = (day: string) => {
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+    return weekday === 0 || weekday === 6;
+};
+
+// The session held on a day, if any: a special session wins over holidays and weekends
+const sessionOn = (day: string): { name: string; start: number; end: number } | null => {
+    const special = specials.get(day);
+    if (special) return { name: special.description, start: special.start, end: special.end };
+    if (isWeekend(day) || holidays.has(day)) return null;
+    return { name: 'Regular', start: REGULAR_OPEN, end: REGULAR_CLOSE };
+};
+
+// YYYY-MM-DD (IST) on which the exchange held any session
+export const isTradingDay = (day: string) => sessionOn(day.slice(0, 10)) !== null;
+
+const nextOpen = (now: Date) => {
+    const today = istParts(now).day;
+    for (let offset = 0; offset < 30; offset++) {
+        const day = new Date(new Date(`${today}T00:00:00Z`).getTime() + offset * DAY_MS).toISOString().slice(0, 10);
+        const session = sessionOn(day);
+        if (!session) continue;
+        const start = istInstant(day, session.start);
+        if (start > now) return start;
+    }
+    return undefined;
+};
+
+export const getMarketStatus = (now: Date = new Date()): MarketStatus => {
+    const { day, minutes } = istParts(now);
+    const session = sessionOn(day);
+    if (session) {
+        if (minutes >= session.start - PRE_OPEN_MINUTES && minutes < session.start) {
+            return { phase: 'PRE_OPEN', session: session.name, opensAt: istInstant(day, session.start) };
+        }
+        if (minutes >= session.start && minutes < session.end) {
+            return { phase: 'OPEN', session: session.name, closesAt: istInstant(day, session.end) };
+        }
+    }
+    const reason = holidays.get(day) ?? (isWeekend(day) ? 'Weekend' : undefined);
+    return { phase: 'CLOSED', reason, opensAt: nextOpen(now) };
+};
+
+// IST day of the most recent session that has started (today once it is open)
+export const latestSessionDay = (now: Date = new Date()) => {
+    const today = istParts(now).day;
+    for (let offset = 0; offset < 30; offset++) {
+        const day = new Date(new Date(`${today}T00:00:00Z`).getTime() - offset * DAY_MS).toISOString().slice(0, 10);
+        const session = sessionOn(day);
+        if (session && istInstant(day, session.start) <= now) return day;
+    }
+    return today;
+};
+
+const STALE_INTRADAY_MS = 15 * 60 * 1000;
+
+// Whether a price stamped `asOf` lags the market: a daily close (YYYY-MM-DD) must be from the
+// latest session; a timestamp must be recent while the market is open, and from the latest
+// session otherwise
+export const isQuoteStale = (asOf: string, now: Date = new Date()) => {
+    const time = new Date(asOf);
+    if (isNaN(time.getTime())) return true;
+    const expected = latestSessionDay(now);
+    if (asOf.length <= 10) return asOf < expected;
+    if (getMarketStatus(now).phase === 'OPEN') return now.getTime() - time.getTime() > STALE_INTRADAY_MS;
+    return istParts(time).day < expected;
+};
+
+// --- Daily bars ---
+
+// Drop bars dated on weekends/holidays (e.g. padded rows or AI estimates)
+export const dropNonTradingDays = <T extends { date: string }>(points: T[]): T[] =>
+    points.filter(p => isTradingDay(p.date));
+
+// Blank placeholders for missing calendar days, so the x-axis shows real time gaps
+export const fillCalendarGaps = <T extends { date: string }>(points: T[]): (T | { date: string })[] => {
+    const result: (T | { date: string })[] = [];
+    points.forEach((point, idx) => {
+        if (idx > 0) {
+            let day = new Date(points[idx - 1].date.slice(0, 10)).getTime() + DAY_MS;
+            const until = new Date(point.date.slice(0, 10)).getTime();
+            for (; day < until; day += DAY_MS) result.push({ date: new Date(day).toISOString().slice(0, 10) });
+        }
+        result.push(point);
+    });
+    return result;
+};
@@ -0,0 +1,154 @@
+import type { AIFeature, AIProvider, AIUsage } from "./aiProvider";
+import { AIError } from "./aiErrors";
+
+// Records model, token counts and latency for every AI call, estimates cost, and
+// enforces the daily budgets set in the AI Usage view. Stored in localStorage.
+
+export interface UsageRecord {
+    id: string;
+    timestamp: number;
+    feature: AIFeature;
+    model: string;
+    promptTokens: number;
+    outputTokens: number;
+    thinkingTokens: number;
+    videoSeconds?: number;
+    latencyMs: number;
+    ok: boolean;
+    costUsd: number;
+}
+
+// Daily limits in USD; unset means unlimited
+export interface UsageBudgets {
+    dailyTotalUsd?: number;
+    perFeatureUsd: Partial<Record<AIFeature, number>>;
+}
+
+// Estimated list prices in USD (per 1M tokens, or per second of video). Thinking tokens bill as output.
+export const MODEL_PRICING: Record<string, { inputPerM?: number; outputPerM?: number; perVideoSecond?: number }> = {
+    'gemini-2.5-flash': { inputPerM: 0.30, outputPerM: 2.50 },
+    'gemini-3-pro-preview': { inputPerM: 2.00, outputPerM: 12.00 },
+    'veo-3.1-fast-generate-preview': { perVideoSecond: 0.15 },
+};
+
+// Veo's clip length when the request doesn't set durationSeconds
+const DEFAULT_VIDEO_SECONDS = 8;
+
+const USAGE_KEY = 'ai_usage_log';
+const BUDGETS_KEY = 'ai_usage_budgets';
+const RETENTION_DAYS = 30;
+
+export const estimateCost = (model: string, usage: Partial<AIUsage> & { videoSeconds?: number }) => {
+    const price = MODEL_PRICING[model];
+    if (!price) return 0;
+    const input = (usage.promptTokens || 0) * (price.inputPerM || 0) / 1_000_000;
+    const output = ((usage.outputTokens || 0) + (usage.thinkingTokens || 0)) * (price.outputPerM || 0) / 1_000_000;
+    const video = (usage.videoSeconds || 0) * (price.perVideoSecond || 0);
+    return input + output + video;
+};
+
+// Local calendar day, e.g. "2025-01-31"
+export const dayKey = (timestamp: number) => {
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const loadUsage = (): UsageRecord[] => {
+    try {
+        const saved = localStorage.getItem(USAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+        console.error("Failed to read usage log", e);
+        return [];
+    }
+};
+
+export const clearUsage = () => {
+    localStorage.removeItem(USAGE_KEY);
+};
+
+const recordUsage = (record: Omit<UsageRecord, 'id' | 'costUsd'>) => {
+    const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const entry: UsageRecord = {
+        ...record,
+        id: `${record.timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+        costUsd: estimateCost(record.model, record),
+    };
+    const log = [...loadUsage().filter(r => r.timestamp >= cutoff), entry];
+    localStorage.setItem(USAGE_KEY, JSON.stringify(log));
+};
+
+export const loadBudgets = (): UsageBudgets => {
+    try {
+        const saved = localStorage.getItem(BUDGETS_KEY);
+        if (saved) return { perFeatureUsd: {}, ...JSON.parse(saved) };
+    } catch (e) {
+        console.error("Failed to read usage budgets", e);
+    }
+    return { perFeatureUsd: {} };
+};
+
+export const saveBudgets = (budgets: UsageBudgets) => {
+    localStorage.setItem(BUDGETS_KEY, JSON.stringify(budgets));
+};
+
+// Today's spend, overall and per feature
+export const getSpendToday = (records: UsageRecord[] = loadUsage()) => {
+    const today = dayKey(Date.now());
+    const byFeature: Partial<Record<AIFeature, number>> = {};
+    let total = 0;
+    for (const r of records) {
+        if (dayKey(r.timestamp) !== today) continue;
+        total += r.costUsd;
+        byFeature[r.feature] = (byFeature[r.feature] || 0) + r.costUsd;
+    }
+    return { total, byFeature };
+};
+
+// Throws BUDGET_EXCEEDED once today's spend has reached a limit
+export const assertWithinBudget = (feature: AIFeature) => {
+    const budgets = loadBudgets();
+    const spend = getSpendToday();
+    const featureLimit = budgets.perFeatureUsd[feature];
+
+    if (budgets.dailyTotalUsd !== undefined && spend.total >= budgets.dailyTotalUsd) {
+        throw new AIError('BUDGET_EXCEEDED', `Daily AI budget of $${budgets.dailyTotalUsd.toFixed(2)} reached ($${spend.total.toFixed(2)} spent today)`, { feature });
+    }
+    if (featureLimit !== undefined && (spend.byFeature[feature] || 0) >= featureLimit) {
+        throw new AIError('BUDGET_EXCEEDED', `Daily ${feature} budget of $${featureLimit.toFixed(2)} reached`, { feature });
+    }
+};
+
+// Wraps a provider so every call is budget-checked and metered, successful or not
+export const createMeteredProvider = (inner: AIProvider): AIProvider => {
+    const meter = async <T,>(
+        feature: AIFeature,
+        model: string,
+        call: () => Promise<T>,
+        usageOf: (result: T) => Partial<AIUsage> & { videoSeconds?: number }
+    ): Promise<T> => {
+        assertWithinBudget(feature);
+        const started = performance.now();
+        const base = { timestamp: Date.now(), feature, model, promptTokens: 0, outputTokens: 0, thinkingTokens: 0 };
+        try {
+            const result = await call();
+            recordUsage({ ...base, ...usageOf(result), latencyMs: Math.round(performance.now() - started), ok: true });
+            return result;
+        } catch (e) {
+            recordUsage({ ...base, latencyMs: Math.round(performance.now() - started), ok: false });
+            throw e;
+        }
+    };
+
+    return {
+        name: inner.name,
+
+        generateContent: (request) => meter(request.feature, request.model, () => inner.generateContent(request), r => r.usage || {}),
+
+        generateContentStream: (request, onText) => meter(request.feature, request.model, () => inner.generateContentStream(request, onText), r => r.usage || {}),
+
+        generateVideo: (request) => meter(request.feature, request.model, () => inner.generateVideo(request), () => ({
+            videoSeconds: request.config?.durationSeconds ?? DEFAULT_VIDEO_SECONDS,
+        })),
+    };
+};
@@ -1,3 +1,4 @@
+import type { AIErrorKind } from './services/aiErrors';
 
 export enum View {
   DASHBOARD = 'DASHBOARD',
@@ -9,7 +10,10 @@ export enum View {
   MULTIMODAL_INPUT = 'MULTIMODAL_INPUT',
   ADVANCE_SCREEN = 'ADVANCE_SCREEN',
   STOCK_SCREENER = 'STOCK_SCREENER',
+  SECTOR_HEATMAP = 'SECTOR_HEATMAP',
   LIBRARY = 'LIBRARY',
+  SETTINGS = 'SETTINGS',
+  USAGE = 'USAGE',
 }
 
 export interface ChatMessage {
@@ -18,10 +22,106 @@ export interface ChatMessage {
   text: string;
   chartData?: any[]; // For visual graphs
   sources?: { title: string; uri: string }[]; // For clean citation display
+  actions?: string[]; // What chat tools did, e.g. "Alert set: TCS ≥ ₹4,000"
+  template?: PromptRef; // Prompt template version that produced this reply
+  error?: { kind: AIErrorKind; message: string }; // Set when this reply failed
+  stopped?: boolean; // The user stopped this reply part-way; shown in the UI, not sent back as history
   timestamp: Date;
 }
 
+// Which prompt template (and version) produced a result, see services/promptTemplates.ts
+export interface PromptRef {
+  id: string;
+  version: string;
+}
+
+// One bar. `value` is the close; open/high/low/volume are missing when the source only has closes.
 export interface StockDataPoint {
   date: string;
   value: number;
-}
\ No newline at end of file
+  open?: number;
+  high?: number;
+  low?: number;
+  volume?: number;
+}
+
+// Where a price series or quote came from. 'ai-estimate' means the model produced the
+// numbers (see services/marketDataService.ts) and they must be labelled as such.
+export type PriceSource = 'market' | 'ai-estimate';
+
+export interface MarketQuote {
+  symbol: string;
+  price: number;
+  change: number; // vs previous close
+  changePercent: number;
+  asOf: string; // date/time of the last price
+}
+
+export type CorporateActionType = 'SPLIT' | 'BONUS' | 'DIVIDEND';
+
+// A split, bonus issue or dividend (services/corporateActions.ts)
+export interface CorporateAction {
+  symbol: string;
+  date: string;     // ex-date, YYYY-MM-DD
+  type: CorporateActionType;
+  ratio?: number;   // SPLIT/BONUS: shares held after per share before (1:5 split -> 5, 1:1 bonus -> 2)
+  amount?: number;  // DIVIDEND: cash per share
+  label: string;    // e.g. "Split 1:5", "Bonus 1:1", "Dividend ₹10"
+}
+
+// One trade/price update from the quote stream (services/quoteStream.ts)
+export interface QuoteTick {
+  symbol: string;
+  price: number;
+  volume?: number;
+  time: number; // epoch ms
+}
+
+// One listed company from the symbol master (services/symbolMaster.ts)
+export interface SymbolInfo {
+  symbol: string;   // canonical ticker: the NSE symbol, or the BSE code for BSE-only listings
+  name: string;
+  exchange: 'NSE' | 'BSE';
+  isin?: string;
+  sector?: string;
+  lotSize?: number;
+  bseCode?: string; // BSE scrip code when an NSE-listed company also trades on BSE
+  shares?: number;  // shares outstanding, for market cap (price x shares)
+}
+
+export interface PriceAlert {
+  id: string;
+  symbol: string;
+  targetPrice: number;
+  createdAt: number;
+}
+
+export interface ScreenerRow {
+  symbol: string;
+  name: string;
+  price: number;
+  peRatio: number | null; // null when the P/E is not meaningful (e.g. loss-making)
+  marketCap: string;
+  volume: string;
+}
+
+export interface TechnicalRow {
+  parameter: string;
+  value: string;
+  signal: string;
+}
+
+export interface TradeSetup {
+  action: 'BUY' | 'SELL' | 'WAIT';
+  entry: string;
+  stop_loss: string;
+  target: string;
+}
+
+export interface ScreenshotAnalysis {
+  symbol: string;
+  trend: 'Bullish' | 'Bearish' | 'Sideways';
+  summary: string;
+  technical_table: TechnicalRow[];
+  trade_setup: TradeSetup;
+}
@@ -1,18 +1,89 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createAIProxyHandler } from './server/aiProxy';
+import { attachQuoteStub } from './server/quoteStub';
+
+// Serves and records AI fixtures from ./fixtures (used by AI_PROVIDER=fixture|record)
+const aiFixtures = (): Plugin => ({
+    name: 'ai-fixtures',
+    configureServer(server) {
+      const root = path.resolve(__dirname, 'fixtures');
+      server.middlewares.use('/__fixtures', (req, res) => {
+        const match = (req.url || '').match(/^\/([a-z0-9-]+)\/([a-z0-9-]+)\.json$/);
+        if (!match) {
+          res.statusCode = 400;
+          res.end('Bad fixture path');
+          return;
+        }
+        const dir = path.join(root, match[1]);
+        const file = path.join(dir, `${match[2]}.json`);
+
+        if (req.method === 'POST') {
+          let body = '';
+          req.on('data', chunk => { body += chunk; });
+          req.on('end', () => {
+            fs.mkdirSync(dir, { recursive: true });
+            fs.writeFileSync(file, body);
+            res.statusCode = 204;
+            res.end();
+          });
+          return;
+        }
+
+        if (!fs.existsSync(file)) {
+          res.statusCode = 404;
+          res.end('Fixture not found');
+          return;
+        }
+        res.setHeader('Content-Type', 'application/json');
+        res.end(fs.readFileSync(file));
+      });
+    },
+});
+
+// Backend for AI_PROXY_URL=/api/ai: the Gemini key stays in this Node process (see server/aiProxy.ts).
+// Only localhost may call it unless AI_PROXY_ALLOW_REMOTE=true.
+const aiProxy = (apiKey: string | undefined, allowRemote: boolean): Plugin => ({
+    name: 'ai-proxy',
+    configureServer(server) {
+      server.middlewares.use('/api/ai', createAIProxyHandler(apiKey, { allowRemote }));
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use('/api/ai', createAIProxyHandler(apiKey, { allowRemote }));
+    },
+});
+
+// Replays recorded ticks from ./fixtures/ticks over a WebSocket at /__quotes (see server/quoteStub.ts)
+const quoteStub = (): Plugin => ({
+    name: 'quote-stub',
+    configureServer(server) {
+      if (server.httpServer) attachQuoteStub(server.httpServer, __dirname);
+    },
+    configurePreviewServer(server) {
+      attachQuoteStub(server.httpServer, __dirname);
+    },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With a proxy configured the key is only needed server-side, so keep it out of the bundle
+    const clientKey = env.AI_PROXY_URL ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), aiFixtures(), aiProxy(env.GEMINI_API_KEY, env.AI_PROXY_ALLOW_REMOTE === 'true'), quoteStub()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(clientKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(clientKey),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL),
+        'process.env.MARKET_DATA_PROVIDER': JSON.stringify(env.MARKET_DATA_PROVIDER),
+        'process.env.MARKET_DATA_URL': JSON.stringify(env.MARKET_DATA_URL),
+        'process.env.QUOTE_STREAM_URL': JSON.stringify(env.QUOTE_STREAM_URL)
       },
       resolve: {
         alias: {